@@ -26,8 +26,13 @@
   const cells = new Map();
   window.__sandbox_cells = cells;
 
-  /** 現在実行中のセルの index を記録する（stream/exit を正しいセルに届けるため） */
-  let activeIndex = null;
+  /** 実行中の runId → セル index（stream/exit を実行元のセルに届けるため） */
+  const runs = new Map();
+
+  /** 実行ごとに一意な ID を発行する（複数セルの同時実行でストリームが混ざらないように） */
+  function createRunId(index) {
+    return `${index}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  }
 
   // ── エディタ高さ計算ユーティリティ ──────────────────────────
   //  CSS の --md-editor-* トークンと合わせる
@@ -226,6 +231,7 @@ ${escaped}
         <div class="sandbox-toolbar">
           <select class="sb-langSelect"></select>
           <button class="sb-runBtn">▶ Run</button>
+          <button class="sb-stopBtn" disabled>■ Stop</button>
           <button class="sb-loadBtn">↺ Load Template</button>
         </div>
 
@@ -238,6 +244,10 @@ ${escaped}
         <div class="sb-output">
           <div class="output-header">Output</div>
           <pre class="output-area"></pre>
+          <div class="sb-stdin" style="display:none">
+            <input class="sb-stdinInput" type="text" placeholder="標準入力（Enter で送信 / Ctrl+D で EOF）">
+            <button class="sb-stdinSend">Send</button>
+          </div>
         </div>
 
       </div>
@@ -246,6 +256,10 @@ ${escaped}
     // UI refs
     const langSelect = rootEl.querySelector('.sb-langSelect');
     const runBtn = rootEl.querySelector('.sb-runBtn');
+    const stopBtn = rootEl.querySelector('.sb-stopBtn');
+    const stdinArea = rootEl.querySelector('.sb-stdin');
+    const stdinInput = rootEl.querySelector('.sb-stdinInput');
+    const stdinSend = rootEl.querySelector('.sb-stdinSend');
     const loadBtn = rootEl.querySelector('.sb-loadBtn');
     const execTextarea = rootEl.querySelector('.sb-execCommand');
     const editorContainer = rootEl.querySelector('.sb-editor');
@@ -255,10 +269,14 @@ ${escaped}
     // populate languages
     const LANG_CONFIG = window.LANG_CONFIG || {};
     const langs = Object.keys(LANG_CONFIG).length ? Object.keys(LANG_CONFIG) : ['javascript'];
+    // 実行に必要なコマンドが見つからない言語（選択はできるが、コマンドを書き換えないと実行できない）
+    const unavailable = window.UNAVAILABLE_LANGS || [];
     langSelect.innerHTML = '';
     langs.forEach(l => {
       const o = document.createElement('option');
-      o.value = l; o.textContent = l;
+      o.value = l;
+      o.textContent = unavailable.includes(l) ? `${l} ⚠ not installed` : l;
+      if (unavailable.includes(l)) o.title = 'コマンドが見つかりません（DocMate: Check Execution Environment で確認できます）';
       langSelect.appendChild(o);
     });
 
@@ -306,6 +324,8 @@ ${escaped}
     const cellObj = {
       rootEl,
       index: String(index),
+      runId: null, // 実行中の runId（未実行・終了後は null）
+      stopRequested: false, // Stop ボタンで止めた実行か
       outputEl: outputPre,
       preGeneratedOutput, // プリ生成された実行結果を保持
       append(s) {
@@ -314,6 +334,14 @@ ${escaped}
           outputPre.textContent += String(s);
           outputPre.scrollTop = outputPre.scrollHeight;
         }
+      },
+      /** 実行状態に合わせて Run / Stop / stdin 入力欄を切り替える */
+      setRunning(running) {
+        runBtn.disabled = running;
+        runBtn.textContent = running ? '… Running' : '▶ Run';
+        stopBtn.disabled = !running;
+        stdinArea.style.display = running ? '' : 'none';
+        if (!running) stdinInput.value = '';
       }
     };
     cells.set(String(index), cellObj);
@@ -355,20 +383,46 @@ ${escaped}
 
       if (outputPre) outputPre.textContent = '';
 
-      runBtn.disabled = true;
-      runBtn.textContent = '… Running';
+      const runId = createRunId(index);
+      cellObj.runId = runId;
+      cellObj.stopRequested = false;
+      runs.set(runId, String(index));
+      cellObj.setRunning(true);
 
       const payload = {
         command: 'run',
+        runId,
         language: langSelect.value,
         code,
         execCommand,
         index
       };
-      activeIndex = String(index);
       if (vscodeApi) vscodeApi.postMessage(payload);
     });
 
+    // ---- Stop（このセルの実行だけを停止） ----
+    stopBtn.addEventListener('click', () => {
+      if (!cellObj.runId || !vscodeApi) return;
+      cellObj.stopRequested = true;
+      vscodeApi.postMessage({ command: 'stop', runId: cellObj.runId });
+    });
+
+    // ---- stdin（1行ずつ実行中のプロセスへ送る） ----
+    function sendStdin(eof) {
+      if (!cellObj.runId || !vscodeApi) return;
+      const line = stdinInput.value;
+      const data = eof ? line : line + '\n';
+      // 入力内容を出力欄にもエコーする
+      if (data) cellObj.append(data.endsWith('\n') ? data : data + '\n');
+      stdinInput.value = '';
+      vscodeApi.postMessage({ command: 'stdin', runId: cellObj.runId, data, eof });
+    }
+    stdinSend.addEventListener('click', () => sendStdin(false));
+    stdinInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') { e.preventDefault(); sendStdin(false); }
+      else if (e.key === 'd' && e.ctrlKey) { e.preventDefault(); sendStdin(true); }
+    });
+
     // ---- Monaco loader ----
     const curLang = langSelect.value || langs[0];
     tryLoadMonaco(editorContainer, initialCode, curLang)
@@ -620,6 +674,8 @@ ${escaped}
     const msg = ev.data || {};
 
     function restoreRunBtn(index) {
+      const c = cells.get(String(index));
+      if (c && c.setRunning) { c.setRunning(false); return; }
       const root = document.getElementById(`sandbox-root-${index}`)
         || document.querySelector(`[data-index="${index}"]`);
       if (!root) return;
@@ -627,6 +683,24 @@ ${escaped}
       if (btn) { btn.disabled = false; btn.textContent = '▶ Run'; }
     }
 
+    /** runId から実行元のセルを引く（既に閉じられたモーダルなどは null） */
+    function cellForRun(runId) {
+      const index = runId !== undefined ? runs.get(runId) : undefined;
+      if (index === undefined) return null;
+      const c = cells.get(index);
+      return c && c.runId === runId ? c : null;
+    }
+
+    /** 実行終了時の後始末（runId の登録解除と Run ボタンの復帰） */
+    function finishRun(runId) {
+      const index = runs.get(runId);
+      runs.delete(runId);
+      if (index === undefined) return;
+      const c = cells.get(index);
+      if (c && c.runId === runId) c.runId = null;
+      restoreRunBtn(index);
+    }
+
     if (msg.command === 'result' && typeof msg.index !== 'undefined') {
       const index = String(msg.index);
       const c = cells.get(index);
@@ -642,42 +716,38 @@ ${escaped}
       return;
     }
     if (msg.kind === 'stream') {
-      const ac = activeIndex !== null ? cells.get(activeIndex) : null;
-      if (ac) {
-        if (msg.stdout) ac.append(msg.stdout);
-        if (msg.stderr) ac.append(msg.stderr);
+      const c = cellForRun(msg.runId);
+      if (c) {
+        if (msg.stdout) c.append(msg.stdout);
+        if (msg.stderr) c.append(msg.stderr);
       }
       return;
     }
     if (msg.kind === 'exit') {
-      const exitCode = msg.code;
-      cells.forEach(c => c.append(`\n[process exited, code=${msg.code}, signal=${msg.signal}]\n`));
-      // 実行失敗時はプリ生成された出力にフォールバック + エラーログも表示
-      if (exitCode !== 0) {
-        cells.forEach(c => {
-          if (c.preGeneratedOutput && c.outputEl) {
-            const errorLog = c.outputEl.textContent || '';
-            c.outputEl.textContent = c.preGeneratedOutput
-              + '\n\n(ℹ️ ライブ実行は失敗したため、AIによる期待出力を表示しています)'
-              + '\n\n--- エラーログ ---\n'
-              + errorLog;
-          }
-        });
+      const c = cellForRun(msg.runId);
+      if (c) {
+        c.append(`\n[process exited, code=${msg.code}, signal=${msg.signal}]\n`);
+        // 実行失敗時はプリ生成された出力にフォールバック + エラーログも表示（Stop による終了は除く）
+        if (msg.code !== 0 && !c.stopRequested && c.preGeneratedOutput && c.outputEl) {
+          const errorLog = c.outputEl.textContent || '';
+          c.outputEl.textContent = c.preGeneratedOutput
+            + '\n\n(ℹ️ ライブ実行は失敗したため、AIによる期待出力を表示しています)'
+            + '\n\n--- エラーログ ---\n'
+            + errorLog;
+        }
       }
-      cells.forEach((c, idx) => restoreRunBtn(idx));
-      activeIndex = null;
+      finishRun(msg.runId);
       return;
     }
     if (msg.kind === 'status') {
-      const ac = activeIndex !== null ? cells.get(activeIndex) : null;
-      if (ac) ac.append(`[status] ${msg.text}\n`);
+      const c = cellForRun(msg.runId);
+      if (c) c.append(`[status] ${msg.text}\n`);
       return;
     }
     if (msg.kind === 'error' && msg.text) {
-      const ac = activeIndex !== null ? cells.get(activeIndex) : null;
-      if (ac) ac.append(`[error] ${msg.text}\n`);
-      if (activeIndex !== null) restoreRunBtn(activeIndex);
-      activeIndex = null;
+      const c = cellForRun(msg.runId);
+      if (c) c.append(`[error] ${msg.text}\n`);
+      finishRun(msg.runId);
       return;
     }
   });
@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+import { CacheService, CacheIndexEntry } from '../services/cacheService';
+
+/** QuickPick の項目（キャッシュエントリ or 一括操作） */
+interface CachePickItem extends vscode.QuickPickItem {
+    action?: 'pruneExpired' | 'clearUnpinned' | 'clearAll';
+    entry?: CacheIndexEntry;
+}
+
+const OPEN_BUTTON: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('go-to-file'), tooltip: '開く' };
+const DELETE_BUTTON: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('trash'), tooltip: '削除' };
+
+/**
+ * 「DocMate: Manage Cache」コマンド。
+ * キャッシュの一覧表示・個別削除・期限切れの削除・全削除を QuickPick で行う。
+ */
+export class CacheController {
+    constructor(
+        private readonly cacheService: CacheService,
+        private readonly openEntry: (url: string) => void
+    ) { }
+
+    public async manage(): Promise<void> {
+        const quickPick = vscode.window.createQuickPick<CachePickItem>();
+        quickPick.matchOnDescription = true;
+        quickPick.matchOnDetail = true;
+        quickPick.placeholder = 'エントリを選ぶと開きます。ゴミ箱ボタンで個別に削除できます';
+
+        const refreshItems = () => {
+            const stats = this.cacheService.getStats();
+            quickPick.title = `DocMate Cache: ${stats.count} 件 / ${this.formatBytes(stats.bytes)}（期限切れ ${stats.expired} 件）`;
+            quickPick.items = this.buildItems();
+        };
+        refreshItems();
+
+        quickPick.onDidTriggerItemButton(async (e) => {
+            const entry = e.item.entry;
+            if (!entry) {
+                return;
+            }
+            if (e.button === DELETE_BUTTON) {
+                this.cacheService.invalidate(entry.url);
+                refreshItems();
+            } else if (e.button === OPEN_BUTTON) {
+                quickPick.hide();
+                this.openEntry(entry.url);
+            }
+        });
+
+        quickPick.onDidAccept(async () => {
+            const item = quickPick.selectedItems[0];
+            if (!item) {
+                return;
+            }
+            if (item.entry) {
+                quickPick.hide();
+                this.openEntry(item.entry.url);
+                return;
+            }
+            if (item.action) {
+                quickPick.hide();
+                await this.runAction(item.action);
+            }
+        });
+
+        quickPick.onDidHide(() => quickPick.dispose());
+        quickPick.show();
+    }
+
+    private buildItems(): CachePickItem[] {
+        const entries = this.cacheService.listAll();
+        const items: CachePickItem[] = [
+            { label: '$(clock) 期限切れのエントリを削除', action: 'pruneExpired', alwaysShow: true },
+            { label: '$(clear-all) ピン留め以外を全て削除', action: 'clearUnpinned', alwaysShow: true },
+            { label: '$(trash) 全て削除', action: 'clearAll', alwaysShow: true },
+            { label: 'エントリ', kind: vscode.QuickPickItemKind.Separator },
+        ];
+
+        for (const entry of entries) {
+            const expired = this.cacheService.isExpired(entry);
+            const icon = entry.pinned ? '$(pinned)' : expired ? '$(history)' : '$(book)';
+            items.push({
+                label: `${icon} ${entry.keyword || entry.url}`,
+                description: [
+                    entry.language || 'unknown',
+                    this.formatBytes(entry.bytes),
+                    new Date(entry.savedAt).toLocaleString(),
+                    expired ? '期限切れ' : '',
+                ].filter(s => s.length > 0).join(' · '),
+                detail: entry.url,
+                buttons: [OPEN_BUTTON, DELETE_BUTTON],
+                entry,
+            });
+        }
+        return items;
+    }
+
+    private async runAction(action: NonNullable<CachePickItem['action']>): Promise<void> {
+        switch (action) {
+            case 'pruneExpired': {
+                const count = this.cacheService.pruneExpired();
+                vscode.window.showInformationMessage(`DocMate: 期限切れのキャッシュを ${count} 件削除しました`);
+                break;
+            }
+            case 'clearUnpinned':
+            case 'clearAll': {
+                const includePinned = action === 'clearAll';
+                const answer = await vscode.window.showWarningMessage(
+                    includePinned ? 'キャッシュを全て削除しますか？' : 'ピン留め以外のキャッシュを削除しますか？',
+                    { modal: true },
+                    '削除'
+                );
+                if (answer !== '削除') {
+                    return;
+                }
+                const count = this.cacheService.clear(includePinned);
+                vscode.window.showInformationMessage(`DocMate: キャッシュを ${count} 件削除しました`);
+                break;
+            }
+        }
+    }
+
+    private formatBytes(bytes: number): string {
+        if (bytes < 1024) {
+            return `${bytes} B`;
+        }
+        if (bytes < 1024 * 1024) {
+            return `${(bytes / 1024).toFixed(1)} KB`;
+        }
+        return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    }
+}
@@ -1,13 +1,31 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { DocService } from '../services/docService';
-import { GeminiService } from '../services/geminiService';
-import { ExecutionService } from '../services/executionService';
-import { GenerateUUIDService } from '../services/generateUUIDService';
+import { DocService, DocSearchResult } from '../services/docService';
+import { SearchContext, isAmbiguous, parseHoverType, parseReceiver } from '../services/symbolRanker';
+import { extractJsImports, extractPythonImports } from '../services/dependencyGraphService';
+import { OfflineDocStore } from '../services/offlineDocStore';
+import { GeminiService, Example } from '../services/geminiService';
+import { ExecutionService, ExampleAttempt } from '../services/executionService';
 import { CacheService } from '../services/cacheService';
+import { LangConfigService } from '../services/langConfigService';
 import { GenerateProjectDocumentService } from '../services/generateProjectDocumentService';
+import { ALL_WORKSPACE_FOLDERS, WorkspaceFolderService } from '../services/workspaceFolderService';
+import { GenerationReport, countByStatus, getRetryTargets, readReport, renderReportHtml } from '../services/generationReport';
 import { DocMateWebviewProvider } from '../views/webviewProvider';
+import { withAbortSignal, isAbortError, throwIfAborted, createAbortError } from '../services/cancellation';
+
+/** 実行・自己修復まで済ませたサンプルコード */
+export interface ExplainedExample {
+    title: string;
+    description: string;
+    code: string;
+    executionOutput: string;
+    /** 初回実行を含む全試行の履歴 */
+    attempts?: ExampleAttempt[];
+    /** いずれかの試行で実行に成功したか（iframe 系など実行していない場合は undefined） */
+    verified?: boolean;
+}
 
 export class DocMateController {
     private context: vscode.ExtensionContext;
@@ -15,84 +33,360 @@ export class DocMateController {
     private geminiService: GeminiService;
     private executionService: ExecutionService;
     private generateProjectDocumentService: GenerateProjectDocumentService;
-    private generateUUIDService: GenerateUUIDService;
     private cacheService: CacheService;
     private maxRetries = 5;
-
-    constructor(context: vscode.ExtensionContext) {
+    /** 実行レポートのパネル（再生成のたびに同じパネルを更新する） */
+    private reportPanel: vscode.WebviewPanel | undefined;
+    /** 実行レポートのパネルに表示しているワークスペースフォルダ */
+    private reportFolder: vscode.WorkspaceFolder | undefined;
+
+    constructor(
+        context: vscode.ExtensionContext,
+        geminiService: GeminiService,
+        cacheService: CacheService,
+        private readonly langConfigService: LangConfigService,
+        workspaceFolders: WorkspaceFolderService,
+        offlineDocStore?: OfflineDocStore
+    ) {
         this.context = context;
-        this.docService = new DocService();
-        this.generateUUIDService = new GenerateUUIDService(context);
-        this.geminiService = new GeminiService(this.generateUUIDService);
-        this.executionService = new ExecutionService(context.extensionPath);
-        this.cacheService = new CacheService();
+        this.docService = new DocService(workspaceFolders, offlineDocStore);
+        this.geminiService = geminiService;
+        this.executionService = new ExecutionService(langConfigService, workspaceFolders);
+        this.cacheService = cacheService;
         this.generateProjectDocumentService = new GenerateProjectDocumentService(context, this.geminiService, this.executionService);
         this.generateProjectDocumentService.prepare();
-        // langConfig.json の promptHint を GeminiService に読み込ませる
-        this.geminiService.loadLangConfig(context.extensionPath);
     }
 
+    /**
+     * 検索語の周りの文脈（レシーバーとその型・import しているモジュール）を集め、検索結果の順位付けに使う。
+     * range が無い場合（ホバーのリンクから呼ばれた場合など）は import だけを集める。
+     */
+    async collectSearchContext(document: vscode.TextDocument, keyword: string, range?: vscode.Range): Promise<SearchContext> {
+        const text = document.getText();
+        const imports = document.languageId === 'python' ? extractPythonImports(text) : extractJsImports(text);
+        const context: SearchContext = {
+            imports: imports.map(i => i.module).filter(m => m.length > 0 && !m.startsWith('.')),
+        };
+        if (!range || !range.isSingleLine) {
+            return context;
+        }
+
+        // "arr.map" を選択した場合は選択範囲から、"map" だけなら直前のテキストからレシーバーを探す
+        const dot = keyword.lastIndexOf('.');
+        const before = dot > 0
+            ? keyword.substring(0, dot + 1)
+            : document.lineAt(range.start.line).text.substring(0, range.start.character);
+        const receiver = parseReceiver(before);
+        if (!receiver) {
+            return context;
+        }
+        context.receiver = receiver;
+
+        // レシーバーの型はランゲージサーバーのホバーから推定する（取れなければ名前だけで順位付けする）
+        const offset = before.lastIndexOf(receiver);
+        const position = dot > 0 ? range.start.translate(0, offset) : new vscode.Position(range.start.line, offset);
+        try {
+            const hovers = await vscode.commands.executeCommand<vscode.Hover[]>('vscode.executeHoverProvider', document.uri, position);
+            const hoverText = (hovers ?? [])
+                .flatMap(hover => hover.contents)
+                .map(content => typeof content === 'string' ? content : content.value)
+                .join('\n');
+            context.receiverType = parseHoverType(hoverText);
+        } catch (error) {
+            console.warn('DocMateController: レシーバーの型を取得できませんでした', error);
+        }
+        return context;
+    }
+
+    /** 上位の候補が僅差のとき、タイトルと分類を並べてどのページを解説するか選んでもらう */
+    private async pickSearchResult(keyword: string, candidates: DocSearchResult[], token?: vscode.CancellationToken): Promise<DocSearchResult> {
+        const items = candidates.map(result => ({
+            label: result.title,
+            description: result.type,
+            detail: result.url,
+            result,
+        }));
+        const picked = await vscode.window.showQuickPick(items, {
+            title: `DocMate: "${keyword}" に当てはまるページが複数あります`,
+            placeHolder: '解説するページを選択してください',
+            matchOnDescription: true,
+            matchOnDetail: true,
+        }, token);
+        if (!picked) {
+            throw createAbortError();
+        }
+        return picked.result;
+    }
+
+    /**
+     * キーワードのドキュメントを検索・要約し、サンプルコードを実行して結果パネルに表示する。
+     * 検索が済んだ時点でパネルをスケルトン表示で開き、要約は届いた分から、サンプルはパースできたものから順に
+     * 実行して埋めていく（キャッシュがあればそのまま表示する）。
+     * token がキャンセルされた場合、要約前なら AbortError を投げる（開いたパネルは閉じる）。
+     * 要約後（サンプル実行中）なら、それまでの結果を partial: true で返す（キャッシュはしない）。
+     * 検索結果の上位が僅差なら、LLM を呼ぶ前に QuickPick で選んでもらう（閉じた場合はキャンセル扱い）。
+     */
     async explain(
         keyword: string,
         language: string,
-        progress: vscode.Progress<{ message?: string; increment?: number }>
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        token?: vscode.CancellationToken,
+        searchContext: SearchContext = {}
+    ): Promise<{
+        summary: string;
+        examples: ExplainedExample[];
+        url: string;
+        partial?: boolean;
+    }> {
+        return withAbortSignal(token, signal => this.explainWithSignal(keyword, language, progress, token, signal, searchContext));
+    }
+
+    private async explainWithSignal(
+        keyword: string,
+        language: string,
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        token: vscode.CancellationToken | undefined,
+        signal: AbortSignal | undefined,
+        searchContext: SearchContext
     ): Promise<{
         summary: string;
-        examples: { title: string; description: string; code: string; executionOutput: string }[];
+        examples: ExplainedExample[];
         url: string;
+        partial?: boolean;
     }> {
+
         // 1. Search
         progress.report({ message: `Searching documentation for "${keyword}"...` });
-        const searchResult = await this.docService.search(keyword, language);
-        if (!searchResult) {
+        const candidates = await this.docService.searchCandidates(keyword, language, searchContext, signal);
+        if (candidates.length === 0) {
             throw new Error(`No documentation found for "${keyword}"`);
         }
+        let searchResult = candidates[0];
+        if (isAmbiguous(candidates.map(c => ({ score: c.score ?? 0 })))) {
+            progress.report({ message: `候補から解説するページを選んでください...` });
+            searchResult = await this.pickSearchResult(keyword, candidates, token);
+        }
 
-        // 2. キャッシュ確認 ─ 同じ URL のドキュメントが保存済みなら即返す
+        // 2. キャッシュ確認 ─ 同じ URL のドキュメントが保存済みなら即表示する
         const cached = this.cacheService.find(searchResult.url);
         if (cached) {
             progress.report({ message: `キャッシュから読み込み中...` });
             console.log(`DocMateController: キャッシュヒット → ${searchResult.url}`);
-            return {
+            const result = {
                 summary: cached.summary,
                 examples: cached.examples,
                 url: cached.url,
             };
+            this.openResultPanel(keyword, result, language);
+            return result;
         }
 
-        // 3. Fetch Content
-        progress.report({ message: `Fetching documentation...` });
-        const fetchUrl = searchResult.htmlUrl || searchResult.url;
-        const markdown = await this.docService.fetchContent(fetchUrl);
+        // ここからは LLM の応答を待つ間もパネルに途中経過を表示する
+        const { panel, view } = this.createResultPanel(keyword);
+        view.showSkeleton(searchResult.url, language);
+
+        let summarized = false;
+        // サンプルの実行だけを止めるための signal（要約が失敗したときに、実行待ち・実行中のサンプルを中断する）
+        const executionAbort = new AbortController();
+        const abortExecution = () => executionAbort.abort(signal?.reason);
+        signal?.addEventListener('abort', abortExecution, { once: true });
+        try {
+            // 3. Fetch Content
+            progress.report({ message: `Fetching documentation...` });
+            // JSDoc・pydoc・man などのローカルのソースは本文を読み取り済み
+            const fetchUrl = searchResult.htmlUrl || searchResult.url;
+            const markdown = searchResult.content ?? await this.docService.fetchContent(fetchUrl, signal);
+            throwIfAborted(signal);
+
+            // 4. Summarize & Generate Code（ストリーミング）
+            // 5. Execution & Self-healing（失敗したら fixCode で修正して再実行）
+            // サンプルは届いた順に1つずつ実行する。キャンセル後は残りのサンプルを実行せずにそのまま並べる
+            // index は応答の examples 配列での位置なので、届く順番が前後しても同じ位置に結果を入れる
+            progress.report({ message: `Summarizing and generating code with Gemini...` });
+            const examplesWithOutput: ExplainedExample[] = [];
+            let execution: Promise<void> = Promise.resolve();
+            let executionError: unknown;
+            const geminiResponse = await this.geminiService.summarizeStream(markdown, language, {
+                onSummary: (summary) => view.updateSummary(summary),
+                onExample: (example, i) => {
+                    view.showPendingExample(example, i);
+                    execution = execution.then(async () => {
+                        if (executionAbort.signal.aborted || executionError) {
+                            examplesWithOutput[i] = { ...example, executionOutput: '' };
+                        } else {
+                            progress.report({ message: `Executing sample codes... (${i + 1})` });
+                            try {
+                                examplesWithOutput[i] = await this.executeWithSelfHealing(example, language, progress, executionAbort.signal);
+                            } catch (e) {
+                                executionError = e;
+                                return;
+                            }
+                        }
+                        view.showExample(examplesWithOutput[i], i);
+                    });
+                },
+            }, signal).catch(async (e) => {
+                // 要約が失敗したら、待ち行列に残っているサンプルは実行せず、実行中のものも中断して終わるのを待つ
+                executionError ??= e;
+                executionAbort.abort();
+                await execution.catch(() => undefined);
+                throw e;
+            });
+            summarized = true;
+            await execution;
+            if (executionError) {
+                throw executionError;
+            }
+            view.finish();
 
-        // 4. Summarize & Generate Code
-        progress.report({ message: `Summarizing and generating code with Gemini...` });
-        const geminiResponse = await this.geminiService.summarize(markdown, language);
+            const result = {
+                summary: geminiResponse.summary,
+                examples: examplesWithOutput.filter(example => example !== undefined),
+                url: searchResult.url,
+            };
+
+            // 途中でキャンセルされた結果は不完全なのでキャッシュしない
+            if (signal?.aborted) {
+                return { ...result, partial: true };
+            }
+
+            // 6. キャッシュ保存（キーワードと言語は履歴ビューの表示に使う）
+            this.cacheService.save({ ...result, keyword, language });
 
-        // 5. Initial Execution (Best Effort)
-        progress.report({ message: `Executing sample codes...` });
+            return result;
+        } catch (e) {
+            if (isAbortError(e) && !summarized) {
+                panel.dispose();
+            } else {
+                view.showError(e instanceof Error ? e.message : String(e));
+            }
+            throw e;
+        } finally {
+            signal?.removeEventListener('abort', abortExecution);
+        }
+    }
 
-        const examplesWithOutput = [];
-        for (const example of geminiResponse.examples) {
-            const executionResult = await this.executionService.execute(example.code);
-            examplesWithOutput.push({
+    /**
+     * サンプルコードを実行し、失敗した場合は stderr を GeminiService.fixCode に渡して
+     * 修正 → 再実行を maxRetries 回まで繰り返す。
+     * 全試行の履歴を attempts に残し、最後まで失敗した場合は元のコードを unverified として返す。
+     * signal が中断された場合は、その時点までの attempts を付けて未検証（verified なし）のまま返す。
+     */
+    private async executeWithSelfHealing(
+        example: Example,
+        language: string,
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        signal?: AbortSignal
+    ): Promise<ExplainedExample> {
+        // iframe 系は Webview 内で描画するため、ここでは実行しない
+        if (!this.executionService.isTerminalLanguage(language)) {
+            return { ...example, executionOutput: '', attempts: [] };
+        }
+        // コマンドが無い環境で実行・修正を繰り返しても無駄なので、実行せずに未検証のまま返す
+        const missing = this.executionService.getMissingTools(language);
+        if (missing.length > 0) {
+            return {
                 ...example,
-                executionOutput: executionResult.success
-                    ? executionResult.output
-                    : `Execution failed: ${executionResult.error}`
-            });
+                executionOutput: `${missing.join(', ')} が見つからないため実行していません（「DocMate: Check Execution Environment」で確認できます）`,
+                attempts: [],
+            };
+        }
+
+        const maxRetries = vscode.workspace.getConfiguration('docmate').get<number>('maxFixRetries', this.maxRetries);
+        const attempts: ExampleAttempt[] = [];
+        let code = example.code;
+
+        for (let retry = 0; ; retry++) {
+            let result;
+            try {
+                result = await this.executionService.execute(code, { lang: language, signal });
+            } catch (e) {
+                if (isAbortError(e)) {
+                    return { ...example, executionOutput: '', attempts };
+                }
+                throw e;
+            }
+            attempts.push({ code, success: result.success, output: result.output, error: result.error });
+
+            if (result.success) {
+                return { ...example, code, executionOutput: result.output, attempts, verified: true };
+            }
+            if (retry >= maxRetries) {
+                break;
+            }
+
+            progress.report({ message: `Fixing "${example.title}" (${retry + 1}/${maxRetries})...` });
+            try {
+                const fixed = await this.geminiService.fixCode(code, result.error ?? result.output, language, signal);
+                // 修正コードが得られない・変化しない場合はこれ以上試しても無駄なので打ち切る
+                if (!fixed.code || fixed.code === code) {
+                    break;
+                }
+                code = fixed.code;
+            } catch (e) {
+                if (isAbortError(e)) {
+                    return { ...example, executionOutput: '', attempts };
+                }
+                console.warn(`DocMateController: fixCode に失敗しました (${example.title})`, e);
+                break;
+            }
         }
 
-        const result = {
-            summary: geminiResponse.summary,
-            examples: examplesWithOutput,
-            url: searchResult.url,
+        const lastError = attempts[attempts.length - 1].error;
+        return {
+            ...example,
+            executionOutput: `Execution failed: ${lastError}`,
+            attempts,
+            verified: false,
         };
+    }
+
+    /**
+     * 解説済みの結果（キャッシュ・履歴）を新しい Webview パネルに表示する。
+     */
+    openResultPanel(
+        keyword: string,
+        result: { summary: string; examples: ExplainedExample[]; url: string },
+        language: string
+    ): vscode.WebviewPanel {
+        const { panel, view } = this.createResultPanel(keyword);
+        view.update(result.summary, result.examples, result.url, language);
+        return panel;
+    }
 
-        // 6. キャッシュ保存
-        this.cacheService.save(result);
+    /**
+     * 結果表示用の Webview パネルを開き、サンドボックスのハンドラを登録する。
+     */
+    private createResultPanel(keyword: string): { panel: vscode.WebviewPanel; view: DocMateWebviewProvider } {
+        const panel = vscode.window.createWebviewPanel(
+            DocMateWebviewProvider.viewType,
+            `DocMate: ${keyword}`,
+            vscode.ViewColumn.Beside,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
 
-        return result;
+        const view = new DocMateWebviewProvider(
+            panel, this.context.extensionUri, this.context,
+            this.langConfigService.get(), this.executionService.getUnavailableLanguages()
+        );
+
+        // コード実行・停止・標準入力のメッセージを処理
+        this.attachSandboxHandlers(panel);
+        return { panel, view };
+    }
+
+    /**
+     * 履歴ビューから選ばれたエントリを、キャッシュだけを使って開き直す（ネットワークアクセスなし）。
+     */
+    openHistoryEntry(url: string): void {
+        const entry = this.cacheService.find(url);
+        if (!entry) {
+            throw new Error('履歴が見つかりません。キャッシュが削除された可能性があります。');
+        }
+        this.openResultPanel(entry.keyword || url, entry, entry.language || '');
     }
 
     /**
@@ -100,6 +394,7 @@ export class DocMateController {
      * - language:    sandbox の言語セレクト値
      * - execCommand: sandbox の execCommand textarea の値
      * - panel:       ストリーム結果を Webview へ送るためのパネル
+     * - runId:       Webview が発行した実行 ID（Stop / stdin の宛先、ストリームの振り分けに使う）
      */
     async runCode(
         code: string,
@@ -107,43 +402,163 @@ export class DocMateController {
             language?: string;
             execCommand?: string;
             panel?: vscode.WebviewPanel;
+            runId?: string;
         }
     ): Promise<string> {
         const result = await this.executionService.execute(code, {
             lang: opts?.language ?? 'javascript',
             userExecCommand: opts?.execCommand ?? '',
             panel: opts?.panel,
+            runId: opts?.runId,
         });
         return result.success ? result.output : `Execution failed: ${result.error}`;
     }
 
+    /**
+     * sandbox_init.js からのメッセージ（run / stop / stdin）を処理するハンドラをパネルに登録する。
+     * パネルが閉じられたら、そのパネルから起動した実行中のプロセスを全て停止する。
+     */
+    attachSandboxHandlers(panel: vscode.WebviewPanel): void {
+        const runIds = new Set<string>();
+
+        panel.webview.onDidReceiveMessage(async (message) => {
+            switch (message.command) {
+                case 'run': {
+                    // sandbox_init.js が送る payload:
+                    //   { command, runId, language, code, execCommand, index }
+                    // ストリーム結果は runCommand 内で runId 付きで panel へ直接送信される
+                    const runId: string | undefined = message.runId;
+                    if (runId) {
+                        runIds.add(runId);
+                    }
+                    try {
+                        await this.runCode(message.code, {
+                            language: message.language,
+                            execCommand: message.execCommand,
+                            panel,
+                            runId,
+                        });
+                    } finally {
+                        if (runId) {
+                            runIds.delete(runId);
+                        }
+                    }
+                    break;
+                }
+                case 'stop':
+                    this.executionService.stop(message.runId);
+                    break;
+                case 'stdin':
+                    this.executionService.sendInput(message.runId, message.data ?? '', message.eof === true);
+                    break;
+            }
+        }, undefined, this.context.subscriptions);
+
+        panel.onDidDispose(() => {
+            for (const runId of runIds) {
+                this.executionService.stop(runId);
+            }
+            runIds.clear();
+        }, undefined, this.context.subscriptions);
+    }
+
     /**
      * プロジェクトドキュメントを生成する
-     * 生成済みならスキップし、未生成なら Gemini API で生成
-     * 生成後は新規タブで index.html を表示する
+     * 前回生成時から内容が変わったファイルだけを Gemini API で再生成し（増分生成）、
+     * force が true の場合は全ファイルを作り直す
+     * 生成後は新規タブで index.html を表示し、失敗したファイルがあれば実行レポートも表示する
+     * target に ALL_WORKSPACE_FOLDERS を指定すると、すべてのフォルダを生成してフォルダ横断の目次を表示する
+     * token がキャンセルされた場合は、それまでに生成できたページを保存したうえで AbortError を投げる
      */
-    async generateProjectDocument(): Promise<void> {
-        const outputDir = this.generateProjectDocumentService.getOutputDir();
-        const indexPath = path.join(outputDir, 'index.html');
-
-        // 生成済みチェック
-        if (fs.existsSync(indexPath)) {
-            console.log('DocMate: ドキュメントは生成済みです。表示に進みます。');
-        } else {
-            // 未生成なら Gemini API で生成
-            await this.generateProjectDocumentService.processProject();
-        }
+    async generateProjectDocument(
+        target: vscode.WorkspaceFolder | typeof ALL_WORKSPACE_FOLDERS,
+        force: boolean = false,
+        token?: vscode.CancellationToken
+    ): Promise<GenerationReport[]> {
+        this.warnIfUntrusted();
+        const reports = await withAbortSignal(token, async signal => target === ALL_WORKSPACE_FOLDERS
+            ? this.generateProjectDocumentService.processWorkspace({ force, signal })
+            : [await this.generateProjectDocumentService.processProject(target, { force, signal })]);
 
         // 新規タブで index.html を表示
-        await this.openGeneratedDoc();
+        await this.openGeneratedDoc(target === ALL_WORKSPACE_FOLDERS ? undefined : target);
+        // 失敗したファイルがある最初のフォルダのレポートを表示する
+        const folders = target === ALL_WORKSPACE_FOLDERS ? vscode.workspace.workspaceFolders ?? [] : [target];
+        const failedFolder = folders.find(folder => {
+            const report = readReport(this.generateProjectDocumentService.getOutputDir(folder));
+            return report !== null && countByStatus(report).failed > 0;
+        });
+        if (failedFolder) {
+            this.showGenerationReport(failedFolder);
+        }
+        return reports;
+    }
+
+    /**
+     * 前回の実行レポートで失敗（または中断）したファイルだけを再生成する。
+     * 対象が無い場合は何もせずに null を返す。
+     */
+    async retryFailedProjectDocFiles(folder: vscode.WorkspaceFolder, token?: vscode.CancellationToken): Promise<GenerationReport | null> {
+        const previous = readReport(this.generateProjectDocumentService.getOutputDir(folder));
+        const targets = previous ? getRetryTargets(previous) : [];
+        if (targets.length === 0) {
+            return null;
+        }
+        this.warnIfUntrusted();
+        const report = await withAbortSignal(token, signal => this.generateProjectDocumentService.processProject(folder, { only: targets, signal }));
+        this.showGenerationReport(folder);
+        return report;
+    }
+
+    /**
+     * 信頼されていないワークスペースでは、プロジェクトドキュメントのサンプルを実行しない（実行結果は未検証のまま載せる）ことを知らせる。
+     */
+    private warnIfUntrusted(): void {
+        if (!vscode.workspace.isTrusted) {
+            vscode.window.showWarningMessage('DocMate: 信頼されていないワークスペースのため、サンプルコードは実行せずに未検証として載せます。');
+        }
+    }
+
+    /**
+     * 直近の実行レポートを Webview で表示する。
+     * 失敗したファイルがあれば「再生成」ボタンを表示し、押されたらそのフォルダで docmate.retryFailedProjectDocFiles を実行する。
+     * folder が無い（ワークスペースが開かれていない）場合もレポートが見つからない扱いにする。
+     */
+    showGenerationReport(folder: vscode.WorkspaceFolder | undefined): void {
+        const report = folder ? readReport(this.generateProjectDocumentService.getOutputDir(folder)) : null;
+        if (!folder || !report) {
+            throw new Error('生成レポートが見つかりません。先にプロジェクトドキュメントを生成してください。');
+        }
+        this.reportFolder = folder;
+
+        // 既に開いている場合は内容を差し替える
+        if (!this.reportPanel) {
+            this.reportPanel = vscode.window.createWebviewPanel(
+                'docmateGenerationReport',
+                'DocMate: 生成レポート',
+                vscode.ViewColumn.Beside,
+                { enableScripts: true }
+            );
+            this.reportPanel.onDidDispose(() => { this.reportPanel = undefined; }, undefined, this.context.subscriptions);
+            this.reportPanel.webview.onDidReceiveMessage((message) => {
+                if (message.command === 'retryFailed') {
+                    vscode.commands.executeCommand('docmate.retryFailedProjectDocFiles', this.reportFolder?.uri);
+                }
+            }, undefined, this.context.subscriptions);
+        }
+        this.reportPanel.webview.html = renderReportHtml(report, { interactive: true });
+        this.reportPanel.reveal(undefined, true);
     }
 
     /**
      * 生成済みドキュメントの index.html を Webview パネルでブラウザ形式で表示する
+     * folder を指定するとそのフォルダの目次から、省略するとサイトのルート（マルチルートではフォルダ横断の目次）から表示する
      */
-    async openGeneratedDoc(): Promise<void> {
-        const outputDir = this.generateProjectDocumentService.getOutputDir();
-        const indexPath = path.join(outputDir, 'index.html');
+    async openGeneratedDoc(folder?: vscode.WorkspaceFolder): Promise<void> {
+        // リンクはフォルダをまたぐので、サイトのルートを基準に解決する
+        const outputDir = this.generateProjectDocumentService.getSiteDir();
+        const startDir = folder ? this.generateProjectDocumentService.getOutputDir(folder) : outputDir;
+        const indexPath = path.join(startDir, 'index.html');
 
         if (!fs.existsSync(indexPath)) {
             throw new Error('ドキュメントが見つかりません。');
@@ -172,6 +587,7 @@ export class DocMateController {
             vscode.postMessage({
                 command: 'explain',
                 keyword: explainLink.dataset.keyword,
+                language: explainLink.dataset.language || '',
                 summary: explainLink.dataset.summary || '',
                 examples: explainLink.dataset.examples || '[]'
             });
@@ -196,7 +612,7 @@ export class DocMateController {
         };
 
         // 現在表示中のパス（相対パス解決用）
-        let currentDir = '';
+        let currentDir = path.relative(outputDir, startDir);
 
         // 初期ページを表示
         panel.webview.html = injectScript(fs.readFileSync(indexPath, 'utf-8'));
@@ -226,37 +642,18 @@ export class DocMateController {
                 }
 
                 // 新しい Webview パネルで結果を表示
-                const explainPanel = vscode.window.createWebviewPanel(
-                    DocMateWebviewProvider.viewType,
-                    `DocMate: ${keyword}`,
-                    vscode.ViewColumn.Beside,
-                    {
-                        enableScripts: true,
-                        retainContextWhenHidden: true
-                    }
-                );
-                const webviewProvider = new DocMateWebviewProvider(explainPanel, this.context.extensionUri, this.context);
-                webviewProvider.update(summary, examples, '', keyword);
-
-                // コード実行メッセージを処理
-                explainPanel.webview.onDidReceiveMessage(async (msg) => {
-                    if (msg.command === 'run') {
-                        await this.runCode(msg.code, {
-                            language: msg.language,
-                            execCommand: msg.execCommand,
-                            panel: explainPanel,
-                        });
-                    }
-                });
+                // 旧バージョンで生成したページには data-language が無い（サンドボックスは既定の言語で開く）
+                this.openResultPanel(keyword, { summary, examples, url: '' }, message.language || '');
             }
         });
     }
 
     /**
      * 生成済みドキュメントをユーザーが選択したフォルダにコピー（ダウンロード）する
+     * マルチルートワークスペースでは、フォルダ横断の目次を含むサイト全体をコピーする
      */
     async downloadProjectDocument(): Promise<void> {
-        const sourceDir = this.generateProjectDocumentService.getOutputDir();
+        const sourceDir = this.generateProjectDocumentService.getSiteDir();
 
         // ドキュメントが未生成なら自動生成にフォールバック
         if (!fs.existsSync(sourceDir) || fs.readdirSync(sourceDir).length === 0) {
@@ -268,13 +665,12 @@ export class DocMateController {
                 return;
             }
             // 生成フローを実行（生成 → HTML表示）
+            this.warnIfUntrusted();
             await vscode.window.withProgress({
                 location: vscode.ProgressLocation.Notification,
                 title: 'DocMate: プロジェクトドキュメント生成中...',
-                cancellable: false
-            }, async () => {
-                await this.generateProjectDocumentService.processProject();
-            });
+                cancellable: true
+            }, (_progress, token) => withAbortSignal(token, signal => this.generateProjectDocumentService.processWorkspace({ signal })));
             // 生成後 HTML を表示
             await this.openGeneratedDoc();
         }
@@ -1,18 +1,35 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GeminiService } from '../services/geminiService';
+import { withAbortSignal } from '../services/cancellation';
+import { IgnoreMatcher } from '../services/ignoreMatcher';
+import { buildDependencyGraph, focusOn, toLlmContext, toMermaid, DependencyGraph } from '../services/dependencyGraphService';
+import { batchFiles, collapseSummaries, DEFAULT_TOKEN_BUDGET, FileBatch, SourceFile } from '../services/chunkService';
+
+/** これより大きいファイルは生成物とみなして読まない */
+const MAX_FILE_BYTES = 1024 * 1024;
 
 export class FileExplainController {
-    public async explainFile(targetUri: vscode.Uri, progress: vscode.Progress<{ message?: string; increment?: number }>) {
-        const config = vscode.workspace.getConfiguration('docmate');
-        const apiKey = config.get<string>('apiKey');
-        const modelName = config.get<string>('model') || 'gemini-2.5-flash';
+    private geminiService: GeminiService;
 
-        if (!apiKey) {
-            throw new Error('Gemini API Keyが設定されていません。VS Codeの設定から docmate.apiKey を入力してください。');
-        }
+    constructor(geminiService: GeminiService) {
+        this.geminiService = geminiService;
+    }
 
+    public async explainFile(
+        targetUri: vscode.Uri,
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        token?: vscode.CancellationToken
+    ) {
+        return withAbortSignal(token, signal => this.explainTarget(targetUri, progress, signal));
+    }
+
+    private async explainTarget(
+        targetUri: vscode.Uri,
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        signal: AbortSignal | undefined
+    ) {
         const targetPath = targetUri.fsPath;
 
         if (!fs.existsSync(targetPath)) {
@@ -23,40 +40,132 @@ export class FileExplainController {
         const isDirectory = stat.isDirectory();
         const targetName = path.basename(targetPath);
 
-        const genAI = new GoogleGenerativeAI(apiKey);
-        const model = genAI.getGenerativeModel({ model: modelName });
-
+        const budget = vscode.workspace.getConfiguration('docmate').get<number>('tokenBudget', DEFAULT_TOKEN_BUDGET);
         let prompt = '';
+        let graph: DependencyGraph | undefined;
 
         if (isDirectory) {
             progress.report({ message: 'フォルダ内の構造を読み取り中...' });
-            const allFilesData = this.readDirectory(targetPath);
+            const files = this.readDirectory(targetPath);
 
-            if (!allFilesData.trim()) {
+            if (files.length === 0) {
                 throw new Error('フォルダの中に読み取れるテキストファイルがありませんでした。');
             }
 
-            // ★変更点：依存関係を削り、「役割」と「全体像」にフォーカスしたプロンプト
+            progress.report({ message: 'import を解析して依存グラフを作成中...' });
+            graph = buildDependencyGraph(targetPath, this.createMatcher(targetUri, targetPath));
+
+            // 上限に収まればコードをそのまま、収まらなければ分割して要約したものを渡す
+            const batches = batchFiles(files, budget);
+            const codeSection = batches.length === 1
+                ? `【フォルダ内のコード】\n${this.formatBatch(batches[0])}`
+                : `【ファイルごとの要約】（フォルダが大きいため、コードを分割して要約したものです）\n${(await this.summarizeBatches(batches, targetName, budget, progress, signal)).join('\n\n')}`;
+
             prompt = `あなたは優秀なソフトウェアアーキテクトです。以下のフォルダ「${targetName}」内のコードを読み込み、プログラミング初心者にもわかりやすく日本語で解説してください。
 1. **このフォルダの目的**: プロジェクト全体において、このフォルダがどのような役割（UI層、データ処理、ユーティリティなど）を担っているか。
 2. **主要ファイルの役割**: フォルダ内にある各ファイルが、それぞれどんな処理を行っているか簡潔に。
+3. **依存関係**: 下の依存グラフ（import を静的解析した結果）をもとに、エントリーポイントから処理がどう流れるか、循環依存があればその問題点を説明してください。グラフにない依存関係を推測で書かないでください。
+
+【依存グラフ（JSON）】
+${toLlmContext(graph)}
 
-【フォルダ内のコード】
-${allFilesData}`;
+${codeSection}`;
         } else {
             progress.report({ message: 'ファイルを読み取り中...' });
             const fileContent = fs.readFileSync(targetPath, 'utf8');
-            const safeContent = fileContent.length > 5000 ? fileContent.substring(0, 5000) + '\n...（以降省略）' : fileContent;
-            prompt = `あなたは優秀なエンジニアです。以下のファイル「${targetName}」のコードを読み込み、このファイルがプロジェクト全体でどのような役割を持っているか、中で何をしているかを、プログラミング初心者にもわかりやすく日本語で簡潔に解説してください。\n\n【コード】\n\`\`\`\n${safeContent}\n\`\`\``;
+
+            // ワークスペース全体を解析し、このファイルの直接の依存先・依存元だけを取り出す
+            progress.report({ message: 'import を解析して依存関係を調べています...' });
+            const rootDir = vscode.workspace.getWorkspaceFolder(targetUri)?.uri.fsPath ?? path.dirname(targetPath);
+            const moduleName = path.relative(rootDir, targetPath).split(path.sep).join('/');
+            const fullGraph = buildDependencyGraph(rootDir, this.createMatcher(targetUri, rootDir));
+            if (fullGraph.modules.includes(moduleName)) {
+                graph = focusOn(fullGraph, moduleName);
+            }
+
+            const batches = batchFiles([{ name: targetName, content: fileContent }], budget);
+            const codeSection = batches.length === 1
+                ? `【コード】\n\`\`\`\n${fileContent}\n\`\`\``
+                : `【コードの要約】（ファイルが大きいため、宣言ごとに分割して要約したものです）\n${(await this.summarizeBatches(batches, targetName, budget, progress, signal)).join('\n\n')}`;
+
+            prompt = `あなたは優秀なエンジニアです。以下のファイル「${targetName}」のコードを読み込み、このファイルがプロジェクト全体でどのような役割を持っているか、中で何をしているかを、プログラミング初心者にもわかりやすく日本語で簡潔に解説してください。`;
+            if (graph) {
+                prompt += `\n依存グラフ（import を静的解析した結果）も参考に、どのファイルに依存し、どのファイルから使われているかにも触れてください。\n\n【依存グラフ（JSON）】\n${toLlmContext(graph)}`;
+            }
+            prompt += `\n\n${codeSection}`;
         }
 
         progress.report({ message: 'AIが構造を分析中...' });
-        const result = await model.generateContent(prompt);
-        return result.response.text();
+        const explanation = await this.geminiService.generate(prompt, signal);
+        return graph ? `${explanation}\n\n${this.renderGraph(graph)}` : explanation;
+    }
+
+    /**
+     * 上限を超えるコードの map-reduce 要約。
+     * バッチごとに要約し（map）、要約の合計が上限を超える間はまとめて要約し直す（reduce）。
+     */
+    private async summarizeBatches(
+        batches: FileBatch[],
+        targetName: string,
+        budget: number,
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        signal?: AbortSignal
+    ): Promise<string[]> {
+        const summaries: string[] = [];
+        for (const [index, batch] of batches.entries()) {
+            progress.report({ message: `コードを分割して要約中... (${index + 1}/${batches.length})` });
+            const prompt = `あなたは優秀なエンジニアです。以下は「${targetName}」のコードの一部（${index + 1}/${batches.length}）です。後で全体を解説するための材料として、含まれる各ファイル・クラス・関数が何をしているかを日本語の箇条書きで要約してください。ファイル名・クラス名・関数名は省略せずに書いてください。\n\n${this.formatBatch(batch)}`;
+            summaries.push(await this.geminiService.generate(prompt, signal));
+        }
+
+        progress.report({ message: '要約を統合中...' });
+        return collapseSummaries(summaries, budget, group => this.geminiService.generate(
+            `以下は「${targetName}」のコードを分割して要約したものです。重複をまとめ、ファイル名・クラス名・関数名を残したまま、1つの箇条書きの要約に統合してください。\n\n${group.join('\n\n---\n\n')}`,
+            signal
+        ));
+    }
+
+    private formatBatch(batch: FileBatch): string {
+        return batch.files.map(file => {
+            const part = file.part ? `（パート ${file.part.index}/${file.part.total}、${file.part.startLine}〜${file.part.endLine}行目）` : '';
+            return `--- ファイル: ${file.name}${part} ---\n\`\`\`\n${file.content}\n\`\`\``;
+        }).join('\n\n');
+    }
+
+    /** 構造ビューと同じく、.gitignore と files.exclude に一致するファイルは解析しない */
+    private createMatcher(targetUri: vscode.Uri, rootDir: string): IgnoreMatcher {
+        const config = vscode.workspace.getConfiguration(undefined, targetUri);
+        return new IgnoreMatcher(
+            rootDir,
+            IgnoreMatcher.enabledGlobs(config.get<Record<string, unknown>>('files.exclude')),
+            config.get<boolean>('docmate.structure.useGitignore', true)
+        );
+    }
+
+    /** 依存グラフを Mermaid 図とエントリーポイント・末端・循環依存の一覧にする */
+    private renderGraph(graph: DependencyGraph): string {
+        const list = (items: string[]) => items.length > 0 ? items.map(m => `- \`${m}\``).join('\n') : '- なし';
+        let md = `## 依存関係グラフ\n\n`;
+        if (graph.modules.length === 0) {
+            return md + '解析できる TS/JS・Python ファイルがありませんでした。\n';
+        }
+        md += `\`\`\`mermaid\n${toMermaid(graph)}\`\`\`\n\n`;
+        if (graph.truncated) {
+            md += `> ファイル数が多いため、一部のファイルだけを解析しました。\n\n`;
+        }
+        md += `### エントリーポイント\n\n${list(graph.entryPoints)}\n\n`;
+        md += `### 末端モジュール\n\n${list(graph.leaves)}\n\n`;
+        md += `### 循環依存\n\n${graph.cycles.length > 0 ? graph.cycles.map(c => `- ${c.map(m => `\`${m}\``).join(' ⇄ ')}`).join('\n') : '- なし'}\n`;
+
+        const externals = Array.from(new Set(Object.values(graph.external).flat())).sort();
+        if (externals.length > 0) {
+            md += `\n### 外部パッケージ\n\n${externals.map(e => `\`${e}\``).join(', ')}\n`;
+        }
+        return md;
     }
 
-    private readDirectory(dirPath: string, basePath: string = ''): string {
-        let result = '';
+    private readDirectory(dirPath: string, basePath: string = ''): SourceFile[] {
+        const result: SourceFile[] = [];
         try {
             const items = fs.readdirSync(dirPath);
             for (const item of items) {
@@ -67,13 +176,11 @@ ${allFilesData}`;
                 const stat = fs.statSync(fullPath);
 
                 if (stat.isDirectory()) {
-                    result += this.readDirectory(fullPath, relPath);
-                } else if (stat.isFile()) {
+                    result.push(...this.readDirectory(fullPath, relPath));
+                } else if (stat.isFile() && stat.size <= MAX_FILE_BYTES) {
                     if (!item.match(/\.(jpg|jpeg|png|gif|ico|svg|mp4|mp3|zip|pdf|exe|dll|ttf|woff)$/i)) {
                         try {
-                            const content = fs.readFileSync(fullPath, 'utf8');
-                            const safeContent = content.length > 2000 ? content.substring(0, 2000) + '\n...（省略）' : content;
-                            result += `\n\n--- ファイル: ${relPath} ---\n\`\`\`\n${safeContent}\n\`\`\``;
+                            result.push({ name: relPath, content: fs.readFileSync(fullPath, 'utf8') });
                         } catch (e) { }
                     }
                 }
@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { OfflineDocStore, isValidDocsetSlug } from '../services/offlineDocStore';
+import { getOfflineDocsets } from '../services/docService';
+import { isAbortError, withAbortSignal } from '../services/cancellation';
+
+interface DocsetPickItem extends vscode.QuickPickItem {
+    slug: string;
+}
+
+/**
+ * 「DocMate: Download Offline Docs」「DocMate: Import Offline Docs」コマンド。
+ * DevDocs の docset を拡張機能のストレージに保存し、DocService がネットワークなしで引けるようにする。
+ */
+export class OfflineDocsController {
+    constructor(private readonly store: OfflineDocStore) { }
+
+    /** docset を選んでダウンロードする（保存済みのものは選び直すと更新、外すと削除） */
+    public async download(): Promise<void> {
+        const installed = new Map(this.store.list().map(info => [info.slug, info]));
+        const items: DocsetPickItem[] = getOfflineDocsets().map(({ slug, languages }) => {
+            const info = installed.get(slug);
+            return {
+                slug,
+                label: slug,
+                description: languages.join(', '),
+                detail: info ? `保存済み: ${info.entries} 件 / ${this.formatBytes(info.bytes)}（${new Date(info.updatedAt).toLocaleString()}）` : undefined,
+                picked: !!info,
+            };
+        });
+
+        const selected = await vscode.window.showQuickPick(items, {
+            canPickMany: true,
+            title: 'DocMate: オフラインで使う docset を選択',
+            placeHolder: 'チェックした docset をダウンロード（保存済みは更新）します。チェックを外した保存済みの docset は削除します',
+        });
+        if (!selected) {
+            return;
+        }
+
+        const removed = [...installed.keys()].filter(slug => !selected.some(item => item.slug === slug));
+        for (const slug of removed) {
+            this.store.remove(slug);
+        }
+
+        const failed: string[] = [];
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'DocMate: オフラインドキュメントをダウンロード中...',
+            cancellable: true
+        }, (progress, token) => withAbortSignal(token, async signal => {
+            for (const [index, item] of selected.entries()) {
+                progress.report({ message: `${item.slug} (${index + 1}/${selected.length})`, increment: 100 / selected.length });
+                try {
+                    await this.store.download(item.slug, signal);
+                } catch (error) {
+                    if (isAbortError(error)) {
+                        throw error;
+                    }
+                    console.error(`[OfflineDocs] ${item.slug} のダウンロードに失敗しました:`, error);
+                    failed.push(item.slug);
+                }
+            }
+        }));
+
+        if (failed.length > 0) {
+            vscode.window.showWarningMessage(`DocMate: ${failed.join(', ')} のダウンロードに失敗しました。`);
+        } else {
+            vscode.window.showInformationMessage(`DocMate: ${selected.length} 件の docset を保存しました${removed.length > 0 ? `（${removed.length} 件削除）` : ''}。`);
+        }
+    }
+
+    /** DevDocs 形式のフォルダ（index.json + db.json）を取り込む。ネットワークの無いマシン向け */
+    public async import(): Promise<void> {
+        const folders = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            openLabel: 'Import',
+            title: 'index.json と db.json を含む DevDocs の docset フォルダを選択',
+        });
+        if (!folders || folders.length === 0) {
+            return;
+        }
+
+        const sourceDir = folders[0].fsPath;
+        const slug = await vscode.window.showInputBox({
+            title: 'docset の slug',
+            prompt: 'DevDocs の slug（例: python~3.14, javascript）。DocMate はこの名前で docset を探します',
+            value: path.basename(sourceDir),
+            validateInput: value => isValidDocsetSlug(value) ? undefined : '英数字と . ~ - _ のみ使えます（. だけの名前は使えません）',
+        });
+        if (!slug) {
+            return;
+        }
+
+        const info = this.store.importFrom(slug, sourceDir);
+        vscode.window.showInformationMessage(`DocMate: ${slug} を取り込みました（${info.entries} 件）。`);
+    }
+
+    private formatBytes(bytes: number): string {
+        if (bytes < 1024 * 1024) {
+            return `${(bytes / 1024).toFixed(1)} KB`;
+        }
+        return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    }
+}
@@ -1,52 +1,100 @@
 import * as vscode from 'vscode';
-import * as fs from 'fs';
-import * as path from 'path';
+import { IgnoreMatcher } from '../services/ignoreMatcher';
+import { scanProject, toAsciiTree, toMermaid, LineCountCache, StructureNode } from '../services/projectStructureService';
 
 export class StructureController {
-    public async visualize() {
+    /** 直近の走査（ツリービューと書き出しで共有し、refresh まで使い回す） */
+    private cached: Promise<StructureNode | null> | null = null;
+    /** フォルダごとの行数のキャッシュ（再走査で変更の無いファイルを読み直さない） */
+    private readonly lineCounts = new Map<string, LineCountCache>();
+
+    /**
+     * ワークスペースの構造を走査する。.gitignore と files.exclude に一致するものは除外する。
+     * マルチルートワークスペースでは、各フォルダの構造を子に持つワークスペース全体のノードを返す。
+     * ワークスペースが開かれていなければ null。
+     */
+    public getStructure(): Promise<StructureNode | null> {
+        if (!this.cached) {
+            this.cached = this.scan();
+        }
+        return this.cached;
+    }
+
+    private async scan(): Promise<StructureNode | null> {
         const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) {
+        if (!workspaceFolders || workspaceFolders.length === 0) {
+            return null;
+        }
+
+        if (workspaceFolders.length === 1) {
+            return this.scanFolder(workspaceFolders[0]);
+        }
+        const children: StructureNode[] = [];
+        for (const folder of workspaceFolders) {
+            children.push({ ...await this.scanFolder(folder), name: folder.name, relPath: folder.name });
+        }
+        return {
+            name: vscode.workspace.name ?? 'Workspace',
+            fsPath: '',
+            relPath: '',
+            isDirectory: true,
+            fileCount: children.reduce((sum, child) => sum + child.fileCount, 0),
+            lineCount: children.reduce((sum, child) => sum + child.lineCount, 0),
+            children,
+        };
+    }
+
+    /** 1つのワークスペースフォルダを走査する（除外設定はフォルダごとの設定を使う） */
+    private scanFolder(folder: vscode.WorkspaceFolder): Promise<StructureNode> {
+        const config = vscode.workspace.getConfiguration(undefined, folder.uri);
+        const matcher = new IgnoreMatcher(
+            folder.uri.fsPath,
+            IgnoreMatcher.enabledGlobs(config.get<Record<string, unknown>>('files.exclude')),
+            config.get<boolean>('docmate.structure.useGitignore', true)
+        );
+        const rootDir = folder.uri.fsPath;
+        let lineCounts = this.lineCounts.get(rootDir);
+        if (!lineCounts) {
+            lineCounts = new Map();
+            this.lineCounts.set(rootDir, lineCounts);
+        }
+        return scanProject(rootDir, matcher, lineCounts);
+    }
+
+    /** 次回の getStructure で走査し直す */
+    public invalidate(): void {
+        this.cached = null;
+    }
+
+    /** ASCII ツリーを Markdown として新しいタブに表示する */
+    public async visualize() {
+        const structure = await this.getStructure();
+        if (!structure) {
             vscode.window.showErrorMessage('ワークスペースが開かれていません。');
             return;
         }
 
-        const rootPath = workspaceFolders[0].uri.fsPath;
-        // ルートディレクトリ名を取得してツリー生成を開始
-        const treeString = this.generateTree(rootPath, '', true, true);
-
         // 新しいタブ(Markdown形式)で結果を表示
         const document = await vscode.workspace.openTextDocument({
-            content: `# File Structure\n\n\`\`\`\n${treeString}\`\`\``,
+            content: `# File Structure\n\n${structure.fileCount} files, ${structure.lineCount} lines\n\n\`\`\`\n${toAsciiTree(structure)}\`\`\``,
             language: 'markdown'
         });
         await vscode.window.showTextDocument(document);
     }
 
-    private generateTree(dirPath: string, prefix: string, isLast: boolean, isRoot: boolean = false): string {
-        const dirName = path.basename(dirPath);
-        let result = isRoot ? `${dirName}\n` : `${prefix}${isLast ? '└── ' : '├── '}${dirName}\n`;
-
-        try {
-            const files = fs.readdirSync(dirPath);
-            // 無視するディレクトリを指定。型注釈 (file: string) を追加
-            const filteredFiles = files.filter((file: string) => !['node_modules', '.git', 'out', 'dist'].includes(file));
-
-            // 型注釈 (file: string, index: number) を追加
-            filteredFiles.forEach((file: string, index: number) => {
-                const fullPath = path.join(dirPath, file);
-                const isLastItem = index === filteredFiles.length - 1;
-                const newPrefix = isRoot ? '' : prefix + (isLast ? '    ' : '│   ');
-
-                if (fs.statSync(fullPath).isDirectory()) {
-                    result += this.generateTree(fullPath, newPrefix, isLastItem);
-                } else {
-                    result += `${newPrefix}${isLastItem ? '└── ' : '├── '}${file}\n`;
-                }
-            });
-        } catch (e) {
-            // 権限エラー等はスキップ
+    /** Mermaid の図を Markdown として新しいタブに表示する */
+    public async exportMermaid() {
+        const structure = await this.getStructure();
+        if (!structure) {
+            vscode.window.showErrorMessage('ワークスペースが開かれていません。');
+            return;
         }
 
-        return result;
+        const depth = vscode.workspace.getConfiguration('docmate').get<number>('structure.mermaidDepth', 3);
+        const document = await vscode.workspace.openTextDocument({
+            content: `# File Structure\n\n\`\`\`mermaid\n${toMermaid(structure, depth)}\`\`\`\n`,
+            language: 'markdown'
+        });
+        await vscode.window.showTextDocument(document);
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,97 @@
+import * as vscode from 'vscode';
+import { ExecutionService } from '../services/executionService';
+import { ToolchainStatus } from '../services/toolchainService';
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * 「DocMate: Check Execution Environment」コマンド。
+ * langConfig.json の各言語のコマンドが使えるかを調べ、バージョンと不足しているコマンドを Webview に一覧表示する。
+ */
+export class ToolchainController {
+    private panel: vscode.WebviewPanel | undefined;
+
+    constructor(private readonly context: vscode.ExtensionContext, private readonly executionService: ExecutionService) { }
+
+    /** 確認を実行して結果のパネルを表示する（開いている場合は内容を更新する） */
+    public async check(): Promise<void> {
+        const statuses = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'DocMate: 実行環境を確認中...',
+        }, () => this.executionService.checkToolchains());
+
+        if (!this.panel) {
+            this.panel = vscode.window.createWebviewPanel(
+                'docmateToolchain',
+                'DocMate: Execution Environment',
+                vscode.ViewColumn.Active,
+                { enableScripts: true }
+            );
+            this.panel.onDidDispose(() => { this.panel = undefined; }, undefined, this.context.subscriptions);
+            this.panel.webview.onDidReceiveMessage((message) => {
+                if (message.command === 'recheck') {
+                    this.check().catch(error => vscode.window.showErrorMessage(`DocMate Error: ${error instanceof Error ? error.message : String(error)}`));
+                } else if (message.command === 'openSettings') {
+                    vscode.commands.executeCommand('workbench.action.openSettings', 'docmate.commandPaths');
+                }
+            }, undefined, this.context.subscriptions);
+        }
+        this.panel.webview.html = this.renderHtml(statuses);
+        this.panel.reveal();
+
+        const missing = statuses.filter(status => !status.available).length;
+        if (missing > 0) {
+            vscode.window.setStatusBarMessage(`$(warning) DocMate: ${missing} 言語の実行に必要なコマンドが見つかりません`, 10000);
+        }
+    }
+
+    private renderHtml(statuses: ToolchainStatus[]): string {
+        const rows = statuses.map(status => {
+            const tools = status.tools.map(tool => tool.path
+                ? `<div>✅ <code>${escapeHtml(tool.name)}</code> <span class="version">${escapeHtml(tool.version ?? '')}</span><div class="path">${escapeHtml(tool.path)}</div></div>`
+                : `<div class="missing">❌ <code>${escapeHtml(tool.name)}</code> が見つかりません</div>`
+            ).join('');
+            return `<tr class="${status.available ? 'ok' : 'ng'}">
+                <td>${status.available ? '✅' : '⚠️'} ${escapeHtml(status.language)}</td>
+                <td><code>${escapeHtml(status.command)}</code></td>
+                <td>${tools || '<span class="version">（確認するコマンドはありません）</span>'}</td>
+            </tr>`;
+        }).join('\n');
+        const available = statuses.filter(status => status.available).length;
+
+        return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <style>
+        body { font-family: var(--vscode-font-family); padding: 1rem 2rem; color: var(--vscode-editor-foreground); }
+        table { width: 100%; border-collapse: collapse; margin-top: 1rem; }
+        th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid var(--vscode-widget-border, #e1e4e8); vertical-align: top; }
+        code { font-family: var(--vscode-editor-font-family); }
+        .version, .path { opacity: 0.75; font-size: 0.85rem; }
+        .missing { color: var(--vscode-errorForeground); }
+        button { margin-right: 0.5rem; padding: 5px 12px; border: none; cursor: pointer; background: var(--vscode-button-background); color: var(--vscode-button-foreground); }
+    </style>
+</head>
+<body>
+    <h2>🧰 実行環境</h2>
+    <p>${available} / ${statuses.length} 言語のコマンドが利用できます。見つからないコマンドは PATH に追加するか、<code>docmate.commandPaths</code> で実行ファイルのパスを指定してください。</p>
+    <button id="recheck">再チェック</button><button id="settings">コマンドのパスを設定</button>
+    <table>
+        <thead><tr><th>言語</th><th>コマンド</th><th>状態</th></tr></thead>
+        <tbody>
+${rows}
+        </tbody>
+    </table>
+    <script>
+        const vscode = acquireVsCodeApi();
+        document.getElementById('recheck').addEventListener('click', () => vscode.postMessage({ command: 'recheck' }));
+        document.getElementById('settings').addEventListener('click', () => vscode.postMessage({ command: 'openSettings' }));
+    </script>
+</body>
+</html>`;
+    }
+}
@@ -2,8 +2,42 @@ import * as vscode from 'vscode';
 import * as dotenv from 'dotenv';
 import * as path from 'path';
 import { DocMateController } from './controllers/docMateController';
-import { DocMateWebviewProvider } from './views/webviewProvider';
+import { HistoryTreeProvider } from './views/historyTreeProvider';
+import { DocMateHoverProvider } from './views/docMateHoverProvider';
 import { FileExplainController } from './controllers/fileExplainController';
+import { CacheController } from './controllers/cacheController';
+import { OfflineDocsController } from './controllers/offlineDocsController';
+import { ToolchainController } from './controllers/toolchainController';
+import { StructureController } from './controllers/structureController';
+import { StructureTreeProvider } from './views/structureTreeProvider';
+import { GeminiService } from './services/geminiService';
+import { GenerateUUIDService } from './services/generateUUIDService';
+import { CacheService } from './services/cacheService';
+import { OfflineDocStore } from './services/offlineDocStore';
+import { ExecutionService } from './services/executionService';
+import { LangConfigService } from './services/langConfigService';
+import { ALL_WORKSPACE_FOLDERS, WorkspaceFolderService } from './services/workspaceFolderService';
+import { isAbortError } from './services/cancellation';
+import { LlmUsage, diffUsage, formatUsage } from './services/llm/requestScheduler';
+
+/** コマンド共通のエラー表示（キャンセルはエラー扱いせず通知だけ出す） */
+function showCommandError(error: unknown) {
+	if (isAbortError(error)) {
+		vscode.window.showInformationMessage('DocMate: キャンセルしました');
+		return;
+	}
+	vscode.window.showErrorMessage(`DocMate Error: ${error instanceof Error ? error.message : String(error)}`);
+}
+
+/** コマンドが消費した LLM のリクエスト数・トークン数をステータスバーとログに出す（before は開始時点の使用量） */
+function reportUsage(geminiService: GeminiService, label: string, before: LlmUsage) {
+	const used = diffUsage(geminiService.getUsage(), before);
+	if (used.requests === 0) {
+		return;
+	}
+	console.log(`DocMate: ${label}: ${formatUsage(used)}`);
+	vscode.window.setStatusBarMessage(`$(pulse) DocMate ${label}: ${formatUsage(used)}`, 15000);
+}
 
 export function activate(context: vscode.ExtensionContext) {
 	console.log('DocMate is activating...');
@@ -12,9 +46,29 @@ export function activate(context: vscode.ExtensionContext) {
 		path: path.join(context.extensionPath, '.env'),
 	});
 
+	// LLM 呼び出しの窓口は全コマンドで共有する（プロバイダは docmate.provider で切り替え）
+	const geminiService = new GeminiService(new GenerateUUIDService(context));
+	context.subscriptions.push(geminiService);
+	// コマンドの対象にするワークスペースフォルダ（マルチルートではアクティブなエディタのフォルダ）
+	const workspaceFolderService = new WorkspaceFolderService();
+	context.subscriptions.push(workspaceFolderService);
+	// 言語設定（同梱の langConfig.json + docmate.languages + フォルダの .docmate/languages.json）は全コマンドで共有する
+	const langConfigService = new LangConfigService(context.extensionPath, workspaceFolderService);
+	context.subscriptions.push(langConfigService);
+	// promptHint を GeminiService から参照できるようにする
+	geminiService.setLangConfig(langConfigService);
+	// 解説結果のキャッシュ（explain と履歴ビューで共有）
+	const cacheService = new CacheService(workspaceFolderService);
+	// 書き込み待ちのキャッシュ index を終了時に保存する
+	context.subscriptions.push({ dispose: () => cacheService.flush() });
+	// アクティブなフォルダが変わったら、そのフォルダのキャッシュに切り替える
+	context.subscriptions.push(workspaceFolderService.onDidChangeActiveFolder(() => cacheService.refresh()));
+	// オフライン用の DevDocs docset（explain の検索とダウンロードコマンドで共有）
+	const offlineDocStore = new OfflineDocStore(path.join(context.globalStorageUri.fsPath, 'offline-docs'));
+
 	// 新機能：フォルダ/ファイル解説
 	try {
-		const fileExplainController = new FileExplainController();
+		const fileExplainController = new FileExplainController(geminiService);
 		let fileExplainDisposable = vscode.commands.registerCommand('docmate.explainFile', async (uri?: vscode.Uri) => {
 			const targetUri = uri || vscode.window.activeTextEditor?.document.uri;
 
@@ -26,10 +80,11 @@ export function activate(context: vscode.ExtensionContext) {
 			await vscode.window.withProgress({
 				location: vscode.ProgressLocation.Notification,
 				title: `DocMate: 構造と依存関係を分析中...`,
-				cancellable: false
-			}, async (progress) => {
+				cancellable: true
+			}, async (progress, token) => {
+				const usageBefore = geminiService.getUsage();
 				try {
-					const explanation = await fileExplainController.explainFile(targetUri, progress);
+					const explanation = await fileExplainController.explainFile(targetUri, progress, token);
 					const targetName = targetUri.fsPath.split(/[\\/]/).pop();
 
 					const document = await vscode.workspace.openTextDocument({
@@ -38,7 +93,9 @@ export function activate(context: vscode.ExtensionContext) {
 					});
 					await vscode.window.showTextDocument(document);
 				} catch (error) {
-					vscode.window.showErrorMessage(`DocMate Error: ${error instanceof Error ? error.message : String(error)}`);
+					showCommandError(error);
+				} finally {
+					reportUsage(geminiService, 'Explain File', usageBefore);
 				}
 			});
 		});
@@ -47,18 +104,65 @@ export function activate(context: vscode.ExtensionContext) {
 		console.error('File Explain Command Error:', error);
 	}
 
+	// プロジェクト構造ビュー（.gitignore / files.exclude を反映）
+	try {
+		const structureController = new StructureController();
+		const structureProvider = new StructureTreeProvider(structureController);
+
+		// ファイルの追加・削除・保存や除外設定の変更があったら、少し待ってから走査し直す
+		let refreshTimer: NodeJS.Timeout | undefined;
+		const scheduleStructureRefresh = () => {
+			if (refreshTimer) {
+				clearTimeout(refreshTimer);
+			}
+			refreshTimer = setTimeout(() => structureProvider.refresh(), 1000);
+		};
+		const watcher = vscode.workspace.createFileSystemWatcher('**/*', false, true, false);
+		watcher.onDidCreate(scheduleStructureRefresh);
+		watcher.onDidDelete(scheduleStructureRefresh);
+		const gitignoreWatcher = vscode.workspace.createFileSystemWatcher('**/.gitignore');
+		gitignoreWatcher.onDidChange(scheduleStructureRefresh);
+
+		context.subscriptions.push(
+			watcher,
+			gitignoreWatcher,
+			{ dispose: () => refreshTimer && clearTimeout(refreshTimer) },
+			vscode.workspace.onDidSaveTextDocument(scheduleStructureRefresh),
+			vscode.workspace.onDidChangeWorkspaceFolders(scheduleStructureRefresh),
+			vscode.workspace.onDidChangeConfiguration(e => {
+				if (e.affectsConfiguration('files.exclude') || e.affectsConfiguration('docmate.structure')) {
+					scheduleStructureRefresh();
+				}
+			}),
+			vscode.window.registerTreeDataProvider(StructureTreeProvider.viewId, structureProvider),
+			vscode.commands.registerCommand('docmate.visualizeStructure', () => structureController.visualize()),
+			vscode.commands.registerCommand('docmate.exportStructureMermaid', () => structureController.exportMermaid()),
+			vscode.commands.registerCommand('docmate.refreshStructure', () => structureProvider.refresh())
+		);
+	} catch (error) {
+		console.error('Structure View Registration Error:', error);
+	}
+
 	// 既存のExplainコマンド
 	try {
-		const controller = new DocMateController(context);
-		let disposable = vscode.commands.registerCommand('docmate.explain', async () => {
+		const controller = new DocMateController(context, geminiService, cacheService, langConfigService, workspaceFolderService, offlineDocStore);
+		// keywordArg / languageArg はホバーの「Explain this」リンクから渡される
+		// （コンテキストメニューからは Uri が渡されるため文字列の場合だけ使う）
+		let disposable = vscode.commands.registerCommand('docmate.explain', async (keywordArg?: unknown, languageArg?: unknown) => {
 			const editor = vscode.window.activeTextEditor;
 			let keyword = '';
 			let language = '';
+			// 選択範囲から検索した場合だけ、レシーバーの型を調べる位置として使う
+			let keywordRange: vscode.Range | undefined;
 
-			if (editor) {
+			if (typeof keywordArg === 'string' && keywordArg.trim()) {
+				keyword = keywordArg.trim();
+				language = typeof languageArg === 'string' ? languageArg : editor?.document.languageId ?? '';
+			} else if (editor) {
 				const selection = editor.selection;
 				language = editor.document.languageId;
 				keyword = editor.document.getText(selection).trim();
+				keywordRange = keyword ? selection : undefined;
 			}
 
 			if (!keyword) {
@@ -75,68 +179,110 @@ export function activate(context: vscode.ExtensionContext) {
 			await vscode.window.withProgress({
 				location: vscode.ProgressLocation.Notification,
 				title: `DocMate: Explaining "${keyword}"`,
-				cancellable: false
-			}, async (progress) => {
+				cancellable: true
+			}, async (progress, token) => {
+				const usageBefore = geminiService.getUsage();
 				try {
-					const result = await controller.explain(keyword, language, progress);
-					const panel = vscode.window.createWebviewPanel(
-						DocMateWebviewProvider.viewType,
-						`DocMate: ${keyword}`,
-						vscode.ViewColumn.Beside,
-						{
-							enableScripts: true,
-							retainContextWhenHidden: true
-						}
-					);
-
-					const webviewProvider = new DocMateWebviewProvider(panel, context.extensionUri, context);
-					webviewProvider.update(result.summary, result.examples, result.url, language);
-
-					panel.webview.onDidReceiveMessage(
-						async (message) => {
-							if (message.command === 'run') {
-								// sandbox_init.js が送る payload:
-								//   { command, language, code, execCommand, index }
-								await controller.runCode(message.code, {
-									language: message.language,
-									execCommand: message.execCommand,
-									panel,
-								});
-								// ストリーム結果は runCommand 内で panel へ直接送信済み。
-								// 完了通知が必要な場合はここで追加送信できる。
-							}
-						},
-						undefined,
-						context.subscriptions
-					);
-
+					// 検索結果の順位付けに使う文脈（同じ言語のファイルを開いているときだけ）
+					const searchContext = editor && editor.document.languageId === language
+						? await controller.collectSearchContext(editor.document, keyword, keywordRange)
+						: {};
+					// 結果パネルは explain の中で開き、要約とサンプルを届いた順に表示する
+					const result = await controller.explain(keyword, language, progress, token, searchContext);
+					if (result.partial) {
+						vscode.window.showInformationMessage('DocMate: キャンセルしたため、途中までの結果を表示しています');
+					}
 				} catch (error) {
-					vscode.window.showErrorMessage(`DocMate Error: ${error instanceof Error ? error.message : String(error)}`);
+					showCommandError(error);
+				} finally {
+					reportUsage(geminiService, 'Explain', usageBefore);
 				}
 			});
 		});
 
-		let generateDocDisposable = vscode.commands.registerCommand('docmate.generateProjectDoc', async () => {
+		// 生成コマンドと再生成コマンドで共通のフロー（force: true なら全ファイルを作り直す）
+		// 右クリックしたファイルのフォルダを対象にし、マルチルートで決まらなければフォルダ（またはすべて）を選ばせる
+		const runGenerateProjectDoc = async (force: boolean, uri?: vscode.Uri) => {
+			const usageBefore = geminiService.getUsage();
 			try {
+				const target = await workspaceFolderService.pickFolder({
+					uri,
+					placeHolder: 'ドキュメントを生成するフォルダを選択',
+					allowAll: true
+				});
+				if (!target) {
+					if (!vscode.workspace.workspaceFolders?.length) {
+						vscode.window.showErrorMessage('ワークスペースが開かれていません。フォルダを開いてから実行してください。');
+					}
+					return;
+				}
 				// プログレス表示（生成完了で自動的に消える）
 				await vscode.window.withProgress({
 					location: vscode.ProgressLocation.Notification,
-					title: 'DocMate: プロジェクトドキュメント処理中...',
-					cancellable: false
-				}, async () => {
-					await controller.generateProjectDocument();
+					title: force ? 'DocMate: プロジェクトドキュメントを再生成中...' : 'DocMate: プロジェクトドキュメント処理中...',
+					cancellable: true
+				}, async (_progress, token) => {
+					try {
+						await controller.generateProjectDocument(target, force, token);
+					} finally {
+						reportUsage(geminiService, 'Project Doc', usageBefore);
+					}
 				});
 
 				// 完了通知にダウンロードの確認を表示（プログレスは既に消えている）
+				const used = diffUsage(geminiService.getUsage(), usageBefore);
 				const action = await vscode.window.showInformationMessage(
-					'DocMate: ドキュメントの準備が完了しました！ダウンロードしますか？',
+					`DocMate: ドキュメントの準備が完了しました！（LLM: ${formatUsage(used)}）ダウンロードしますか？`,
 					'はい', 'いいえ'
 				);
 				if (action === 'はい') {
 					await controller.downloadProjectDocument();
 				}
 			} catch (error) {
-				vscode.window.showErrorMessage(`DocMate Error: ${error instanceof Error ? error.message : String(error)}`);
+				showCommandError(error);
+			}
+		};
+
+		let generateDocDisposable = vscode.commands.registerCommand('docmate.generateProjectDoc', (uri?: vscode.Uri) => runGenerateProjectDoc(false, uri));
+		let regenerateDocDisposable = vscode.commands.registerCommand('docmate.regenerateProjectDoc', (uri?: vscode.Uri) => runGenerateProjectDoc(true, uri));
+
+		// 前回の実行で失敗したファイルだけを再生成する（実行レポートの「再生成」ボタンからはそのフォルダの URI が渡される）
+		let retryFailedDocDisposable = vscode.commands.registerCommand('docmate.retryFailedProjectDocFiles', async (uri?: vscode.Uri) => {
+			const usageBefore = geminiService.getUsage();
+			try {
+				const folder = await workspaceFolderService.pickFolder({ uri, placeHolder: '失敗したファイルを再生成するフォルダを選択' });
+				if (!folder || folder === ALL_WORKSPACE_FOLDERS) {
+					return;
+				}
+				const report = await vscode.window.withProgress({
+					location: vscode.ProgressLocation.Notification,
+					title: 'DocMate: 失敗したファイルを再生成中...',
+					cancellable: true
+				}, async (_progress, token) => {
+					try {
+						return await controller.retryFailedProjectDocFiles(folder, token);
+					} finally {
+						reportUsage(geminiService, 'Project Doc', usageBefore);
+					}
+				});
+				if (!report) {
+					vscode.window.showInformationMessage('DocMate: 再生成が必要なファイルはありません');
+				}
+			} catch (error) {
+				showCommandError(error);
+			}
+		});
+
+		let showDocReportDisposable = vscode.commands.registerCommand('docmate.showProjectDocReport', async (uri?: vscode.Uri) => {
+			try {
+				const folder = await workspaceFolderService.pickFolder({ uri, placeHolder: '生成レポートを表示するフォルダを選択' });
+				// ピッカーをキャンセルした場合（ワークスペースが開かれていなければ showGenerationReport がエラーを出す）
+				if (folder === ALL_WORKSPACE_FOLDERS || (!folder && vscode.workspace.workspaceFolders?.length)) {
+					return;
+				}
+				controller.showGenerationReport(folder);
+			} catch (error) {
+				showCommandError(error);
 			}
 		});
 
@@ -145,12 +291,97 @@ export function activate(context: vscode.ExtensionContext) {
 			try {
 				await controller.downloadProjectDocument();
 			} catch (error) {
-				vscode.window.showErrorMessage(`DocMate Error: ${error instanceof Error ? error.message : String(error)}`);
+				showCommandError(error);
 			}
 		});
 
+		// キャッシュ済みの要約をホバー表示（ネットワークにはアクセスしない）
+		context.subscriptions.push(DocMateHoverProvider.register(cacheService));
+
+		// キャッシュから結果パネルを開き直す（履歴ビュー・ホバー・キャッシュ管理で共通）
+		const openHistoryEntry = (url: string) => {
+			try {
+				controller.openHistoryEntry(url);
+			} catch (error) {
+				showCommandError(error);
+			}
+		};
+
+		// キャッシュ管理コマンド
+		const cacheController = new CacheController(cacheService, openHistoryEntry);
+		context.subscriptions.push(
+			vscode.commands.registerCommand('docmate.manageCache', () => cacheController.manage())
+		);
+
+		// オフラインドキュメントのダウンロード・取り込み
+		const offlineDocsController = new OfflineDocsController(offlineDocStore);
+		context.subscriptions.push(
+			vscode.commands.registerCommand('docmate.downloadOfflineDocs', async () => {
+				try {
+					await offlineDocsController.download();
+				} catch (error) {
+					showCommandError(error);
+				}
+			}),
+			vscode.commands.registerCommand('docmate.importOfflineDocs', async () => {
+				try {
+					await offlineDocsController.import();
+				} catch (error) {
+					showCommandError(error);
+				}
+			})
+		);
+
+		// 実行環境（langConfig.json のコマンド）の確認
+		const toolchainController = new ToolchainController(context, new ExecutionService(langConfigService, workspaceFolderService));
+		context.subscriptions.push(
+			vscode.commands.registerCommand('docmate.checkExecutionEnvironment', async () => {
+				try {
+					await toolchainController.check();
+				} catch (error) {
+					showCommandError(error);
+				}
+			})
+		);
+
+		// 履歴ビュー（アクティビティバー）
+		const historyProvider = new HistoryTreeProvider(cacheService);
+		context.subscriptions.push(
+			vscode.window.registerTreeDataProvider(HistoryTreeProvider.viewId, historyProvider),
+			vscode.commands.registerCommand('docmate.openHistoryEntry', openHistoryEntry),
+			vscode.commands.registerCommand('docmate.searchHistory', async () => {
+				const filter = await vscode.window.showInputBox({
+					prompt: '履歴を検索（キーワード・URL・要約の部分一致）',
+					value: historyProvider.getFilter()
+				});
+				if (filter !== undefined) {
+					historyProvider.setFilter(filter);
+				}
+			}),
+			vscode.commands.registerCommand('docmate.clearHistorySearch', () => historyProvider.setFilter('')),
+			vscode.commands.registerCommand('docmate.refreshHistory', () => historyProvider.refresh()),
+			vscode.commands.registerCommand('docmate.pinHistoryEntry', (node?: { entry?: { url: string } }) => {
+				if (node?.entry) {
+					cacheService.setPinned(node.entry.url, true);
+				}
+			}),
+			vscode.commands.registerCommand('docmate.unpinHistoryEntry', (node?: { entry?: { url: string } }) => {
+				if (node?.entry) {
+					cacheService.setPinned(node.entry.url, false);
+				}
+			}),
+			vscode.commands.registerCommand('docmate.deleteHistoryEntry', (node?: { entry?: { url: string } }) => {
+				if (node?.entry) {
+					cacheService.invalidate(node.entry.url);
+				}
+			})
+		);
+
 		context.subscriptions.push(disposable);
 		context.subscriptions.push(generateDocDisposable);
+		context.subscriptions.push(regenerateDocDisposable);
+		context.subscriptions.push(retryFailedDocDisposable);
+		context.subscriptions.push(showDocReportDisposable);
 		context.subscriptions.push(downloadDocDisposable);
 	} catch (error) {
 		console.error('Explain Command Registration Error:', error);
@@ -1,7 +1,10 @@
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
+import * as crypto from "crypto";
 import * as vscode from "vscode";
+import { ExampleAttempt } from "./executionService";
+import { WorkspaceFolderService } from "./workspaceFolderService";
 
 /** キャッシュの1エントリ */
 export interface CacheEntry {
@@ -12,99 +15,416 @@ export interface CacheEntry {
     description: string;
     code: string;
     executionOutput: string;
+    attempts?: ExampleAttempt[];
+    verified?: boolean;
   }[];
+  /** 検索したキーワード（履歴ビューの表示名。旧キャッシュには無い） */
+  keyword?: string;
+  /** 検索時のエディタの languageId（履歴ビューのグループ分けに使う） */
+  language?: string;
+  /** 履歴ビューでピン留めされているか */
+  pinned?: boolean;
   savedAt: string; // ISO 8601
 }
 
-const CACHE_FILENAME = ".vscode/docmate_cache.json";
+/**
+ * index.json に載せるエントリのメタデータ。
+ * 一覧表示・検索・LRU 判定はこれだけで行い、本体（要約・サンプル）は必要なときだけ読む。
+ */
+export interface CacheIndexEntry {
+  url: string;
+  /** 本体ファイル名（URL の sha1） */
+  id: string;
+  keyword?: string;
+  language?: string;
+  pinned?: boolean;
+  savedAt: string; // ISO 8601
+  /** 最後に参照された日時（LRU 用） */
+  accessedAt: string; // ISO 8601
+  /** 本体ファイルのサイズ（バイト） */
+  bytes: number;
+  /** 要約の先頭（一覧の検索・ツールチップ用） */
+  preview: string;
+}
+
+interface CacheIndex {
+  version: number;
+  entries: Record<string, CacheIndexEntry>; // url → メタデータ
+}
+
+/** キャッシュの保存先ディレクトリ（index.json + entries/<id>.json） */
+const CACHE_DIRNAME = ".vscode/docmate_cache";
+/** 以前の単一 JSON 形式のキャッシュ（見つかったら新形式へ移行する） */
+const LEGACY_CACHE_FILENAME = ".vscode/docmate_cache.json";
+const INDEX_FILENAME = "index.json";
+const INDEX_VERSION = 1;
+const PREVIEW_LENGTH = 300;
+/** 参照日時の更新をまとめて書き込むまでの待ち時間 */
+const INDEX_FLUSH_DELAY_MS = 1000;
 
 /**
  * ドキュメントキャッシュの読み書きを担当するサービス。
- * ワークスペースルートが存在すればそこに、なければ os.tmpdir() に保存する。
+ * アクティブなワークスペースフォルダのルートが存在すればそこに、なければ os.tmpdir() に保存する。
+ * マルチルートワークスペースでは、アクティブなフォルダが変わると保存先もそのフォルダに切り替わる。
+ *
+ * エントリごとに1ファイルで保存し、メタデータだけを index.json にまとめてメモリに保持する。
+ * エントリ数が増えても find / save は対象の1ファイルと index の読み書きだけで済む。
+ * - docmate.cache.ttlDays を過ぎたエントリは期限切れとして扱う
+ * - docmate.cache.maxEntries / maxBytes を超えたら、最近使われていないものから削除する（LRU）
+ * - ピン留めしたエントリは期限切れ・LRU 削除の対象にしない
  */
 export class CacheService {
-  private cachePath: string;
+  private cacheDir: string;
+  private index: CacheIndex | null = null;
+  private flushTimer: NodeJS.Timeout | undefined;
+
+  /** キャッシュの内容が変わったときに発火する（履歴ビューの再描画用） */
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.changeEmitter.event;
 
-  constructor() {
-    this.cachePath = this.resolveCachePath();
+  constructor(private readonly workspaceFolders: WorkspaceFolderService) {
+    this.cacheDir = this.resolveCacheDir();
   }
 
   // ----- パス解決 -----
 
-  private resolveCachePath(): string {
-    const folders = vscode.workspace.workspaceFolders;
-    const dir =
-      folders && folders.length > 0
-        ? folders[0].uri.fsPath
-        : os.tmpdir();
-    return path.join(dir, CACHE_FILENAME);
+  private resolveBaseDir(): string {
+    return this.workspaceFolders.getActiveFolder()?.uri.fsPath ?? os.tmpdir();
+  }
+
+  private resolveCacheDir(): string {
+    return path.join(this.resolveBaseDir(), CACHE_DIRNAME);
+  }
+
+  private entryPath(id: string): string {
+    return path.join(this.cacheDir, "entries", `${id}.json`);
   }
 
   /**
-   * ワークスペースが切り替わった場合に呼び出してパスを更新する。
-   * （通常は不要だが、念のため公開しておく）
+   * アクティブなワークスペースフォルダが切り替わった場合に呼び出してパスを更新する。
+   * 保存先が変わらなければ何もしない。
    */
   refresh(): void {
-    this.cachePath = this.resolveCachePath();
+    if (this.resolveCacheDir() === this.cacheDir) {
+      return;
+    }
+    this.flush();
+    this.cacheDir = this.resolveCacheDir();
+    this.index = null;
+    this.changeEmitter.fire();
   }
 
-  // ----- 読み込み -----
+  // ----- 設定 -----
+
+  private getLimits(): { ttlMs: number; maxEntries: number; maxBytes: number } {
+    const config = vscode.workspace.getConfiguration("docmate.cache");
+    const ttlDays = config.get<number>("ttlDays", 30);
+    return {
+      ttlMs: ttlDays > 0 ? ttlDays * 24 * 60 * 60 * 1000 : 0,
+      maxEntries: config.get<number>("maxEntries", 500),
+      maxBytes: config.get<number>("maxSizeMB", 50) * 1024 * 1024,
+    };
+  }
+
+  /** ピン留めされておらず、TTL を過ぎているか（一覧で使う場合は ttlMs を渡して設定の再読込を避ける） */
+  isExpired(meta: CacheIndexEntry, ttlMs = this.getLimits().ttlMs): boolean {
+    if (meta.pinned || ttlMs <= 0) {
+      return false;
+    }
+    return Date.now() - Date.parse(meta.savedAt) > ttlMs;
+  }
+
+  // ----- index の読み書き -----
 
   /**
-   * キャッシュファイル全体を読み込む。
-   * ファイルが存在しない・壊れている場合は空配列を返す。
+   * index をメモリに読み込む（初回のみ）。
+   * index が無く旧形式のキャッシュファイルがあれば、新形式へ移行する。
    */
-  private readAll(): CacheEntry[] {
+  private getIndex(): CacheIndex {
+    if (this.index) {
+      return this.index;
+    }
+
+    const indexPath = path.join(this.cacheDir, INDEX_FILENAME);
     try {
-      if (!fs.existsSync(this.cachePath)) {
-        return [];
+      if (fs.existsSync(indexPath)) {
+        const parsed = JSON.parse(fs.readFileSync(indexPath, "utf8"));
+        if (parsed && parsed.version === INDEX_VERSION && parsed.entries) {
+          this.index = parsed as CacheIndex;
+          return this.index;
+        }
       }
-      const raw = fs.readFileSync(this.cachePath, "utf8");
-      const parsed = JSON.parse(raw);
-      return Array.isArray(parsed) ? (parsed as CacheEntry[]) : [];
     } catch (e) {
-      console.warn("CacheService: キャッシュの読み込みに失敗しました。", e);
-      return [];
+      console.warn("CacheService: index の読み込みに失敗しました。作り直します。", e);
+    }
+
+    this.index = { version: INDEX_VERSION, entries: {} };
+    this.migrateLegacyCache();
+    return this.index;
+  }
+
+  /** 旧形式（全エントリを1つの JSON 配列に保存）のキャッシュを取り込み、元ファイルは .bak に退避する */
+  private migrateLegacyCache(): void {
+    const legacyPath = path.join(this.resolveBaseDir(), LEGACY_CACHE_FILENAME);
+    if (!fs.existsSync(legacyPath)) {
+      return;
+    }
+    try {
+      const parsed = JSON.parse(fs.readFileSync(legacyPath, "utf8"));
+      const entries: CacheEntry[] = Array.isArray(parsed) ? parsed : [];
+      for (const entry of entries) {
+        this.writeEntry(entry, entry.savedAt);
+      }
+      this.writeIndex();
+      fs.renameSync(legacyPath, `${legacyPath}.bak`);
+      console.log(`CacheService: 旧形式のキャッシュ ${entries.length} 件を移行しました → ${this.cacheDir}`);
+    } catch (e) {
+      console.warn("CacheService: 旧形式のキャッシュの移行に失敗しました。", e);
+    }
+  }
+
+  private writeIndex(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    if (!this.index) {
+      return;
+    }
+    try {
+      fs.mkdirSync(this.cacheDir, { recursive: true });
+      fs.writeFileSync(path.join(this.cacheDir, INDEX_FILENAME), JSON.stringify(this.index), "utf8");
+    } catch (e) {
+      console.error("CacheService: index の書き込みに失敗しました。", e);
+    }
+  }
+
+  /** 参照日時の更新のように急がない変更は、まとめて後で書き込む */
+  private scheduleIndexWrite(): void {
+    if (this.flushTimer) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => this.writeIndex(), INDEX_FLUSH_DELAY_MS);
+  }
+
+  /** 書き込み待ちの index を即座に保存する（拡張機能の終了時など） */
+  flush(): void {
+    if (this.flushTimer) {
+      this.writeIndex();
+    }
+  }
+
+  // ----- 読み込み -----
+
+  /** 本体ファイルを読み込む。壊れている・消えている場合は index からも外して null を返す */
+  private readEntry(meta: CacheIndexEntry): CacheEntry | null {
+    try {
+      const raw = fs.readFileSync(this.entryPath(meta.id), "utf8");
+      return { ...(JSON.parse(raw) as CacheEntry), pinned: meta.pinned };
+    } catch (e) {
+      console.warn(`CacheService: キャッシュの読み込みに失敗しました (${meta.url})`, e);
+      this.invalidate(meta.url);
+      return null;
     }
   }
 
+  /** 参照されたエントリの LRU 情報を更新して本体を返す。期限切れなら削除して null */
+  private touch(meta: CacheIndexEntry): CacheEntry | null {
+    if (this.isExpired(meta)) {
+      this.invalidate(meta.url);
+      return null;
+    }
+    const entry = this.readEntry(meta);
+    if (entry) {
+      meta.accessedAt = new Date().toISOString();
+      this.scheduleIndexWrite();
+    }
+    return entry;
+  }
+
   /**
    * URL が一致するキャッシュエントリを返す。
-   * 見つからなければ null を返す。
+   * 見つからない・期限切れの場合は null を返す。
    */
   find(url: string): CacheEntry | null {
-    const all = this.readAll();
-    return all.find((entry) => entry.url === url) ?? null;
+    const meta = this.getIndex().entries[url];
+    return meta ? this.touch(meta) : null;
+  }
+
+  /**
+   * キーワードと言語が一致する最新のエントリを返す（ホバー表示用）。
+   * 見つからなければ null を返す。
+   */
+  findByKeyword(keyword: string, language: string): CacheEntry | null {
+    const meta = this.list().find((m) => m.keyword === keyword && m.language === language);
+    return meta ? this.touch(meta) : null;
+  }
+
+  /** 期限切れでないエントリのメタデータを新しい順に返す */
+  list(): CacheIndexEntry[] {
+    const { ttlMs } = this.getLimits();
+    return Object.values(this.getIndex().entries)
+      .filter((meta) => !this.isExpired(meta, ttlMs))
+      .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  }
+
+  /** 期限切れも含めた全エントリのメタデータを返す（管理コマンド用） */
+  listAll(): CacheIndexEntry[] {
+    return Object.values(this.getIndex().entries)
+      .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  }
+
+  /** キャッシュ全体の件数と合計サイズ */
+  getStats(): { count: number; bytes: number; expired: number } {
+    const { ttlMs } = this.getLimits();
+    const all = Object.values(this.getIndex().entries);
+    return {
+      count: all.length,
+      bytes: all.reduce((sum, m) => sum + m.bytes, 0),
+      expired: all.filter((m) => this.isExpired(m, ttlMs)).length,
+    };
   }
 
   // ----- 書き込み -----
 
+  /** 本体ファイルを書き込み、index のメタデータを更新する（index 自体の保存は呼び出し側で行う） */
+  private writeEntry(entry: Omit<CacheEntry, "savedAt">, savedAt: string): void {
+    const index = this.getIndex();
+    const id = crypto.createHash("sha1").update(entry.url).digest("hex");
+    const previous = index.entries[entry.url];
+    const pinned = entry.pinned ?? previous?.pinned;
+    const body = JSON.stringify({ ...entry, savedAt, pinned: undefined });
+
+    fs.mkdirSync(path.dirname(this.entryPath(id)), { recursive: true });
+    fs.writeFileSync(this.entryPath(id), body, "utf8");
+
+    index.entries[entry.url] = {
+      url: entry.url,
+      id,
+      keyword: entry.keyword,
+      language: entry.language,
+      pinned,
+      savedAt,
+      accessedAt: new Date().toISOString(),
+      bytes: Buffer.byteLength(body),
+      preview: entry.summary.slice(0, PREVIEW_LENGTH),
+    };
+  }
+
   /**
    * エントリを保存する。
-   * 同じ URL が既に存在する場合は上書き（最新情報で更新）する。
+   * 同じ URL が既に存在する場合は上書き（最新情報で更新）する。ピン留めの状態は引き継ぐ。
+   * 保存後、上限を超えていれば LRU で古いエントリを削除する。
    */
   save(entry: Omit<CacheEntry, "savedAt">): void {
-    const all = this.readAll();
-    const idx = all.findIndex((e) => e.url === entry.url);
-    const newEntry: CacheEntry = { ...entry, savedAt: new Date().toISOString() };
+    try {
+      this.writeEntry(entry, new Date().toISOString());
+      this.evict();
+      this.writeIndex();
+      console.log(`CacheService: 保存しました → ${this.cacheDir}`);
+    } catch (e) {
+      console.error("CacheService: キャッシュの書き込みに失敗しました。", e);
+    }
+    this.changeEmitter.fire();
+  }
 
-    if (idx >= 0) {
-      all[idx] = newEntry; // 上書き
-    } else {
-      all.push(newEntry); // 追記
+  /** URL が一致するエントリのピン留め状態を変更する */
+  setPinned(url: string, pinned: boolean): void {
+    const meta = this.getIndex().entries[url];
+    if (!meta) {
+      return;
     }
+    meta.pinned = pinned;
+    this.writeIndex();
+    this.changeEmitter.fire();
+  }
 
+  // ----- 削除 -----
+
+  private removeEntry(url: string): boolean {
+    const index = this.getIndex();
+    const meta = index.entries[url];
+    if (!meta) {
+      return false;
+    }
     try {
-      fs.mkdirSync(path.dirname(this.cachePath), { recursive: true });
-      fs.writeFileSync(this.cachePath, JSON.stringify(all, null, 2), "utf8");
-      console.log(`CacheService: 保存しました → ${this.cachePath}`);
+      fs.rmSync(this.entryPath(meta.id), { force: true });
     } catch (e) {
-      console.error("CacheService: キャッシュの書き込みに失敗しました。", e);
+      console.warn(`CacheService: キャッシュの削除に失敗しました (${url})`, e);
+    }
+    delete index.entries[url];
+    return true;
+  }
+
+  /** 1エントリを削除する */
+  invalidate(url: string): void {
+    if (!this.removeEntry(url)) {
+      return;
+    }
+    this.writeIndex();
+    this.changeEmitter.fire();
+  }
+
+  /** 期限切れのエントリを全て削除し、削除した件数を返す */
+  pruneExpired(): number {
+    const { ttlMs } = this.getLimits();
+    const expired = Object.values(this.getIndex().entries).filter((m) => this.isExpired(m, ttlMs));
+    for (const meta of expired) {
+      this.removeEntry(meta.url);
+    }
+    if (expired.length > 0) {
+      this.writeIndex();
+      this.changeEmitter.fire();
+    }
+    return expired.length;
+  }
+
+  /** 全エントリを削除する（includePinned が false ならピン留めは残す） */
+  clear(includePinned = true): number {
+    const targets = Object.values(this.getIndex().entries).filter((m) => includePinned || !m.pinned);
+    for (const meta of targets) {
+      this.removeEntry(meta.url);
     }
+    this.writeIndex();
+    this.changeEmitter.fire();
+    return targets.length;
   }
 
-  /** 現在のキャッシュファイルのパスを返す（デバッグ用） */
+  /**
+   * 期限切れを削除したうえで、件数・合計サイズの上限を超えている間、
+   * 最後に参照された日時が古いものから削除する（ピン留めは対象外）。
+   */
+  private evict(): void {
+    const { ttlMs, maxEntries, maxBytes } = this.getLimits();
+    const index = this.getIndex();
+
+    for (const meta of Object.values(index.entries)) {
+      if (this.isExpired(meta, ttlMs)) {
+        this.removeEntry(meta.url);
+      }
+    }
+
+    const candidates = Object.values(index.entries)
+      .filter((m) => !m.pinned)
+      .sort((a, b) => a.accessedAt.localeCompare(b.accessedAt));
+    let count = Object.keys(index.entries).length;
+    let bytes = Object.values(index.entries).reduce((sum, m) => sum + m.bytes, 0);
+
+    for (const meta of candidates) {
+      const overEntries = maxEntries > 0 && count > maxEntries;
+      const overBytes = maxBytes > 0 && bytes > maxBytes;
+      if (!overEntries && !overBytes) {
+        break;
+      }
+      this.removeEntry(meta.url);
+      count--;
+      bytes -= meta.bytes;
+      console.log(`CacheService: 上限を超えたため削除しました → ${meta.url}`);
+    }
+  }
+
+  /** 現在のキャッシュディレクトリのパスを返す（デバッグ用） */
   getCachePath(): string {
-    return this.cachePath;
+    return this.cacheDir;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+
+/**
+ * キャンセル処理のユーティリティ。
+ * VS Code の CancellationToken を AbortSignal に変換し、fetch・子プロセス・LLM 呼び出しまで
+ * 同じ signal を渡して中断できるようにする。
+ * 中断時は name が "AbortError" のエラー（fetch と同じ形式）で統一する。
+ */
+
+/**
+ * CancellationToken を AbortSignal に変換して fn を実行する。token が無ければ signal は undefined。
+ * fn が終わったら token のリスナーを解除する（長く使われる token にリスナーを溜めない）。
+ */
+export async function withAbortSignal<T>(
+    token: vscode.CancellationToken | undefined,
+    fn: (signal: AbortSignal | undefined) => Promise<T>
+): Promise<T> {
+    if (!token) {
+        return fn(undefined);
+    }
+    const controller = new AbortController();
+    if (token.isCancellationRequested) {
+        controller.abort();
+    }
+    const listener = token.onCancellationRequested(() => controller.abort());
+    try {
+        return await fn(controller.signal);
+    } finally {
+        listener.dispose();
+    }
+}
+
+/** キャンセルによって発生したエラーかどうか */
+export function isAbortError(error: unknown): boolean {
+    return error instanceof Error && error.name === 'AbortError';
+}
+
+/** ユーザーが選択を取り消した場合など、signal を介さずにキャンセル扱いにするためのエラー */
+export function createAbortError(message = 'The operation was aborted'): Error {
+    const error = new Error(message);
+    error.name = 'AbortError';
+    return error;
+}
+
+/** signal が中断済みなら AbortError を投げる */
+export function throwIfAborted(signal?: AbortSignal): void {
+    signal?.throwIfAborted();
+}
+
+/** ms ミリ秒待つ。待っている間に signal が中断されたら AbortError で reject する */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * signal に対応していない Promise（SDK 呼び出しなど）を、中断時に即座に reject させる。
+ * 元の処理自体は止まらないが、呼び出し側は結果を待たずに先へ進める。
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+        return promise;
+    }
+    signal.throwIfAborted();
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(
+            (value) => {
+                signal.removeEventListener('abort', onAbort);
+                resolve(value);
+            },
+            (error) => {
+                signal.removeEventListener('abort', onAbort);
+                reject(error);
+            }
+        );
+    });
+}
@@ -0,0 +1,222 @@
+/**
+ * 大きなファイル・フォルダを LLM に送れる大きさに分割するためのユーティリティ。
+ * トップレベルの宣言（関数・クラスなど）の境目で分割し、トークン数の上限（budget）に収まるように詰める。
+ */
+
+/** 1回のリクエストで送るソースコードのトークン数の既定値（docmate.tokenBudget） */
+export const DEFAULT_TOKEN_BUDGET = 12000;
+
+/** ファイル名などの見出し分として、1ファイルごとに上乗せするトークン数 */
+const FILE_HEADER_TOKENS = 20;
+
+/** ソースコードの一部 */
+export interface Chunk {
+    text: string;
+    /** 1始まりの開始行・終了行 */
+    startLine: number;
+    endLine: number;
+    tokens: number;
+}
+
+export interface SourceFile {
+    name: string;
+    content: string;
+}
+
+/** 1回のリクエストにまとめて送るファイル群。大きなファイルは part 付きで分割して入る */
+export interface FileBatch {
+    files: (SourceFile & { part?: { index: number; total: number; startLine: number; endLine: number } })[];
+    tokens: number;
+}
+
+/**
+ * トークン数のおおよその見積もり。
+ * 英数字・記号は4文字で1トークン、日本語などの非 ASCII 文字は1文字1トークンとして数える。
+ */
+export function estimateTokens(text: string): number {
+    let ascii = 0;
+    let nonAscii = 0;
+    for (let i = 0; i < text.length; i++) {
+        if (text.charCodeAt(i) > 0x7f) {
+            nonAscii++;
+        } else {
+            ascii++;
+        }
+    }
+    return Math.ceil(ascii / 4) + nonAscii;
+}
+
+/** トップレベル宣言の書き出し（TS/JS, Python, Go, Rust, Kotlin, C# など） */
+const DECLARATION_PATTERN = new RegExp(
+    '^(?:(?:export|default|declare|async|public|private|protected|internal|static|abstract|final|sealed|open|data|override|unsafe|pub(?:\\([^)]*\\))?)\\s+)*' +
+    '(?:function\\*?|class|interface|type|enum|const|let|var|def|fn|func|struct|impl|trait|mod|namespace|module|object|fun|record)\\b'
+);
+
+/** 宣言の直前に付くコメント・デコレータ（宣言と同じチャンクに入れる） */
+const LEADING_PATTERN = /^(?:\/\/|\/\*|\*|#(?!include)|@|"""|''')/;
+
+/**
+ * ソースコードを maxTokens 以下のチャンクに分割する。
+ * 1. トップレベル宣言（インデントなしの function / class / def など）の位置で区切る
+ * 2. 区切った塊を上限まで順に詰める
+ * 3. それでも上限を超える塊（巨大なクラスなど）は、内側の空行、最後は行単位で区切る
+ */
+export function splitIntoChunks(content: string, maxTokens: number): Chunk[] {
+    const lines = content.split(/\r?\n/);
+    if (estimateTokens(content) <= maxTokens) {
+        return [{ text: content, startLine: 1, endLine: lines.length, tokens: estimateTokens(content) }];
+    }
+
+    const segments = splitAtDeclarations(lines).flatMap(([start, end]) =>
+        estimateTokens(lines.slice(start, end).join('\n')) > maxTokens
+            ? splitOversized(lines, start, end, maxTokens)
+            : [[start, end] as [number, number]]
+    );
+
+    // 隣り合う塊を上限まで詰めてチャンクにする
+    const chunks: Chunk[] = [];
+    let current: [number, number] | null = null;
+    const flush = () => {
+        if (current) {
+            const text = lines.slice(current[0], current[1]).join('\n');
+            chunks.push({ text, startLine: current[0] + 1, endLine: current[1], tokens: estimateTokens(text) });
+            current = null;
+        }
+    };
+    for (const [start, end] of segments) {
+        if (current && estimateTokens(lines.slice(current[0], end).join('\n')) > maxTokens) {
+            flush();
+        }
+        current = current ? [current[0], end] : [start, end];
+    }
+    flush();
+    return chunks;
+}
+
+/** トップレベル宣言の位置で [start, end) の区間に分ける */
+function splitAtDeclarations(lines: string[]): [number, number][] {
+    const boundaries = [0];
+    for (let i = 1; i < lines.length; i++) {
+        if (!DECLARATION_PATTERN.test(lines[i])) {
+            continue;
+        }
+        // 直前のコメント・デコレータは宣言側に含める
+        let start = i;
+        while (start - 1 > boundaries[boundaries.length - 1] && LEADING_PATTERN.test(lines[start - 1].trim())) {
+            start--;
+        }
+        if (start > boundaries[boundaries.length - 1]) {
+            boundaries.push(start);
+        }
+    }
+    return boundaries.map((start, i) => [start, boundaries[i + 1] ?? lines.length] as [number, number]);
+}
+
+/** 上限を超える区間を、空行の直後（内側の宣言の区切りであることが多い）→ 行単位の順に分ける */
+function splitOversized(lines: string[], start: number, end: number, maxTokens: number): [number, number][] {
+    const result: [number, number][] = [];
+    let pieceStart = start;
+    let lastBlank = -1;
+    let tokens = 0;
+
+    for (let i = start; i < end; i++) {
+        const lineTokens = estimateTokens(lines[i]) + 1;
+        if (tokens + lineTokens > maxTokens && i > pieceStart) {
+            // 直近の空行で切れるならそこで切る。無ければこの行の手前で切る
+            const cut = lastBlank > pieceStart ? lastBlank + 1 : i;
+            result.push([pieceStart, cut]);
+            pieceStart = cut;
+            lastBlank = -1;
+            tokens = estimateTokens(lines.slice(pieceStart, i).join('\n'));
+        }
+        if (lines[i].trim() === '') {
+            lastBlank = i;
+        }
+        tokens += lineTokens;
+    }
+    if (pieceStart < end) {
+        result.push([pieceStart, end]);
+    }
+    return result;
+}
+
+/**
+ * 複数のファイルを maxTokens 以下のバッチにまとめる。
+ * 1ファイルで上限を超えるものは splitIntoChunks で分割し、part 付きで単独のバッチにする。
+ */
+export function batchFiles(files: SourceFile[], maxTokens: number): FileBatch[] {
+    const batches: FileBatch[] = [];
+    let current: FileBatch = { files: [], tokens: 0 };
+
+    for (const file of files) {
+        const tokens = estimateTokens(file.content) + FILE_HEADER_TOKENS;
+        if (tokens > maxTokens) {
+            // ファイルの順番を保つため、詰めかけのバッチを先に確定する
+            if (current.files.length > 0) {
+                batches.push(current);
+                current = { files: [], tokens: 0 };
+            }
+            const chunks = splitIntoChunks(file.content, maxTokens - FILE_HEADER_TOKENS);
+            chunks.forEach((chunk, index) => batches.push({
+                files: [{
+                    name: file.name,
+                    content: chunk.text,
+                    part: { index: index + 1, total: chunks.length, startLine: chunk.startLine, endLine: chunk.endLine },
+                }],
+                tokens: chunk.tokens + FILE_HEADER_TOKENS,
+            }));
+            continue;
+        }
+        if (current.files.length > 0 && current.tokens + tokens > maxTokens) {
+            batches.push(current);
+            current = { files: [], tokens: 0 };
+        }
+        current.files.push(file);
+        current.tokens += tokens;
+    }
+    if (current.files.length > 0) {
+        batches.push(current);
+    }
+    return batches;
+}
+
+/**
+ * map-reduce の reduce 段階。要約の合計が maxTokens を超える間、
+ * 上限に収まる単位でまとめて merge し直す（階層的に要約する）。
+ * 返り値の要約の合計は、1つの要約が単独で上限を超える場合を除き maxTokens 以下になる。
+ */
+export async function collapseSummaries(
+    summaries: string[],
+    maxTokens: number,
+    merge: (group: string[]) => Promise<string>
+): Promise<string[]> {
+    let current = summaries;
+    while (current.length > 1 && estimateTokens(current.join('\n\n')) > maxTokens) {
+        const groups: string[][] = [];
+        let group: string[] = [];
+        let groupTokens = 0;
+        for (const summary of current) {
+            const tokens = estimateTokens(summary);
+            if (group.length > 0 && groupTokens + tokens > maxTokens) {
+                groups.push(group);
+                group = [];
+                groupTokens = 0;
+            }
+            group.push(summary);
+            groupTokens += tokens;
+        }
+        groups.push(group);
+
+        // どの要約も単独で上限近くあり、まとめようがない場合は打ち切る
+        if (groups.length === current.length) {
+            break;
+        }
+
+        const merged: string[] = [];
+        for (const g of groups) {
+            merged.push(g.length === 1 ? g[0] : await merge(g));
+        }
+        current = merged;
+    }
+    return current;
+}
@@ -0,0 +1,379 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { IgnoreMatcher } from './ignoreMatcher';
+
+/** 解析対象の拡張子 */
+const JS_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+const PY_EXTENSIONS = ['.py'];
+/** 走査するファイル数の上限（巨大なフォルダで固まらないように） */
+const MAX_FILES = 2000;
+/** 常に除外するフォルダ（.gitignore が無いプロジェクト向け） */
+const ALWAYS_IGNORED = ['node_modules', '.git', 'out', 'dist', 'build', '__pycache__', '.venv', 'venv'];
+
+/** モジュール依存グラフ（パスは全て解析ルートからの相対パス、'/' 区切り） */
+export interface DependencyGraph {
+    /** 解析したフォルダ */
+    rootDir: string;
+    modules: string[];
+    /** モジュール → 依存しているモジュール（解析ルート内のものだけ） */
+    edges: Record<string, string[]>;
+    /** モジュール → 外部パッケージ（npm パッケージ・標準ライブラリ・ルート外のファイルなど） */
+    external: Record<string, string[]>;
+    /** 循環依存（2つ以上のモジュールからなる強連結成分、または自己参照） */
+    cycles: string[][];
+    /** どこからも import されていないモジュール */
+    entryPoints: string[];
+    /** 解析ルート内のモジュールを何も import していないモジュール */
+    leaves: string[];
+    /** MAX_FILES を超えたため途中で打ち切ったか */
+    truncated: boolean;
+}
+
+/**
+ * フォルダ内の TS/JS・Python ファイルの import / require を静的に解析し、依存グラフを作る。
+ * - TS/JS: import ... from / export ... from / import() / require() の相対パスを拡張子・index 補完付きで解決
+ * - Python: import a.b / from .x import y / from a.b import c をパッケージ構成から解決
+ * 解決できないもの（パッケージ名・標準ライブラリ）は external に入れる。
+ */
+export function buildDependencyGraph(rootDir: string, matcher?: IgnoreMatcher): DependencyGraph {
+    const files: string[] = [];
+    const truncated = collectFiles(rootDir, '', matcher ?? new IgnoreMatcher(rootDir), files);
+    const moduleSet = new Set(files);
+
+    const edges: Record<string, string[]> = {};
+    const external: Record<string, string[]> = {};
+
+    for (const rel of files) {
+        let content = '';
+        try {
+            content = fs.readFileSync(path.join(rootDir, rel), 'utf8');
+        } catch (e) {
+            continue;
+        }
+
+        const internalDeps = new Set<string>();
+        const externalDeps = new Set<string>();
+        const isPython = PY_EXTENSIONS.includes(path.extname(rel));
+
+        const imports = isPython ? extractPythonImports(content) : extractJsImports(content);
+        for (const spec of imports) {
+            const resolved = isPython
+                ? resolvePythonImport(spec, rel, moduleSet)
+                : resolveJsImport(spec, rel, moduleSet);
+            if (resolved) {
+                internalDeps.add(resolved);
+            } else {
+                externalDeps.add(isPython ? spec.module || '.' : spec.module);
+            }
+        }
+
+        edges[rel] = Array.from(internalDeps).sort();
+        if (externalDeps.size > 0) {
+            external[rel] = Array.from(externalDeps).sort();
+        }
+    }
+
+    const incoming = new Map<string, number>(files.map(f => [f, 0]));
+    for (const deps of Object.values(edges)) {
+        for (const dep of deps) {
+            incoming.set(dep, (incoming.get(dep) ?? 0) + 1);
+        }
+    }
+
+    return {
+        rootDir,
+        modules: files,
+        edges,
+        external,
+        cycles: findCycles(files, edges),
+        entryPoints: files.filter(f => incoming.get(f) === 0),
+        leaves: files.filter(f => edges[f].length === 0),
+        truncated,
+    };
+}
+
+/** 解析対象ファイルを集める。上限に達したら true を返す */
+function collectFiles(rootDir: string, relDir: string, matcher: IgnoreMatcher, out: string[]): boolean {
+    let entries: fs.Dirent[] = [];
+    try {
+        entries = fs.readdirSync(path.join(rootDir, relDir), { withFileTypes: true });
+    } catch (e) {
+        return false;
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+        const rel = relDir ? `${relDir}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+            if (ALWAYS_IGNORED.includes(entry.name) || matcher.isIgnored(rel, true)) {
+                continue;
+            }
+            if (collectFiles(rootDir, rel, matcher, out)) {
+                return true;
+            }
+        } else if (entry.isFile()) {
+            const ext = path.extname(entry.name);
+            if (!JS_EXTENSIONS.includes(ext) && !PY_EXTENSIONS.includes(ext)) {
+                continue;
+            }
+            if (entry.name.endsWith('.d.ts') || matcher.isIgnored(rel, false)) {
+                continue;
+            }
+            if (out.length >= MAX_FILES) {
+                return true;
+            }
+            out.push(rel);
+        }
+    }
+    return false;
+}
+
+// ----- TS / JS -----
+
+interface ImportSpec {
+    /** import されたモジュール名（Python の相対 import では先頭のドットを除いたもの） */
+    module: string;
+    /** Python の相対 import のドットの数（TS/JS では 0） */
+    level: number;
+    /** Python の from X import a, b の a, b（サブモジュールの可能性がある名前） */
+    names: string[];
+}
+
+/** TS/JS のソースから import / require しているモジュール指定子を取り出す */
+export function extractJsImports(content: string): ImportSpec[] {
+    // コメント内の import 文を拾わないように、ブロックコメントと行頭の行コメントを消す
+    const code = content.replace(/\/\*[\s\S]*?\*\//g, '').replace(/^\s*\/\/.*$/gm, '');
+    const patterns = [
+        /\bimport\s+(?:type\s+)?(?:[\w*${}\s,]+?\s+from\s+)?['"]([^'"]+)['"]/g,
+        /\bexport\s+(?:type\s+)?(?:\*(?:\s+as\s+\w+)?|\{[^}]*\})\s+from\s+['"]([^'"]+)['"]/g,
+        /\brequire\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+        /\bimport\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+    ];
+    const found = new Set<string>();
+    for (const pattern of patterns) {
+        for (const match of code.matchAll(pattern)) {
+            found.add(match[1]);
+        }
+    }
+    return Array.from(found).map(module => ({ module, level: 0, names: [] }));
+}
+
+/** 相対パスの指定子を解析ルート内のファイルに解決する。解決できなければ null */
+function resolveJsImport(spec: ImportSpec, fromRel: string, modules: Set<string>): string | null {
+    if (!spec.module.startsWith('.')) {
+        return null;
+    }
+    const base = path.posix.normalize(path.posix.join(path.posix.dirname(fromRel), spec.module));
+    // TS の ESM では "./foo.js" と書いて foo.ts を指すことがある
+    const withoutJsExt = base.replace(/\.(js|jsx|mjs|cjs)$/, '');
+    const candidates = [
+        base,
+        ...JS_EXTENSIONS.map(ext => withoutJsExt + ext),
+        ...JS_EXTENSIONS.map(ext => `${base}/index${ext}`),
+    ];
+    return candidates.find(c => modules.has(c)) ?? null;
+}
+
+// ----- Python -----
+
+/** Python のソースから import しているモジュールを取り出す */
+export function extractPythonImports(content: string): ImportSpec[] {
+    const specs: ImportSpec[] = [];
+    // 括弧で複数行にまたがる from X import (a, b) を1行にまとめる
+    const code = content.replace(/\(\s*([^)]*?)\s*\)/g, (_m, inner: string) => inner.replace(/\s*\n\s*/g, ' '));
+
+    for (const rawLine of code.split(/\r?\n/)) {
+        const line = rawLine.replace(/#.*$/, '').trim();
+
+        const fromMatch = line.match(/^from\s+(\.*)([\w.]*)\s+import\s+(.+)$/);
+        if (fromMatch) {
+            const names = fromMatch[3].split(',')
+                .map(n => n.trim().split(/\s+as\s+/)[0].trim())
+                .filter(n => n.length > 0 && n !== '*' && n !== '(' && n !== ')');
+            specs.push({ module: fromMatch[2], level: fromMatch[1].length, names });
+            continue;
+        }
+
+        const importMatch = line.match(/^import\s+(.+)$/);
+        if (importMatch) {
+            for (const part of importMatch[1].split(',')) {
+                const module = part.trim().split(/\s+as\s+/)[0].trim();
+                if (module) {
+                    specs.push({ module, level: 0, names: [] });
+                }
+            }
+        }
+    }
+    return specs;
+}
+
+/** Python の import を解析ルート内のファイルに解決する。解決できなければ null */
+function resolvePythonImport(spec: ImportSpec, fromRel: string, modules: Set<string>): string | null {
+    const toCandidates = (dir: string, dotted: string): string[] => {
+        const base = path.posix.join(dir, ...dotted.split('.').filter(s => s.length > 0));
+        return [`${base}.py`, `${base}/__init__.py`];
+    };
+    const find = (candidates: string[]) => candidates.map(c => path.posix.normalize(c)).find(c => modules.has(c)) ?? null;
+
+    let searchDirs: string[];
+    if (spec.level > 0) {
+        // from . import x / from ..pkg import y はファイルのあるパッケージから遡る
+        let dir = path.posix.dirname(fromRel);
+        for (let i = 1; i < spec.level; i++) {
+            dir = path.posix.dirname(dir);
+        }
+        searchDirs = [dir];
+    } else {
+        // 絶対 import は解析ルートと、ファイルのあるフォルダ（スクリプト実行時の sys.path）から探す
+        searchDirs = ['.', path.posix.dirname(fromRel)];
+    }
+
+    for (const dir of searchDirs) {
+        // from pkg import submodule の場合はサブモジュールを優先する
+        for (const name of spec.names) {
+            const sub = find(toCandidates(dir, spec.module ? `${spec.module}.${name}` : name).slice(0, 1));
+            if (sub) {
+                return sub;
+            }
+        }
+        if (spec.module) {
+            const resolved = find(toCandidates(dir, spec.module));
+            if (resolved) {
+                return resolved;
+            }
+        } else {
+            const init = find([path.posix.join(dir, '__init__.py')]);
+            if (init) {
+                return init;
+            }
+        }
+    }
+    return null;
+}
+
+// ----- グラフ解析 -----
+
+/** Tarjan のアルゴリズムで強連結成分を求め、循環しているものだけを返す */
+function findCycles(nodes: string[], edges: Record<string, string[]>): string[][] {
+    let index = 0;
+    const indices = new Map<string, number>();
+    const lowlink = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const cycles: string[][] = [];
+
+    const strongConnect = (v: string) => {
+        indices.set(v, index);
+        lowlink.set(v, index);
+        index++;
+        stack.push(v);
+        onStack.add(v);
+
+        for (const w of edges[v] ?? []) {
+            if (!indices.has(w)) {
+                strongConnect(w);
+                lowlink.set(v, Math.min(lowlink.get(v)!, lowlink.get(w)!));
+            } else if (onStack.has(w)) {
+                lowlink.set(v, Math.min(lowlink.get(v)!, indices.get(w)!));
+            }
+        }
+
+        if (lowlink.get(v) === indices.get(v)) {
+            const component: string[] = [];
+            let w: string;
+            do {
+                w = stack.pop()!;
+                onStack.delete(w);
+                component.push(w);
+            } while (w !== v);
+
+            const selfLoop = component.length === 1 && (edges[v] ?? []).includes(v);
+            if (component.length > 1 || selfLoop) {
+                cycles.push(component.sort());
+            }
+        }
+    };
+
+    for (const node of nodes) {
+        if (!indices.has(node)) {
+            strongConnect(node);
+        }
+    }
+    return cycles;
+}
+
+/**
+ * 依存グラフを Mermaid の flowchart に変換する。
+ * 循環依存に含まれる辺は赤、エントリーポイントは太枠で表示する。
+ */
+export function toMermaid(graph: DependencyGraph): string {
+    const lines = ['graph LR'];
+    const ids = new Map(graph.modules.map((m, i) => [m, `m${i}`]));
+    const cycleMembers = new Map<string, number>();
+    graph.cycles.forEach((cycle, i) => cycle.forEach(m => cycleMembers.set(m, i)));
+
+    for (const module of graph.modules) {
+        lines.push(`    ${ids.get(module)}["${module.replace(/"/g, '#quot;')}"]`);
+    }
+
+    const cycleEdgeIndexes: number[] = [];
+    let edgeIndex = 0;
+    for (const module of graph.modules) {
+        for (const dep of graph.edges[module]) {
+            lines.push(`    ${ids.get(module)} --> ${ids.get(dep)}`);
+            const cycle = cycleMembers.get(module);
+            if (cycle !== undefined && cycleMembers.get(dep) === cycle) {
+                cycleEdgeIndexes.push(edgeIndex);
+            }
+            edgeIndex++;
+        }
+    }
+
+    if (graph.entryPoints.length > 0) {
+        lines.push('    classDef entry stroke-width:3px');
+        lines.push(`    class ${graph.entryPoints.map(m => ids.get(m)).join(',')} entry`);
+    }
+    if (cycleEdgeIndexes.length > 0) {
+        lines.push(`    linkStyle ${cycleEdgeIndexes.join(',')} stroke:#e5534b,stroke-width:2px`);
+    }
+    return lines.join('\n') + '\n';
+}
+
+/** LLM に渡す構造化コンテキスト（JSON） */
+export function toLlmContext(graph: DependencyGraph): string {
+    return JSON.stringify({
+        modules: graph.modules,
+        dependencies: graph.edges,
+        externalPackages: graph.external,
+        cycles: graph.cycles,
+        entryPoints: graph.entryPoints,
+        leafModules: graph.leaves,
+        truncated: graph.truncated,
+    }, null, 2);
+}
+
+/**
+ * 1ファイルを中心にした部分グラフ（そのファイル・直接の依存先・直接の依存元）を返す。
+ */
+export function focusOn(graph: DependencyGraph, module: string): DependencyGraph {
+    const keep = new Set<string>([module, ...(graph.edges[module] ?? [])]);
+    for (const [from, deps] of Object.entries(graph.edges)) {
+        if (deps.includes(module)) {
+            keep.add(from);
+        }
+    }
+    const modules = graph.modules.filter(m => keep.has(m));
+    const edges: Record<string, string[]> = {};
+    for (const m of modules) {
+        edges[m] = graph.edges[m].filter(d => keep.has(d) && (m === module || d === module));
+    }
+    return {
+        ...graph,
+        modules,
+        edges,
+        external: module in graph.external ? { [module]: graph.external[module] } : {},
+        cycles: graph.cycles.filter(c => c.includes(module)),
+        entryPoints: graph.entryPoints.filter(m => keep.has(m)),
+        leaves: graph.leaves.filter(m => keep.has(m)),
+    };
+}
@@ -2,9 +2,17 @@
 import * as vscode from 'vscode';
 import { JSDOM } from 'jsdom';
 import TurndownService from 'turndown';
+import { isAbortError } from './cancellation';
+import { OfflineDocStore, DevDocsIndexEntry, parseOfflineUrl, toOfflineUrl } from './offlineDocStore';
+import { rankEntries, SearchContext } from './symbolRanker';
+import { DocSource } from './docSources/docSource';
+import { createDocSources, getSourceOrder } from './docSources/docSourceFactory';
+import { WorkspaceFolderService } from './workspaceFolderService';
 
 const MDN_BASE_URL = 'https://developer.mozilla.org';
 const MDN_SEARCH_API = `${MDN_BASE_URL}/api/v1/search`;
+//MDNで検索する言語
+const MDN_LANGUAGES = ['javascript', 'typescript', 'html', 'css'];
 //devDocsから対応言語を選抜
 const devDocsSlugs: Record<string, string> = {
     'python': 'python~3.14',
@@ -22,17 +30,62 @@ const devDocsSlugs: Record<string, string> = {
     'vue': 'vue~3',
 }
 
+//オフライン時に MDN の代わりに引く DevDocs の docset（DevDocs が MDN から変換したもの）
+const mdnOfflineSlugs: Record<string, string[]> = {
+    'javascript': ['javascript', 'dom'],
+    'typescript': ['typescript', 'javascript', 'dom'],
+    'html': ['html'],
+    'css': ['css'],
+};
+
+/** ドキュメント検索に対応している languageId の一覧（MDN + DevDocs） */
+export function getSupportedLanguages(): string[] {
+    return [...MDN_LANGUAGES, ...Object.keys(devDocsSlugs)];
+}
+
+/** オフライン用にダウンロードできる docset の一覧（slug → 使う languageId） */
+export function getOfflineDocsets(): { slug: string; languages: string[] }[] {
+    const languagesBySlug = new Map<string, string[]>();
+    const add = (slug: string, language: string) => languagesBySlug.set(slug, [...(languagesBySlug.get(slug) ?? []), language]);
+    for (const [language, slugs] of Object.entries(mdnOfflineSlugs)) {
+        slugs.forEach(slug => add(slug, language));
+    }
+    for (const [language, slug] of Object.entries(devDocsSlugs)) {
+        add(slug, language);
+    }
+    return Array.from(languagesBySlug, ([slug, languages]) => ({ slug, languages }));
+}
+
+/** MDN のページ URL から分類を作る（/docs/Web/JavaScript/Reference/Global_Objects/Array/map → Global_Objects/Array） */
+function mdnType(mdnUrl: string): string {
+    return mdnUrl.split('/').filter(s => s.length > 0).slice(-3, -1).join('/');
+}
+
 export interface DocSearchResult {
     title: string;
     url: string;
     htmlUrl?: string;
     summary: string;
+    /** エントリの分類（DevDocs の type、MDN は URL の親ディレクトリ） */
+    type?: string;
+    /** symbolRanker の点数 */
+    score?: number;
+    /** ローカルのソース（JSDoc・pydoc・man）が読み取り済みの本文（Markdown）。あれば fetchContent しない */
+    content?: string;
 }
 
 export class DocService {
     private turndownService: TurndownService;
+    private offlineStore: OfflineDocStore | undefined;
+    private workspaceFolders: WorkspaceFolderService;
+    /** web（MDN / DevDocs）以外のドキュメントソース */
+    private sources: DocSource[] = createDocSources();
+    /** ネットワークから取得した DevDocs の index（クエリごとに取り直さない） */
+    private devDocsIndexes = new Map<string, DevDocsIndexEntry[]>();
 
-    constructor() {
+    constructor(workspaceFolders: WorkspaceFolderService, offlineStore?: OfflineDocStore) {
+        this.workspaceFolders = workspaceFolders;
+        this.offlineStore = offlineStore;
         this.turndownService = new TurndownService();
         // Configure turndown to keep code blocks and remove mostly clutter
         this.turndownService.addRule('remove-hidden', {
@@ -46,11 +99,86 @@ export class DocService {
     }
 
     /**
-     * Search MDN for the given keyword/query.
-     * Returns the top result or null if not found.
+     * Search the documentation for the given keyword/query.
+     * Returns the best-ranked result or null if not found.
+     */
+    async search(query: string, language: string, signal?: AbortSignal, context: SearchContext = {}): Promise<DocSearchResult | null> {
+        return (await this.searchCandidates(query, language, context, signal))[0] ?? null;
+    }
+
+    /**
+     * 検索語に当たるページを点数の高い順に返す（エディタの文脈とエントリの type を加味して順位付けする）。
+     * docmate.docSources の順にソースを試し、検索語と一致する結果が見つかったソースの結果を返す。
+     * どのソースでも一致しなければ、弱い候補（MDN の本文一致など）を返す。
      */
+    async searchCandidates(query: string, language: string, context: SearchContext = {}, signal?: AbortSignal): Promise<DocSearchResult[]> {
+        const order = getSourceOrder(language).filter(id => {
+            if (id === 'web') {
+                return getSupportedLanguages().includes(language);
+            }
+            const source = this.sources.find(s => s.id === id);
+            // 制限モードでは、コードを実行するソース（pydoc）を使わない
+            return source?.supports(language) && (vscode.workspace.isTrusted || !source.requiresTrust);
+        });
+        if (order.length === 0) {
+            throw new Error(`Language "${language}" is not supported.`);
+        }
+
+        const weakResults: DocSearchResult[] = [];
+        let lastError: unknown;
+        for (const id of order) {
+            let results: DocSearchResult[];
+            try {
+                results = id === 'web'
+                    ? await this.searchWeb(query, language, context, signal)
+                    : await this.sources.find(s => s.id === id)!.search({
+                        keyword: query,
+                        language,
+                        context,
+                        workspaceRoot: this.workspaceFolders.getActiveFolder()?.uri.fsPath,
+                        signal
+                    });
+            } catch (error) {
+                if (isAbortError(error)) {
+                    throw error;
+                }
+                // オフラインで docset が無い場合など。ローカルのソースで見つかる可能性があるので続ける
+                console.error(`[DocSources] ${id} failed:`, error);
+                lastError = error;
+                continue;
+            }
+            if (results.some(r => (r.score ?? 0) > 0)) {
+                console.log(`[DocSources] Found "${query}" in ${id}`);
+                return results;
+            }
+            weakResults.push(...results);
+        }
+        if (weakResults.length === 0 && lastError) {
+            throw lastError;
+        }
+        return weakResults;
+    }
+
+    /**
+     * MDN / DevDocs から探す（docSources の "web"）。
+     * ダウンロード済みの docset があればまずローカルで探し、無ければ MDN / DevDocs に問い合わせる。
+     */
+    private async searchWeb(query: string, language: string, context: SearchContext, signal?: AbortSignal): Promise<DocSearchResult[]> {
+        // ダウンロード済みの docset があれば、まずローカルで探す
+        const offlineResults = this.searchOffline(query, language, context);
+        if (offlineResults.length > 0) {
+            return offlineResults;
+        }
+        if (!this.isNetworkAllowed()) {
+            if (!getSupportedLanguages().includes(language)) {
+                throw new Error(`Language "${language}" is not supported.`);
+            }
+            if (this.offlineSlugsFor(language).some(s => this.offlineStore?.has(s))) {
+                return [];
+            }
+            throw new Error(`オフラインドキュメントに ${language} の docset がありません。「DocMate: Download Offline Docs」でダウンロードするか、docmate.offline.allowNetwork を有効にしてください。`);
+        }
 
-    async search(query: string, language: string): Promise<DocSearchResult | null> {
         const slug = devDocsSlugs[language];
         //MDNで対応している言語はMDNで検索、それ以外はdevDocsで検索
         switch (language) {
@@ -62,57 +190,52 @@ export class DocService {
                     const searchUrl = `${MDN_SEARCH_API}?q=${encodeURIComponent(query)}`;
                     console.log(`Searching MDN: ${searchUrl}`);
 
-                    const response = await fetch(searchUrl);
+                    const response = await fetch(searchUrl, { signal });
                     if (!response.ok) {
                         console.error(`MDN Search failed: ${response.status} ${response.statusText}`);
-                        return null;
+                        return [];
                     }
 
                     const data = await response.json() as any;
-                    if (data.documents && data.documents.length > 0) {
-                        const topDoc = data.documents[0];
-                        return {
-                            title: topDoc.title,
-                            url: `${MDN_BASE_URL}${topDoc.mdn_url}`,
-                            htmlUrl: `${MDN_BASE_URL}${topDoc.mdn_url}`,
-                            summary: topDoc.summary
-                        };
-                    }
-
-                    return null;
+                    const documents = (data.documents ?? []) as { title: string; mdn_url: string; summary: string }[];
+                    const ranked = rankEntries(query, documents, doc => ({ name: doc.title, type: mdnType(doc.mdn_url) }), context);
+                    // 本文だけが一致してタイトルが検索語と関係ないものしか無い場合は、MDN の関連度順のまま使う
+                    const ordered = ranked.length > 0 ? ranked : documents.slice(0, 10).map(entry => ({ entry, score: 0 }));
+                    return ordered.map(({ entry, score }) => ({
+                        title: entry.title,
+                        url: `${MDN_BASE_URL}${entry.mdn_url}`,
+                        htmlUrl: `${MDN_BASE_URL}${entry.mdn_url}`,
+                        summary: entry.summary,
+                        type: mdnType(entry.mdn_url),
+                        score
+                    }));
                 } catch (error) {
+                    if (isAbortError(error)) {
+                        throw error;
+                    }
                     console.error('Error searching MDN:', error);
-                    return null;
+                    return [];
                 }
             default:
                 if (slug) {
                     try {
-                        const indexUrl = `https://devdocs.io/docs/${slug}/index.json`;
-                        console.log(`[DevDocs] Fetching index for ${language}: ${indexUrl}`);
-                        const res = await fetch(indexUrl);
-                        if (!res.ok) {
-                            console.error(`DevDocs index search failed: ${res.status}`);
-                            return null;
+                        let entries = this.devDocsIndexes.get(slug);
+                        if (!entries) {
+                            const indexUrl = `https://devdocs.io/docs/${slug}/index.json`;
+                            console.log(`[DevDocs] Fetching index for ${language}: ${indexUrl}`);
+                            const res = await fetch(indexUrl, { signal });
+                            if (!res.ok) {
+                                console.error(`DevDocs index search failed: ${res.status}`);
+                                return [];
+                            }
+                            entries = ((await res.json() as any).entries ?? []) as DevDocsIndexEntry[];
+                            this.devDocsIndexes.set(slug, entries);
                         }
 
                         //対応するメソッドやクラスを検索
-                        const index = await res.json() as any;
-                        const entry = index.entries.find((e: any) =>
-                            e.name === query || e.name === `${query}()` || e.name.startsWith(query)
-                        );
-
-                        if (entry) {
-                            const [pagePath, hash] = entry.path.split('#');
-                            // ユーザーが見るURL
-                            const userUrl = `https://devdocs.io/${slug}/${pagePath}${hash ? '#' + hash : ''}`;
-                            // AIに投げる用のHTML
-                            const htmlUrl = `https://documents.devdocs.io/${slug}/${pagePath}.html${hash ? '#' + hash : ''}`;
-                            return {
-                                title: entry.name,
-                                url: userUrl,
-                                htmlUrl: htmlUrl,
-                                summary: `Documentation from DevDocs for ${language}`
-                            };
+                        const results = this.rankDevDocs(query, slug, entries, language, context, false);
+                        if (results.length > 0) {
+                            return results;
                         }
 
                         // FALLBACK: If React/JSX/TSX doesnt find the keyword in DevDocs (e.g. 'const', 'map'),
@@ -120,13 +243,16 @@ export class DocService {
                         if (language === 'javascriptreact' || language === 'typescriptreact' || language === 'vue') {
                             console.log(`[Fallback] Keyword "${query}" not found in React/Vue docs. Searching MDN for JS/TS instead.`);
                             // Call this same search method recursively, but pretending we are just 'javascript' (or 'typescript')
-                            return await this.search(query, language === 'typescriptreact' ? 'typescript' : 'javascript');
+                            return await this.searchWeb(query, language === 'typescriptreact' ? 'typescript' : 'javascript', context, signal);
                         }
 
-                        return null;
+                        return [];
                     } catch (error) {
+                        if (isAbortError(error)) {
+                            throw error;
+                        }
                         console.error('Error searching DevDocs:', error);
-                        return null;
+                        return [];
                     }
                 }
                 //対応していない場合
@@ -134,19 +260,98 @@ export class DocService {
         }
     }
 
+    /** DevDocs の index を順位付けして検索結果にする。offline なら本文はローカルの db.json から読む */
+    private rankDevDocs(
+        query: string,
+        slug: string,
+        entries: DevDocsIndexEntry[],
+        language: string,
+        context: SearchContext,
+        offline: boolean
+    ): DocSearchResult[] {
+        return rankEntries(query, entries, entry => ({ name: entry.name, type: entry.type }), context).map(({ entry, score }) => {
+            const [pagePath, hash] = entry.path.split('#');
+            return {
+                title: entry.name,
+                // ユーザーが見るURL
+                url: `https://devdocs.io/${slug}/${pagePath}${hash ? '#' + hash : ''}`,
+                // AIに投げる用のHTML
+                htmlUrl: offline
+                    ? toOfflineUrl(slug, entry.path)
+                    : `https://documents.devdocs.io/${slug}/${pagePath}.html${hash ? '#' + hash : ''}`,
+                summary: `Documentation from DevDocs for ${language}${offline ? ' (offline)' : ''}`,
+                type: entry.type,
+                score
+            };
+        });
+    }
+
+    /**
+     * ダウンロード済みの docset から検索する。docset が無い・見つからなければ空配列。
+     * React / Vue の docset に加えて、ネットワーク検索と同じく JavaScript / TypeScript の docset も探す。
+     */
+    private searchOffline(query: string, language: string, context: SearchContext): DocSearchResult[] {
+        if (!this.offlineStore) {
+            return [];
+        }
+        const results: DocSearchResult[] = [];
+        for (const slug of this.offlineSlugsFor(language)) {
+            const entries = this.offlineStore.getIndex(slug);
+            if (entries) {
+                results.push(...this.rankDevDocs(query, slug, entries, language, context, true));
+            }
+        }
+        if (results.length > 0) {
+            console.log(`[OfflineDocs] Found ${results.length} candidates for "${query}"`);
+        }
+        return results.sort((a, b) => (b.score ?? 0) - (a.score ?? 0)).slice(0, 10);
+    }
+
+    /** language をオフラインで引くときに探す docset（優先順） */
+    private offlineSlugsFor(language: string): string[] {
+        const slugs = mdnOfflineSlugs[language] ?? (devDocsSlugs[language] ? [devDocsSlugs[language]] : []);
+        if (language === 'javascriptreact' || language === 'vue') {
+            return [...slugs, ...mdnOfflineSlugs['javascript']];
+        }
+        if (language === 'typescriptreact') {
+            return [...slugs, ...mdnOfflineSlugs['typescript']];
+        }
+        return slugs;
+    }
+
+    private isNetworkAllowed(): boolean {
+        return vscode.workspace.getConfiguration('docmate').get<boolean>('offline.allowNetwork', true);
+    }
+
+    /** ページの HTML を、オフライン URL ならローカルの db.json から、それ以外はネットワークから取得する */
+    private async loadHtml(url: string, signal?: AbortSignal): Promise<string> {
+        const offline = parseOfflineUrl(url);
+        if (offline) {
+            const html = this.offlineStore?.getPage(offline.slug, offline.pagePath);
+            if (typeof html !== 'string') {
+                throw new Error(`オフラインドキュメントにページが見つかりません: ${offline.slug}/${offline.pagePath}`);
+            }
+            return html;
+        }
+        if (!this.isNetworkAllowed()) {
+            throw new Error(`ネットワークアクセスが無効のため取得できません: ${url}（docmate.offline.allowNetwork）`);
+        }
+
+        console.log(`Fetching content from: ${url}`);
+        const response = await fetch(url, { signal });
+        if (!response.ok) {
+            throw new Error(`Failed to fetch content: ${response.status}`);
+        }
+        return response.text();
+    }
+
     /**
      * Fetch and parse the content of the documentation page.
      * Returns Markdown string.
      */
-    async fetchContent(url: string): Promise<string> {
+    async fetchContent(url: string, signal?: AbortSignal): Promise<string> {
         try {
-            console.log(`Fetching content from: ${url}`);
-            const response = await fetch(url);
-            if (!response.ok) {
-                throw new Error(`Failed to fetch content: ${response.status}`);
-            }
-
-            const html = await response.text();
+            const html = await this.loadHtml(url, signal);
             const dom = new JSDOM(html);
             const doc = dom.window.document;
 
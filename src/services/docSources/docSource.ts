@@ -0,0 +1,40 @@
+import { DocSearchResult } from '../docService';
+import { SearchContext } from '../symbolRanker';
+
+/**
+ * docmate.docSources で指定できるドキュメントソース。
+ * - web:   MDN / DevDocs（ダウンロード済みのオフライン docset を含む）
+ * - jsdoc: ワークスペースのソースの JSDoc/TSDoc と node_modules の .d.ts
+ * - pydoc: インストール済みの Python モジュールの docstring（python -m pydoc）
+ * - man:   ローカルの man ページ（C の標準ライブラリ・システムコール）
+ */
+export type DocSourceId = 'web' | 'jsdoc' | 'pydoc' | 'man';
+
+/** ドキュメントソースへの問い合わせ */
+export interface DocSourceRequest {
+    keyword: string;
+    language: string;
+    context: SearchContext;
+    /** ワークスペースのルート（ローカルのファイルを探すソースが使う） */
+    workspaceRoot?: string;
+    signal?: AbortSignal;
+}
+
+/**
+ * ドキュメントソースの共通インターフェース。
+ * 返す DocSearchResult に content（Markdown）を入れておくと、DocService.fetchContent を通さずに
+ * そのまま要約 → 実行 → Webview の流れに乗る。
+ */
+export interface DocSource {
+    readonly id: DocSourceId;
+    /** 表示名（QuickPick・ログ用） */
+    readonly name: string;
+    /** true ならワークスペースが信頼されていない場合（制限モード）は使わない */
+    readonly requiresTrust?: boolean;
+
+    /** この languageId のドキュメントを探せるか */
+    supports(language: string): boolean;
+
+    /** 見つからなければ空配列。点数（score）の高い順に返す */
+    search(request: DocSourceRequest): Promise<DocSearchResult[]>;
+}
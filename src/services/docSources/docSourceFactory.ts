@@ -0,0 +1,38 @@
+import * as vscode from 'vscode';
+import { DocSource, DocSourceId } from './docSource';
+import { JsDocSource } from './jsDocSource';
+import { PydocSource } from './pydocSource';
+import { ManPageSource } from './manPageSource';
+
+const SOURCE_IDS: DocSourceId[] = ['web', 'jsdoc', 'pydoc', 'man'];
+
+/**
+ * 言語ごとの既定の検索順。
+ * web（MDN / DevDocs）で見つからなかったときに、ローカルのソースで補う順にしている。
+ * C は man の方が手元の libc に合っているので先に引く。
+ */
+const DEFAULT_SOURCE_ORDER: Record<string, DocSourceId[]> = {
+    javascript: ['web', 'jsdoc'],
+    typescript: ['web', 'jsdoc'],
+    javascriptreact: ['web', 'jsdoc'],
+    typescriptreact: ['web', 'jsdoc'],
+    vue: ['web', 'jsdoc'],
+    python: ['web', 'pydoc'],
+    c: ['man', 'web'],
+    cpp: ['web', 'man'],
+};
+
+/** web 以外のドキュメントソースを生成する（web は DocService 自身が扱う） */
+export function createDocSources(): DocSource[] {
+    return [new JsDocSource(), new PydocSource(), new ManPageSource()];
+}
+
+/**
+ * language で試すソースの順番。
+ * docmate.docSources の言語別の設定 → "*" の設定 → 既定の順、の優先度で決める。
+ */
+export function getSourceOrder(language: string): DocSourceId[] {
+    const configured = vscode.workspace.getConfiguration('docmate').get<Record<string, string[]>>('docSources') ?? {};
+    const order = configured[language] ?? configured['*'] ?? DEFAULT_SOURCE_ORDER[language] ?? ['web'];
+    return Array.from(new Set(order.filter((id): id is DocSourceId => SOURCE_IDS.includes(id as DocSourceId))));
+}
@@ -0,0 +1,291 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { DocSearchResult } from '../docService';
+import { IgnoreMatcher } from '../ignoreMatcher';
+import { scoreEntry } from '../symbolRanker';
+import { DocSource, DocSourceRequest } from './docSource';
+
+const LANGUAGES = ['javascript', 'typescript', 'javascriptreact', 'typescriptreact', 'vue'];
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts'];
+/** ワークスペースで走査するファイル数・1パッケージで読む .d.ts の数の上限 */
+const MAX_WORKSPACE_FILES = 3000;
+const MAX_PACKAGE_TYPINGS = 200;
+const MAX_FILE_BYTES = 1024 * 1024;
+const MAX_RESULTS = 10;
+
+/** ソース中で見つかった宣言 */
+export interface DocumentedDeclaration {
+    /** 1始まりの行番号 */
+    line: number;
+    /** 宣言の行（複数行にまたがる場合は { か ; まで） */
+    signature: string;
+    /** 直前の JSDoc/TSDoc（/** と *\/ を除いた本文）。無ければ空文字 */
+    doc: string;
+}
+
+/**
+ * content の中から name の宣言を探す。
+ * function / class / interface / type / enum / const などはコメントが無くても拾い、
+ * クラス・インターフェースのメンバー（name( や name: の形）は .d.ts か JSDoc 付きのものだけ拾う。
+ */
+export function findDeclarations(content: string, name: string, isDeclarationFile: boolean): DocumentedDeclaration[] {
+    const escaped = name.replace(/[$]/g, '\\$');
+    const keywordForm = new RegExp(`^\\s*(?:export\\s+)?(?:default\\s+)?(?:declare\\s+)?(?:abstract\\s+)?(?:async\\s+)?(?:function\\*?\\s+|class\\s+|interface\\s+|type\\s+|enum\\s+|namespace\\s+|(?:const|let|var)\\s+)${escaped}\\b`);
+    const memberForm = new RegExp(`^\\s*(?:(?:public|private|protected|static|readonly|abstract|async|declare|get|set)\\s+)*${escaped}\\s*(?:<[^>]*>)?\\s*[(:?]`);
+
+    const lines = content.split(/\r?\n/);
+    const results: DocumentedDeclaration[] = [];
+    for (let i = 0; i < lines.length; i++) {
+        const isKeywordForm = keywordForm.test(lines[i]);
+        if (!isKeywordForm && !memberForm.test(lines[i])) {
+            continue;
+        }
+
+        const doc = extractDocComment(lines, i);
+        if (!isKeywordForm && !doc && !isDeclarationFile) {
+            continue;
+        }
+
+        results.push({ line: i + 1, signature: extractSignature(lines, i), doc });
+    }
+    return results;
+}
+
+/** i 行目の直前（デコレータを飛ばす）にある /** ... *\/ の本文 */
+function extractDocComment(lines: string[], i: number): string {
+    let end = i - 1;
+    while (end >= 0 && /^\s*@\w/.test(lines[end])) {
+        end--;
+    }
+    if (end < 0 || !lines[end].trim().endsWith('*/')) {
+        return '';
+    }
+    let start = end;
+    while (start >= 0 && !lines[start].includes('/**')) {
+        // 通常のブロックコメント（/*）に当たったら JSDoc ではない
+        if (lines[start].includes('/*') || start < end - 200) {
+            return '';
+        }
+        start--;
+    }
+    if (start < 0) {
+        return '';
+    }
+    return lines.slice(start, end + 1)
+        .join('\n')
+        .replace(/^\s*\/\*\*\s?/, '')
+        .replace(/\s*\*\/\s*$/, '')
+        .split('\n')
+        .map(line => line.replace(/^\s*\* ?/, ''))
+        .join('\n')
+        .trim();
+}
+
+/** 宣言の行から { か ; までを取り出す（最大8行） */
+function extractSignature(lines: string[], i: number): string {
+    const signature: string[] = [];
+    for (let j = i; j < Math.min(lines.length, i + 8); j++) {
+        signature.push(lines[j]);
+        if (/[{;]\s*$/.test(lines[j]) || /=>/.test(lines[j])) {
+            break;
+        }
+    }
+    const indent = signature[0].match(/^\s*/)![0].length;
+    return signature.map(l => l.substring(Math.min(indent, l.match(/^\s*/)![0].length))).join('\n').replace(/\s*\{\s*$/, '').trim();
+}
+
+/** JSDoc の本文を Markdown にする（@param / @returns / @example などのタグを整形） */
+export function jsDocToMarkdown(doc: string): string {
+    const [description, ...tagBlocks] = doc.split(/\n(?=@)|^(?=@)/);
+    const sections: string[] = [];
+    if (description && !description.startsWith('@')) {
+        sections.push(description.trim());
+    } else if (description) {
+        tagBlocks.unshift(description);
+    }
+
+    const params: string[] = [];
+    for (const block of tagBlocks) {
+        const match = block.match(/^@(\w+)\s*([\s\S]*)$/);
+        if (!match) {
+            continue;
+        }
+        const [, tag, body] = match;
+        switch (tag) {
+            case 'param':
+            case 'arg':
+            case 'argument': {
+                const param = body.match(/^(?:\{([^}]*)\}\s*)?(\[?[\w$.]+(?:=[^\]]*)?\]?)\s*(?:-\s*)?([\s\S]*)$/);
+                params.push(param
+                    ? `- \`${param[2]}\`${param[1] ? ` (${param[1]})` : ''}: ${param[3].trim()}`
+                    : `- ${body.trim()}`);
+                break;
+            }
+            case 'returns':
+            case 'return':
+                sections.push(`**Returns:** ${body.replace(/^\{([^}]*)\}/, '`$1`').trim()}`);
+                break;
+            case 'example':
+                sections.push(`**Example:**\n\n\`\`\`\n${body.replace(/^```\w*\n?|```\s*$/g, '').trim()}\n\`\`\``);
+                break;
+            case 'deprecated':
+                sections.push(`**Deprecated:** ${body.trim()}`);
+                break;
+            default:
+                sections.push(`**@${tag}** ${body.trim()}`);
+        }
+    }
+    if (params.length > 0) {
+        sections.splice(1, 0, `**Parameters:**\n\n${params.join('\n')}`);
+    }
+    return sections.join('\n\n');
+}
+
+/**
+ * JSDoc/TSDoc ソース。
+ * 1. ファイルで import しているパッケージの型定義（node_modules/<pkg> の types / @types/<pkg>）
+ * 2. ワークスペースのソースファイル
+ * の順に宣言を探し、シグネチャとドキュメントコメントを Markdown にして返す。
+ */
+export class JsDocSource implements DocSource {
+    readonly id = 'jsdoc';
+    readonly name = 'JSDoc / TypeScript typings';
+
+    supports(language: string): boolean {
+        return LANGUAGES.includes(language);
+    }
+
+    async search(request: DocSourceRequest): Promise<DocSearchResult[]> {
+        if (!request.workspaceRoot) {
+            return [];
+        }
+        // "lodash.debounce" や "Foo.bar" は最後の名前で探し、修飾子は順位付けに使う
+        const name = request.keyword.split(/[.#]/).pop()!.replace(/\(\)$/, '');
+        if (!/^[\w$]+$/.test(name)) {
+            return [];
+        }
+
+        const results: DocSearchResult[] = [];
+        const addMatches = async (filePath: string, label: string) => {
+            let content: string;
+            try {
+                if ((await fs.promises.stat(filePath)).size > MAX_FILE_BYTES) {
+                    return;
+                }
+                content = await fs.promises.readFile(filePath, 'utf8');
+            } catch (e) {
+                return;
+            }
+            const isDeclarationFile = /\.d\.[mc]?ts$/.test(filePath);
+            for (const decl of findDeclarations(content, name, isDeclarationFile)) {
+                const location = `${label}:${decl.line}`;
+                const score = scoreEntry(request.keyword, name, location, request.context) + (decl.doc ? 5 : 0);
+                results.push({
+                    title: name,
+                    url: `${pathToFileURL(filePath).href}#L${decl.line}`,
+                    summary: decl.doc.split('\n')[0] ?? '',
+                    type: location,
+                    score,
+                    content: `# ${name}\n\n_${location}_\n\n\`\`\`${isDeclarationFile || /\.tsx?$/.test(filePath) ? 'typescript' : 'javascript'}\n${decl.signature}\n\`\`\`\n\n${decl.doc ? jsDocToMarkdown(decl.doc) : ''}`.trim(),
+                });
+            }
+        };
+
+        for (const pkg of this.importedPackages(request.context.imports ?? [])) {
+            request.signal?.throwIfAborted();
+            for (const typingsFile of await this.findPackageTypings(request.workspaceRoot, pkg)) {
+                await addMatches(typingsFile, path.relative(request.workspaceRoot, typingsFile).split(path.sep).join('/'));
+            }
+        }
+
+        // 拡張機能ホストを止めないよう、走査と読み込みは非同期で行う
+        const files: string[] = [];
+        await this.collectSourceFiles(request.workspaceRoot, '', new IgnoreMatcher(request.workspaceRoot), files, request.signal);
+        for (const rel of files) {
+            request.signal?.throwIfAborted();
+            await addMatches(path.join(request.workspaceRoot, rel), rel);
+        }
+
+        return results.sort((a, b) => (b.score ?? 0) - (a.score ?? 0)).slice(0, MAX_RESULTS);
+    }
+
+    /** import 文のモジュール名からパッケージ名を取り出す（"@scope/pkg/sub" → "@scope/pkg"） */
+    private importedPackages(imports: string[]): string[] {
+        const packages = imports
+            .filter(m => !m.startsWith('.') && !m.startsWith('/') && !m.startsWith('node:'))
+            .map(m => m.startsWith('@') ? m.split('/').slice(0, 2).join('/') : m.split('/')[0]);
+        return Array.from(new Set(packages));
+    }
+
+    /** パッケージの .d.ts 一覧（package.json の types/typings のフォルダ、無ければ @types/<pkg>） */
+    private async findPackageTypings(workspaceRoot: string, pkg: string): Promise<string[]> {
+        const candidates = [
+            path.join(workspaceRoot, 'node_modules', pkg),
+            path.join(workspaceRoot, 'node_modules', '@types', pkg.startsWith('@') ? pkg.substring(1).replace('/', '__') : pkg),
+        ];
+        for (const dir of candidates) {
+            if (!fs.existsSync(dir)) {
+                continue;
+            }
+            const files: string[] = [];
+            let typesDir = dir;
+            try {
+                const manifest = JSON.parse(await fs.promises.readFile(path.join(dir, 'package.json'), 'utf8'));
+                const types = manifest.types ?? manifest.typings;
+                if (typeof types === 'string') {
+                    typesDir = path.dirname(path.join(dir, types));
+                }
+            } catch (e) { }
+            await this.collectTypings(typesDir, files);
+            if (files.length > 0) {
+                return files;
+            }
+        }
+        return [];
+    }
+
+    private async collectTypings(dir: string, out: string[]): Promise<void> {
+        let entries: fs.Dirent[] = [];
+        try {
+            entries = await fs.promises.readdir(dir, { withFileTypes: true });
+        } catch (e) {
+            return;
+        }
+        for (const entry of entries) {
+            if (out.length >= MAX_PACKAGE_TYPINGS) {
+                return;
+            }
+            const fullPath = path.join(dir, entry.name);
+            if (entry.isDirectory() && entry.name !== 'node_modules') {
+                await this.collectTypings(fullPath, out);
+            } else if (entry.isFile() && /\.d\.[mc]?ts$/.test(entry.name)) {
+                out.push(fullPath);
+            }
+        }
+    }
+
+    private async collectSourceFiles(rootDir: string, relDir: string, matcher: IgnoreMatcher, out: string[], signal?: AbortSignal): Promise<void> {
+        signal?.throwIfAborted();
+        let entries: fs.Dirent[] = [];
+        try {
+            entries = await fs.promises.readdir(path.join(rootDir, relDir), { withFileTypes: true });
+        } catch (e) {
+            return;
+        }
+        for (const entry of entries) {
+            if (out.length >= MAX_WORKSPACE_FILES) {
+                return;
+            }
+            const rel = relDir ? `${relDir}/${entry.name}` : entry.name;
+            if (entry.isDirectory()) {
+                if (['node_modules', 'out', 'dist', 'build'].includes(entry.name) || matcher.isIgnored(rel, true)) {
+                    continue;
+                }
+                await this.collectSourceFiles(rootDir, rel, matcher, out, signal);
+            } else if (entry.isFile() && SOURCE_EXTENSIONS.includes(path.extname(entry.name)) && !matcher.isIgnored(rel, false)) {
+                out.push(rel);
+            }
+        }
+    }
+}
@@ -0,0 +1,73 @@
+import { execFile } from 'child_process';
+import { DocSearchResult } from '../docService';
+import { isAbortError } from '../cancellation';
+import { DocSource, DocSourceRequest } from './docSource';
+
+const MAN_TIMEOUT_MS = 10000;
+/** 探すセクション（ライブラリ関数 → システムコール → POSIX） */
+const SECTIONS = ['3', '2', '3p'];
+const MAX_CONTENT_LENGTH = 20000;
+
+/** man の出力から重ね打ち（太字・下線）と ANSI エスケープを取り除く */
+export function stripManFormatting(text: string): string {
+    return text
+        .replace(/\x1b\[[0-9;]*m/g, '')
+        .replace(/.\x08/g, '');
+}
+
+function runMan(section: string, name: string, signal?: AbortSignal): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+        execFile('man', ['-P', 'cat', section, name], {
+            timeout: MAN_TIMEOUT_MS,
+            maxBuffer: 4 * 1024 * 1024,
+            signal,
+            env: { ...process.env, MANPAGER: 'cat', PAGER: 'cat', MANWIDTH: '100' },
+        }, (error, stdout) => {
+            if (error && isAbortError(error)) {
+                reject(error);
+                return;
+            }
+            // ページが無い場合は終了コード 16、man 自体が無い場合は ENOENT
+            resolve(error || !stdout.toString().trim() ? null : stripManFormatting(stdout.toString()));
+        });
+    });
+}
+
+/**
+ * man ページソース。C / C++ の標準ライブラリ関数・システムコールをローカルの man ページから読む。
+ * Windows には man が無いので対象外。
+ */
+export class ManPageSource implements DocSource {
+    readonly id = 'man';
+    readonly name = 'man pages';
+
+    supports(language: string): boolean {
+        return process.platform !== 'win32' && (language === 'c' || language === 'cpp');
+    }
+
+    async search(request: DocSourceRequest): Promise<DocSearchResult[]> {
+        // std::printf → printf
+        const name = request.keyword.split('::').pop()!.replace(/\(\)$/, '');
+        if (!/^\w+$/.test(name)) {
+            return [];
+        }
+
+        for (const section of SECTIONS) {
+            const text = await runMan(section, name, request.signal);
+            if (!text) {
+                continue;
+            }
+
+            const body = text.length > MAX_CONTENT_LENGTH ? text.substring(0, MAX_CONTENT_LENGTH) + '\n...' : text;
+            return [{
+                title: `${name}(${section})`,
+                url: `man:${name}(${section})`,
+                summary: `man page ${name}(${section})`,
+                type: `man(${section})`,
+                score: 100,
+                content: `# ${name}(${section})\n\n\`\`\`text\n${body.trimEnd()}\n\`\`\``,
+            }];
+        }
+        return [];
+    }
+}
@@ -0,0 +1,95 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DocSearchResult } from '../docService';
+import { isAbortError } from '../cancellation';
+import { DocSource, DocSourceRequest } from './docSource';
+
+const PYDOC_TIMEOUT_MS = 10000;
+/** 要約に渡す docstring の最大文字数（巨大なモジュールの help を丸ごと渡さない） */
+const MAX_CONTENT_LENGTH = 20000;
+
+/**
+ * python -m pydoc <name> を実行する。ドキュメントが無い・実行できない場合は null。
+ * pydoc は対象を import するため、ワークスペースのモジュールを読み込まないよう空の一時ディレクトリをカレントにする
+ * （-m はカレントを sys.path の先頭に加える）。
+ */
+async function runPydoc(name: string, signal?: AbortSignal): Promise<string | null> {
+    const cwd = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'docmate-pydoc-'));
+    try {
+        return await execPydoc(name, cwd, signal);
+    } finally {
+        fs.rmSync(cwd, { recursive: true, force: true });
+    }
+}
+
+function execPydoc(name: string, cwd: string, signal?: AbortSignal): Promise<string | null> {
+    const python = process.platform === 'win32' ? 'python' : 'python3';
+    return new Promise((resolve, reject) => {
+        execFile(python, ['-m', 'pydoc', name], {
+            cwd,
+            timeout: PYDOC_TIMEOUT_MS,
+            maxBuffer: 4 * 1024 * 1024,
+            signal,
+            env: { ...process.env, PAGER: 'cat', PYTHONIOENCODING: 'utf-8' },
+        }, (error, stdout) => {
+            if (error && isAbortError(error)) {
+                reject(error);
+                return;
+            }
+            const text = stdout.toString();
+            // 見つからない場合も終了コード 0 で "No Python documentation found" を出す
+            if (error || !text.trim() || text.startsWith('No Python documentation found')) {
+                resolve(null);
+                return;
+            }
+            resolve(text);
+        });
+    });
+}
+
+/**
+ * pydoc ソース。インストール済みのモジュール（サードパーティを含む）の docstring を読む。
+ * モジュールを import する（＝コードを実行する）ので、信頼されたワークスペースでだけ使う。
+ * "requests.get" のような完全な名前はそのまま、"get" だけの場合はファイルで import しているモジュールを前に付けて探す。
+ */
+export class PydocSource implements DocSource {
+    readonly id = 'pydoc';
+    readonly name = 'pydoc';
+    readonly requiresTrust = true;
+
+    supports(language: string): boolean {
+        return language === 'python';
+    }
+
+    async search(request: DocSourceRequest): Promise<DocSearchResult[]> {
+        const keyword = request.keyword.replace(/\(\)$/, '');
+        if (!/^[\w.]+$/.test(keyword)) {
+            return [];
+        }
+
+        const candidates = [
+            ...(request.context.imports ?? []).map(module => `${module}.${keyword}`),
+            keyword,
+        ];
+        for (const name of Array.from(new Set(candidates))) {
+            const text = await runPydoc(name, request.signal);
+            if (!text) {
+                continue;
+            }
+
+            const body = text.length > MAX_CONTENT_LENGTH ? text.substring(0, MAX_CONTENT_LENGTH) + '\n...' : text;
+            return [{
+                title: name,
+                url: `pydoc:${name}`,
+                summary: text.split('\n').find(line => line.trim().length > 0)?.trim() ?? name,
+                type: 'pydoc',
+                // 名前を確かめて実行しているので、完全一致として扱う
+                score: 100,
+                content: `# ${name}\n\n\`\`\`text\n${body.trimEnd()}\n\`\`\``,
+            }];
+        }
+        return [];
+    }
+}
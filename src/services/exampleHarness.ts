@@ -0,0 +1,221 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+
+/**
+ * プロジェクトドキュメントのサンプルコードを、ドキュメント対象のモジュールを読み込んだ状態で実行するためのハーネス。
+ * サンプルは「対象のクラス・関数はインポート済み」という前提で生成されるため、
+ * 先頭に対象モジュールの import / require を足し、プロジェクトの設定（tsconfig・package.json）と
+ * 作業ディレクトリで実行できるようにする。
+ */
+export interface ExampleHarness {
+    /** langConfig.json の言語キー（sandbox などの設定はこのエントリから引き継ぐ） */
+    lang: string;
+    /** 読み込み処理を先頭に足したコード */
+    code: string;
+    command: string;
+    filename: string;
+    /** 実行時のカレント（node_modules や相対パスが解決できるプロジェクトのルート） */
+    cwd: string;
+    env: Record<string, string>;
+}
+
+const TS_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts'];
+const JS_EXTENSIONS = ['.js', '.mjs', '.cjs'];
+/** ハーネスで読み込んだモジュールを入れておく変数（サンプルの識別子と衝突しない名前にする） */
+const TARGET_VAR = '__docmateTarget';
+
+/** dir から root まで遡って、name があるディレクトリを探す。見つからなければ null */
+function findUp(dir: string, root: string, name: string): string | null {
+    let current = dir;
+    while (true) {
+        if (fs.existsSync(path.join(current, name))) {
+            return current;
+        }
+        const parent = path.dirname(current);
+        if (current === root || parent === current || !current.startsWith(root)) {
+            return null;
+        }
+        current = parent;
+    }
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** 読み込む名前の一覧（識別子として使えない名前・重複・サンプル側で宣言している名前は除く） */
+function filterNames(names: string[], code: string): string[] {
+    const unique = [...new Set(names)].filter(name => /^[A-Za-z_$][\w$]*$/.test(name));
+    return unique.filter(name => !new RegExp(`\\b(?:const|let|var|function|class)\\s+${escapeRegExp(name)}\\b`).test(code));
+}
+
+/**
+ * name がモジュールのどこから取れるかを、ソースの書き方から判断する。
+ * - export default class Foo / export default Foo → default
+ * - module.exports = Foo → モジュールそのもの
+ * - それ以外 → 同名の named export
+ */
+function resolveBinding(source: string, name: string, esm: boolean): string {
+    const n = escapeRegExp(name);
+    const isDefault = new RegExp(`export\\s+default\\s+(?:abstract\\s+)?(?:class|(?:async\\s+)?function\\s*\\*?)\\s+${n}\\b`).test(source)
+        || new RegExp(`export\\s+default\\s+${n}\\s*;?\\s*$`, 'm').test(source);
+    if (isDefault) {
+        return `${TARGET_VAR}.default`;
+    }
+    if (new RegExp(`module\\.exports\\s*=\\s*${n}\\b`).test(source)) {
+        // ESM から CommonJS を import すると module.exports は default に入る
+        return esm ? `${TARGET_VAR}.default` : TARGET_VAR;
+    }
+    return `${TARGET_VAR}.${name}`;
+}
+
+/** .js が ESM として読まれるか（拡張子、または最寄りの package.json の "type": "module"） */
+function isEsmSource(sourceFile: string, packageDir: string | null): boolean {
+    const ext = path.extname(sourceFile);
+    if (ext === '.mjs') {
+        return true;
+    }
+    if (ext === '.cjs' || !packageDir) {
+        return false;
+    }
+    try {
+        const pkg = JSON.parse(fs.readFileSync(path.join(packageDir, 'package.json'), 'utf-8'));
+        return pkg.type === 'module';
+    } catch {
+        return false;
+    }
+}
+
+function buildJavaScriptHarness(sourceFile: string, source: string, code: string, names: string[], workspaceRoot: string, command: string): ExampleHarness {
+    const packageDir = findUp(path.dirname(sourceFile), workspaceRoot, 'package.json');
+    const esm = isEsmSource(sourceFile, packageDir);
+    const bindings = names.map(name => `const ${name} = ${resolveBinding(source, name, esm)};`);
+    const load = esm
+        ? `import * as ${TARGET_VAR} from ${JSON.stringify(pathToFileURL(sourceFile).href)};`
+        : `const ${TARGET_VAR} = require(${JSON.stringify(sourceFile)});`;
+    return {
+        lang: 'javascript',
+        code: [load, ...bindings, '', code].join('\n'),
+        command,
+        filename: esm ? 'docmate_example.mjs' : 'docmate_example.js',
+        cwd: packageDir ?? workspaceRoot,
+        env: {},
+    };
+}
+
+/**
+ * TypeScript は ts-node でプロジェクトの tsconfig を使って実行する。
+ * ハーネスの require を解決できるよう、モジュール形式だけは CommonJS に上書きし、
+ * サンプルの型エラーではなく実行結果で判定するため型チェックは省く。
+ */
+function buildTypeScriptHarness(sourceFile: string, source: string, code: string, names: string[], workspaceRoot: string, command: string): ExampleHarness {
+    const packageDir = findUp(path.dirname(sourceFile), workspaceRoot, 'package.json');
+    const tsconfigDir = findUp(path.dirname(sourceFile), workspaceRoot, 'tsconfig.json');
+    const cwd = packageDir ?? workspaceRoot;
+
+    // プロジェクトにインストールされた ts-node があればそれを使う
+    const localTsNode = path.join(cwd, 'node_modules', '.bin', process.platform === 'win32' ? 'ts-node.cmd' : 'ts-node');
+    const resolvedCommand = fs.existsSync(localTsNode) ? `"${localTsNode}" {file}` : command;
+
+    const modulePath = sourceFile.replace(/\.(ts|tsx|mts|cts)$/, '');
+    const bindings = names.map(name => `const ${name} = ${resolveBinding(source, name, false)};`);
+    const env: Record<string, string> = {
+        TS_NODE_TRANSPILE_ONLY: 'true',
+        TS_NODE_COMPILER_OPTIONS: JSON.stringify({ module: 'commonjs', moduleResolution: 'node' }),
+    };
+    if (tsconfigDir) {
+        env.TS_NODE_PROJECT = path.join(tsconfigDir, 'tsconfig.json');
+    }
+    return {
+        lang: 'typescript',
+        code: [`const ${TARGET_VAR} = require(${JSON.stringify(modulePath)});`, ...bindings, '', code].join('\n'),
+        command: resolvedCommand,
+        filename: 'docmate_example.ts',
+        cwd,
+        env,
+    };
+}
+
+/**
+ * Python はパッケージ（__init__.py のあるディレクトリ）を遡ってモジュール名を決め、
+ * パッケージの外側を PYTHONPATH に足して from ... import で読み込む。
+ */
+function buildPythonHarness(sourceFile: string, code: string, names: string[], workspaceRoot: string, command: string): ExampleHarness {
+    let packageRoot = path.dirname(sourceFile);
+    while (packageRoot !== workspaceRoot && fs.existsSync(path.join(packageRoot, '__init__.py'))) {
+        packageRoot = path.dirname(packageRoot);
+    }
+    const parts = path.relative(packageRoot, sourceFile).replace(/\.py$/, '').split(path.sep);
+    if (parts[parts.length - 1] === '__init__') {
+        parts.pop();
+    }
+    const moduleName = parts.join('.');
+    const pythonNames = [...new Set(names)].filter(name => /^[A-Za-z_]\w*$/.test(name));
+    const load = pythonNames.length > 0 ? `from ${moduleName} import ${pythonNames.join(', ')}` : `import ${moduleName}`;
+    const pythonPath = [packageRoot, process.env.PYTHONPATH].filter(p => p).join(path.delimiter);
+    return {
+        lang: 'python',
+        code: [load, '', code].join('\n'),
+        command,
+        filename: 'docmate_example.py',
+        cwd: workspaceRoot,
+        env: { PYTHONPATH: pythonPath },
+    };
+}
+
+/**
+ * sourceFile のサンプルをハーネスで実行するときの言語キー（buildExampleHarness の lang と同じ）。
+ * ハーネスが対応していない言語は undefined。.tsx も ts-node で実行するため typescript になる。
+ */
+export function harnessLanguage(sourceFile: string): string | undefined {
+    const ext = path.extname(sourceFile).toLowerCase();
+    if (ext === '.py') {
+        return 'python';
+    }
+    if (TS_EXTENSIONS.includes(ext)) {
+        return 'typescript';
+    }
+    if (JS_EXTENSIONS.includes(ext)) {
+        return 'javascript';
+    }
+    return undefined;
+}
+
+/**
+ * sourceFile をドキュメント化したサンプル code を実行するためのハーネスを組み立てる。
+ * names はサンプルから直接使うクラス・関数の名前、commandFor は langConfig.json の言語ごとの実行コマンド。
+ * ハーネスが対応していない言語（JavaScript / TypeScript / Python 以外）の場合は null を返す。
+ * ハーネスは対象のモジュール（ワークスペースのコード）を読み込んで実行するため、
+ * trusted が false（信頼されていないワークスペース）の場合も null を返す。
+ */
+export function buildExampleHarness(
+    sourceFile: string,
+    code: string,
+    names: string[],
+    workspaceRoot: string,
+    commandFor: (lang: string) => string,
+    trusted: boolean
+): ExampleHarness | null {
+    if (!trusted) {
+        return null;
+    }
+    const ext = path.extname(sourceFile).toLowerCase();
+    if (ext === '.py') {
+        return buildPythonHarness(sourceFile, code, names, workspaceRoot, commandFor('python'));
+    }
+    if (!TS_EXTENSIONS.includes(ext) && !JS_EXTENSIONS.includes(ext)) {
+        return null;
+    }
+
+    let source = '';
+    try {
+        source = fs.readFileSync(sourceFile, 'utf-8');
+    } catch {
+        return null;
+    }
+    const targetNames = filterNames(names, code);
+    return TS_EXTENSIONS.includes(ext)
+        ? buildTypeScriptHarness(sourceFile, source, code, targetNames, workspaceRoot, commandFor('typescript'))
+        : buildJavaScriptHarness(sourceFile, source, code, targetNames, workspaceRoot, commandFor('javascript'));
+}
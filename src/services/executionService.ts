@@ -1,8 +1,12 @@
-import * as fs from "fs";
 import * as os from "os";
 import * as path from "path";
 import * as vscode from "vscode";
-import { runCommand, LangConfigEntry } from "./runner";
+import { runCommand, stopRun, writeToRun, LangConfigEntry } from "./runner";
+import { isAbortError } from "./cancellation";
+import { ToolchainStatus, applyCommandPaths, checkToolchain, findMissingTools } from "./toolchainService";
+import { LangConfig } from "./langConfig";
+import { LangConfigService } from "./langConfigService";
+import { WorkspaceFolderService } from "./workspaceFolderService";
 
 export interface ExecutionResult {
   success: boolean;
@@ -10,10 +14,15 @@ export interface ExecutionResult {
   error?: string;
 }
 
-/** langConfig.json 全体の型 */
-type LangConfig = Record<string, LangConfigEntry>;
+/** 自己修復ループにおける1回分の実行記録 */
+export interface ExampleAttempt {
+  code: string;
+  success: boolean;
+  output: string;
+  error?: string;
+}
 
-/** フォールバック用設定（langConfig.json が読めない場合のみ使用） */
+/** フォールバック用設定（言語設定に無い言語の場合のみ使用） */
 const FALLBACK_CONF: LangConfigEntry = {
   command: "node {file}",
   filename: "docmate_exec.js",
@@ -21,32 +30,89 @@ const FALLBACK_CONF: LangConfigEntry = {
   templatecode: "",
 };
 
-/** VS Code のワークスペースルートを取得。未開放なら os.tmpdir() にフォールバック */
-function resolveWorkspaceRoot(): string {
-  const folders = vscode.workspace.workspaceFolders;
-  if (folders && folders.length > 0) {
-    return folders[0].uri.fsPath;
+/**
+ * docmate.commandPaths（コマンド名 → 実行ファイルのパス）を読む。
+ * 信頼されていないワークスペースでは、ワークスペース側の設定で実行ファイルを差し替えられないよう、ユーザー設定だけを使う。
+ */
+function readCommandPaths(): Record<string, string> {
+  const config = vscode.workspace.getConfiguration("docmate");
+  if (!vscode.workspace.isTrusted) {
+    return config.inspect<Record<string, string>>("commandPaths")?.globalValue ?? {};
   }
-  return os.tmpdir();
+  return config.get<Record<string, string>>("commandPaths") ?? {};
 }
 
 export class ExecutionService {
-  private langConfig: LangConfig = {};
+  constructor(
+    private readonly langConfigService: LangConfigService,
+    private readonly workspaceFolders: WorkspaceFolderService,
+  ) {}
 
-  constructor(extensionPath: string) {
-    // media/langConfig.json を読み込んで言語設定をキャッシュ
-    try {
-      const configPath = path.join(extensionPath, "media", "langConfig.json");
-      const raw = fs.readFileSync(configPath, "utf8");
-      this.langConfig = JSON.parse(raw) as LangConfig;
-    } catch (e) {
-      console.warn("ExecutionService: langConfig.json の読み込みに失敗しました。", e);
-    }
+  /** 実行に使うワークスペースルート（アクティブなフォルダ）。未開放なら os.tmpdir() にフォールバック */
+  private resolveWorkspaceRoot(): string {
+    return this.workspaceFolders.getActiveFolder()?.uri.fsPath ?? os.tmpdir();
+  }
+
+  /**
+   * 言語設定（設定の変更は LangConfigService が読み込み直すので、毎回そこから引く）。
+   * workspaceRoot のフォルダの設定を返し、省略時はアクティブなフォルダの設定を返す。
+   */
+  private langConfigFor(workspaceRoot?: string): LangConfig {
+    return this.langConfigService.get(workspaceRoot ? vscode.Uri.file(workspaceRoot) : undefined);
   }
 
   /** 言語キーに対応する LangConfigEntry を返す。未定義ならフォールバック */
-  private resolveConf(lang: string): LangConfigEntry {
-    return this.langConfig[lang] ?? FALLBACK_CONF;
+  resolveConf(lang: string, workspaceRoot?: string): LangConfigEntry {
+    return this.langConfigFor(workspaceRoot)[lang] ?? FALLBACK_CONF;
+  }
+
+  /**
+   * ソースファイルの拡張子から langConfig.json の言語キーを返す（extensions に一致するものが無ければ undefined）。
+   */
+  languageForFile(filePath: string): string | undefined {
+    const ext = path.extname(filePath).toLowerCase();
+    const langConfig = this.langConfigFor(filePath);
+    return Object.keys(langConfig).find((lang) =>
+      (langConfig[lang].extensions ?? []).some((e) => e.toLowerCase() === ext),
+    );
+  }
+
+  /**
+   * lang の実行に必要なコマンドのうち、見つからないものの名前を返す（iframe 系は常に空）。
+   * 自動実行の前に確認し、足りない場合は実行せずに済ませる。
+   */
+  getMissingTools(lang: string, conf?: LangConfigEntry, workspaceRoot?: string): string[] {
+    if (!conf && !this.isTerminalLanguage(lang, workspaceRoot)) {
+      return [];
+    }
+    const command = (conf ?? this.resolveConf(lang, workspaceRoot)).command ?? "";
+    return findMissingTools(command, readCommandPaths());
+  }
+
+  /** 実行に必要なコマンドが見つからない言語（サンドボックスの言語選択で印を付ける） */
+  getUnavailableLanguages(): string[] {
+    return Object.keys(this.langConfigFor()).filter((lang) => this.getMissingTools(lang).length > 0);
+  }
+
+  /** langConfig.json の terminal 系の全言語について、コマンドの有無とバージョンを調べる */
+  async checkToolchains(): Promise<ToolchainStatus[]> {
+    const commandPaths = readCommandPaths();
+    const langConfig = this.langConfigFor();
+    const languages = Object.keys(langConfig).filter((lang) => this.isTerminalLanguage(lang));
+    const statuses: ToolchainStatus[] = [];
+    for (const lang of languages) {
+      statuses.push(await checkToolchain(lang, langConfig[lang].command ?? "", commandPaths));
+    }
+    return statuses;
+  }
+
+  /**
+   * 拡張機能側（child_process）で実行できる言語かどうかを返す。
+   * iframe 系（HTML / React / Vue …）は Webview 内で描画するため false。
+   */
+  isTerminalLanguage(lang: string, workspaceRoot?: string): boolean {
+    const execType = this.langConfigFor(workspaceRoot)[lang]?.executionType ?? "terminal";
+    return execType === "terminal";
   }
 
   async execute(
@@ -56,15 +122,26 @@ export class ExecutionService {
       conf?: LangConfigEntry;
       userExecCommand?: string;
       panel?: vscode.WebviewPanel;
+      runId?: string;
+      /** 実行時のカレント（省略時は sandbox.mode に応じた実行ディレクトリ） */
+      cwd?: string;
+      /** 子プロセスに追加する環境変数 */
+      env?: Record<string, string>;
+      /** 実行するワークスペースフォルダのルート（省略時はアクティブなフォルダ） */
+      workspaceRoot?: string;
+      signal?: AbortSignal;
     },
   ): Promise<ExecutionResult> {
     const lang = opts?.lang ?? "javascript";
     // conf が外から渡されない場合は langConfig.json から解決
-    const conf = opts?.conf ?? this.resolveConf(lang);
-    const userExecCommand = opts?.userExecCommand ?? "";
+    // docmate.commandPaths で指定されたコマンドのパスに置き換える
+    const commandPaths = readCommandPaths();
+    const baseConf = opts?.conf ?? this.resolveConf(lang, opts?.workspaceRoot);
+    const conf = baseConf.command ? { ...baseConf, command: applyCommandPaths(baseConf.command, commandPaths) } : baseConf;
+    const userExecCommand = applyCommandPaths(opts?.userExecCommand ?? "", commandPaths);
     const panel = opts?.panel;
 
-    const workspaceRoot = resolveWorkspaceRoot();
+    const workspaceRoot = opts?.workspaceRoot ?? this.resolveWorkspaceRoot();
 
     try {
       const result = await runCommand({
@@ -74,6 +151,10 @@ export class ExecutionService {
         userExecCommand,
         conf,
         panel,
+        runId: opts?.runId,
+        cwd: opts?.cwd,
+        env: opts?.env,
+        signal: opts?.signal,
       });
 
       const success = result.code === 0;
@@ -85,6 +166,10 @@ export class ExecutionService {
           : result.stderr || `Exit code: ${result.code}`,
       };
     } catch (err) {
+      // キャンセルは実行失敗として扱わず、呼び出し側に伝える
+      if (isAbortError(err)) {
+        throw err;
+      }
       return {
         success: false,
         output: "",
@@ -92,4 +177,14 @@ export class ExecutionService {
       };
     }
   }
+
+  /** runId で指定した実行中のプロセスを停止する */
+  stop(runId: string): boolean {
+    return stopRun(runId);
+  }
+
+  /** runId で指定した実行中のプロセスの stdin に書き込む（eof: true で stdin を閉じる） */
+  sendInput(runId: string, data: string, eof = false): boolean {
+    return writeToRun(runId, data, eof);
+  }
 }
@@ -1,8 +1,12 @@
 import * as vscode from 'vscode';
-import * as fs from 'fs';
-import * as path from 'path';
-import { GoogleGenerativeAI, GenerativeModel, GenerateContentResult } from '@google/generative-ai';
 import { GenerateUUIDService } from './generateUUIDService';
+import { LlmProvider, LlmHttpError, parseRetryAfter } from './llm/llmProvider';
+import { RequestScheduler, LlmUsage } from './llm/requestScheduler';
+import { createLlmProvider, getLlmProviderKind } from './llm/providerFactory';
+import { isAbortError } from './cancellation';
+import { parsePartialSummary } from './partialJson';
+import { JsonSchema, validateJson } from './jsonSchema';
+import { LangConfigService } from './langConfigService';
 
 export interface Example {
     title: string;
@@ -15,53 +19,107 @@ export interface GeminiResponse {
     examples: Example[];
 }
 
-/** langConfig.json の1エントリの型（promptHint を含む） */
-interface LangConfigEntry {
-    executionType?: string;
-    command?: string;
-    filename?: string;
-    deletefile?: string;
-    templatecode?: string;
-    /** Gemini へ渡す言語固有の追加指示。空文字または未定義の場合は何も追加しない。 */
-    promptHint?: string;
+/** fixCode が返す修正結果 */
+export interface FixCodeResponse {
+    summary: string;
+    code: string;
 }
 
-export class GeminiService {
-    private genAI: GoogleGenerativeAI | undefined;
-    private model: GenerativeModel | undefined;
+const EXAMPLE_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        title: { type: 'string', description: 'Short title of the example' },
+        description: { type: 'string', description: 'Brief explanation of what this example does' },
+        code: { type: 'string', description: 'The complete, self-contained code' },
+    },
+    required: ['title', 'description', 'code'],
+};
+
+/** summarize の応答（GeminiResponse）のスキーマ */
+export const GEMINI_RESPONSE_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        summary: { type: 'string', description: 'Japanese summary' },
+        examples: { type: 'array', items: EXAMPLE_SCHEMA },
+    },
+    required: ['summary', 'examples'],
+};
+
+/** fixCode の応答（FixCodeResponse）のスキーマ */
+export const FIX_CODE_RESPONSE_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        summary: { type: 'string', description: 'Concise summary of the fix' },
+        code: { type: 'string', description: 'The complete fixed code' },
+    },
+    required: ['summary', 'code'],
+};
+
+/** スキーマに合わない応答を、検証エラーを添えて聞き直す回数 */
+const MAX_SCHEMA_REASKS = 1;
+/** 聞き直しのプロンプトに含める前回の応答の最大文字数 */
+const MAX_REASK_RESPONSE_LENGTH = 4000;
+
+/**
+ * LLM 呼び出しの窓口。
+ * 実際の接続先は docmate.provider で選択された LlmProvider に委譲し、
+ * Gemini を選択している場合のみ、失敗時はプロキシサーバー（PROXY_URL）へフォールバックする。
+ * 全ての呼び出しは RequestScheduler を通し、docmate.rateLimit.* の上限と再試行を適用する。
+ */
+export class GeminiService implements vscode.Disposable {
+    private provider: LlmProvider | undefined;
+    private scheduler = new RequestScheduler(() => {
+        const config = vscode.workspace.getConfiguration('docmate.rateLimit');
+        return {
+            requestsPerMinute: config.get<number>('requestsPerMinute', 0),
+            tokensPerMinute: config.get<number>('tokensPerMinute', 0),
+            maxRetries: config.get<number>('maxRetries', 5),
+        };
+    });
+    /** initialize() でプロバイダ生成に失敗した理由（未設定の API キーなど） */
+    private providerError: Error | undefined;
     private generateUUIDService: GenerateUUIDService;
+    private readonly disposables: vscode.Disposable[] = [];
 
-    /** langConfig.json をキャッシュして毎回ファイルを読まないようにする */
-    private langConfig: Record<string, LangConfigEntry> = {};
+    /** 言語設定（promptHint・executionType）の参照先。未設定の場合はどの言語も既定の指示で扱う */
+    private langConfigService: LangConfigService | undefined;
 
     constructor(generateUUIDService: GenerateUUIDService) {
         this.generateUUIDService = generateUUIDService;
         this.initialize();
+
+        // プロバイダ関連の設定が変わったら作り直す（信頼されるとワークスペース側の接続先の設定が有効になる）
+        this.disposables.push(
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration('docmate')) {
+                    this.initialize();
+                }
+            }),
+            vscode.workspace.onDidGrantWorkspaceTrust(() => this.initialize())
+        );
     }
 
     private initialize() {
-        const config = vscode.workspace.getConfiguration('docmate');
-        const apiKey = config.get<string>('apiKey');
-        const modelName = config.get<string>('model') || 'gemini-2.5-flash';
-
-        if (apiKey) {
-            this.genAI = new GoogleGenerativeAI(apiKey);
-            this.model = this.genAI.getGenerativeModel({ model: modelName });
+        try {
+            this.provider = createLlmProvider();
+            this.providerError = undefined;
+        } catch (e) {
+            this.provider = undefined;
+            this.providerError = e instanceof Error ? e : new Error(String(e));
         }
     }
 
+    /** 起動してからの LLM の累積使用量（コマンドごとの使用量は開始時点との差分で出す） */
+    getUsage(): LlmUsage {
+        return this.scheduler.getUsage();
+    }
+
     /**
-     * langConfig.json を読み込んでキャッシュする。
-     * extensionPath が渡された場合のみ読み込みを試みる。
+     * 言語設定の参照先を設定する。
+     * 設定の変更は LangConfigService 側で読み込み直されるので、プロンプトを作るたびにそこから引く。
      */
-    loadLangConfig(extensionPath: string): void {
-        try {
-            const configPath = path.join(extensionPath, 'media', 'langConfig.json');
-            const raw = fs.readFileSync(configPath, 'utf8');
-            this.langConfig = JSON.parse(raw) as Record<string, LangConfigEntry>;
-        } catch (e) {
-            console.warn('GeminiService: langConfig.json の読み込みに失敗しました。', e);
-        }
+    setLangConfig(langConfigService: LangConfigService): void {
+        this.langConfigService = langConfigService;
     }
 
     /**
@@ -69,7 +127,7 @@ export class GeminiService {
      * 設定がない・空文字の場合は null を返す。
      */
     private getPromptHint(language: string): string | null {
-        const entry = this.langConfig[language];
+        const entry = this.langConfigService?.getEntry(language);
         if (!entry || !entry.promptHint || entry.promptHint.trim() === '') {
             return null;
         }
@@ -81,32 +139,135 @@ export class GeminiService {
      * langConfig に定義がない言語は terminal 扱い。
      */
     private isIframeType(language: string): boolean {
-        const entry = this.langConfig[language];
+        const entry = this.langConfigService?.getEntry(language);
         const execType = entry?.executionType ?? 'terminal';
         return execType.startsWith('iframe-');
     }
 
-    async summarize(markdown: string, language: string): Promise<GeminiResponse> {
-        const prompt = this.buildSummarizePrompt(markdown, language);
+    /**
+     * 任意のプロンプトを送信し、応答テキストを返す。
+     * プロバイダ呼び出しに失敗した場合は、Gemini を選択しているときだけプロキシサーバーへフォールバックする
+     * （openai / local ではソースコードを含むプロンプトを選択外のサーバーへ送らないよう、エラーをそのまま投げる）。
+     * responseSchema はプロバイダの構造化出力に渡すだけで、検証はしない（generateJson を参照）。
+     */
+    async generate(prompt: string, signal?: AbortSignal, responseSchema?: JsonSchema): Promise<string> {
         try {
-            const result = await this.callGemini(prompt);
-            const parsed = this.parseGeminiResponse(result);
-            return this.normalizeGeminiResult(parsed);
+            return await this.callGemini(prompt, signal, responseSchema);
         } catch (primaryError) {
-            console.warn('Failed to call the Gemini API directly', primaryError);
-
+            // キャンセルされた場合・Gemini 以外のプロバイダを選択している場合はフォールバックしない
+            if (isAbortError(primaryError) || getLlmProviderKind() !== 'gemini') {
+                throw primaryError;
+            }
+            console.warn('Failed to call the LLM provider directly', primaryError);
             try {
-                const fallbackResult = await this.fetchGeminiProxyServer(prompt);
-                const fallbackParsed = this.parseGeminiResponse(fallbackResult);
-                return this.normalizeGeminiResult(fallbackParsed);
+                return await this.fetchGeminiProxyServer(prompt, signal);
             } catch (fallbackError) {
                 console.error('Fallback also failed', fallbackError);
+                // プロキシ未設定の場合は、元のエラー（API キー未設定など）の方が原因として分かりやすい
+                throw process.env.PROXY_URL ? fallbackError : primaryError;
+            }
+        }
+    }
 
-                throw fallbackError;
+    /**
+     * JSON を返すプロンプトを送信し、schema で検証した値を返す。
+     * プロバイダが対応していれば schema をネイティブの構造化出力として渡す。
+     * パース・検証に失敗した場合は、検証エラーを添えて MAX_SCHEMA_REASKS 回まで聞き直し、それでも駄目なら Error を投げる。
+     * normalize は検証の前に応答を整形する（配列で返さなかった場合の救済など）。
+     */
+    async generateJson<T>(prompt: string, schema: JsonSchema, signal?: AbortSignal, normalize?: (value: any) => unknown): Promise<T> {
+        const text = await this.generate(prompt, signal, schema);
+        return this.resolveJson<T>(prompt, text, schema, signal, normalize);
+    }
+
+    async summarize(markdown: string, language: string, signal?: AbortSignal): Promise<GeminiResponse> {
+        const prompt = this.buildSummarizePrompt(markdown, language);
+        return this.generateJson<GeminiResponse>(prompt, GEMINI_RESPONSE_SCHEMA, signal, (parsed) => this.normalizeGeminiResult(parsed));
+    }
+
+    /**
+     * summarize のストリーミング版。
+     * 応答が届くたびに途中までの summary を onSummary に、閉じ括弧まで届いたサンプルを onExample に渡す。
+     * 戻り値は応答全体をパースし直した確定版で、途中で拾えなかったサンプルも完了時に onExample へ渡す。
+     * onExample の index は応答の examples 配列での位置で、確定版の examples の位置と一致する
+     * （途中で読めなかった要素があっても後ろの要素の index はずれない。そのため index は昇順とは限らない）。
+     * プロバイダがストリーミングに対応していない場合・サンプルを渡す前に失敗した場合は summarize にフォールバックする。
+     */
+    async summarizeStream(
+        markdown: string,
+        language: string,
+        handlers: {
+            onSummary: (summary: string) => void;
+            onExample: (example: Example, index: number) => void;
+        },
+        signal?: AbortSignal
+    ): Promise<GeminiResponse> {
+        const emitted = new Set<number>();
+        const emit = (example: Example, index: number) => {
+            emitted.add(index);
+            handlers.onExample(example, index);
+        };
+        const emitRemaining = (response: GeminiResponse) => {
+            handlers.onSummary(response.summary);
+            response.examples.forEach((example, index) => {
+                if (!emitted.has(index)) {
+                    emit(example, index);
+                }
+            });
+            return response;
+        };
+
+        if (!this.provider) {
+            this.initialize();
+        }
+        const provider = this.provider;
+        if (!provider?.generateStream) {
+            return emitRemaining(await this.summarize(markdown, language, signal));
+        }
+
+        const prompt = this.buildSummarizePrompt(markdown, language);
+        let text = '';
+        let lastSummary: string | undefined;
+        try {
+            const stream = this.scheduler.runStream(prompt, () => provider.generateStream!(prompt, { signal, responseSchema: GEMINI_RESPONSE_SCHEMA }), signal);
+            for await (const chunk of stream) {
+                text += chunk;
+                const partial = parsePartialSummary(text);
+                if (partial.summary !== undefined && partial.summary !== lastSummary) {
+                    lastSummary = partial.summary;
+                    handlers.onSummary(partial.summary);
+                }
+                partial.examples.forEach((value, index) => {
+                    const example = emitted.has(index) ? undefined : this.toExample(value);
+                    if (example) {
+                        emit(example, index);
+                    }
+                });
+            }
+            return emitRemaining(await this.resolveJson<GeminiResponse>(prompt, text, GEMINI_RESPONSE_SCHEMA, signal, (parsed) => this.normalizeGeminiResult(parsed)));
+        } catch (e) {
+            // 表示済みのサンプルと食い違うため、サンプルを渡した後は作り直さない
+            if (isAbortError(e) || emitted.size > 0) {
+                throw e;
             }
+            console.warn('Streaming summarize failed, falling back to a single request', e);
+            return emitRemaining(await this.summarize(markdown, language, signal));
         }
     }
 
+    /** ストリーミング中に取り出した要素を Example にする（code が無いものは未完成とみなす） */
+    private toExample(value: unknown): Example | undefined {
+        const element = value as Partial<Example> | null;
+        if (!element || typeof element !== 'object' || typeof element.code !== 'string') {
+            return undefined;
+        }
+        return {
+            title: element.title ?? '',
+            description: element.description ?? '',
+            code: element.code,
+        };
+    }
+
     /**
      * サマリー用プロンプトを生成する。
      *
@@ -174,9 +335,7 @@ ${markdown}`.trim();
         return basePrompt;
     }
 
-    async fixCode(originalCode: string, error: string, language: string = 'javascript'): Promise<GeminiResponse> {
-
-
+    async fixCode(originalCode: string, error: string, language: string = 'javascript', signal?: AbortSignal): Promise<FixCodeResponse> {
         const prompt = `
 You are a helpful coding assistant.
 The following ${language} code failed to execute:
@@ -197,18 +356,74 @@ Output the result as a JSON object with keys: "summary" and "code".
 Do not include markdown code fences in the output, just raw JSON.`;
 
         try {
-            const result = await this.callGemini(prompt);
-            return this.parseGeminiResponse(result);
+            return await this.generateJson<FixCodeResponse>(prompt, FIX_CODE_RESPONSE_SCHEMA, signal);
         } catch (error) {
             console.error('Gemini API Error (fixCode):', error);
             throw error;
         }
     }
 
+    /**
+     * 応答テキストをパースして schema で検証する。一致しなければ検証エラーを添えて聞き直す。
+     */
+    private async resolveJson<T>(
+        prompt: string,
+        text: string,
+        schema: JsonSchema,
+        signal?: AbortSignal,
+        normalize?: (value: any) => unknown
+    ): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            let error: string;
+            try {
+                const parsed = this.parseGeminiResponse<unknown>(text);
+                const value = normalize ? normalize(parsed) : parsed;
+                const errors = validateJson(value, schema);
+                if (errors.length === 0) {
+                    return value as T;
+                }
+                error = errors.join('\n');
+            } catch (e) {
+                error = `Invalid JSON: ${e instanceof Error ? e.message : String(e)}`;
+            }
+
+            if (attempt >= MAX_SCHEMA_REASKS) {
+                throw new Error(`LLM の応答がスキーマに一致しませんでした: ${error}`);
+            }
+            console.warn(`GeminiService: 応答がスキーマに一致しないため聞き直します (${attempt + 1}/${MAX_SCHEMA_REASKS})`, error);
+            text = await this.generate(this.buildReaskPrompt(prompt, text, error, schema), signal, schema);
+        }
+    }
+
+    /**
+     * 聞き直し用のプロンプト。元のプロンプトに、前回の応答と検証エラー・期待するスキーマを添える。
+     */
+    private buildReaskPrompt(prompt: string, previousResponse: string, error: string, schema: JsonSchema): string {
+        const previous = previousResponse.length > MAX_REASK_RESPONSE_LENGTH
+            ? previousResponse.substring(0, MAX_REASK_RESPONSE_LENGTH) + '\n...(truncated)'
+            : previousResponse;
+        return `${prompt}
+
+---
+Your previous response to the request above could not be used because it did not match the required JSON schema.
+
+Validation errors:
+${error}
+
+Previous response:
+${previous}
+
+Respond again with only the corrected JSON (no markdown code fences, no other text) that matches this JSON schema:
+${JSON.stringify(schema)}`;
+    }
+
     /**
      * Gemini が配列形式で返さなかった場合に配列へ正規化する。
      */
     private normalizeGeminiResult(parsed: GeminiResponse): GeminiResponse {
+        if (!parsed || typeof parsed !== 'object') {
+            return parsed;
+        }
         if (!Array.isArray(parsed.examples)) {
             if ((parsed as any).code) {
                 parsed.examples = [{
@@ -224,34 +439,29 @@ Do not include markdown code fences in the output, just raw JSON.`;
     }
 
     /**
-     * Gemini API を直接呼び出す。
+     * 設定されたプロバイダを直接呼び出す。
      */
-    private async callGemini(prompt: string): Promise<GenerateContentResult> {
-        if (!this.model) {
+    private async callGemini(prompt: string, signal?: AbortSignal, responseSchema?: JsonSchema): Promise<string> {
+        if (!this.provider) {
             this.initialize();
-            if (!this.model) {
-                throw new Error('Gemini API Key is not configured. Please set docmate.apiKey in settings.');
+            if (!this.provider) {
+                throw this.providerError ?? new Error('LLM provider is not configured.');
             }
         }
-        return await this.model.generateContent(prompt);
+        const provider = this.provider;
+        return await this.scheduler.run(prompt, () => provider.generate(prompt, { signal, responseSchema }), signal);
     }
 
     /**
      * Gemini のレスポンスを JSON にパースする。
      */
-    private parseGeminiResponse(result: GenerateContentResult | string): GeminiResponse {
-        let responseText: string;
-        if (typeof result === 'string') {
-            responseText = result;
-        } else {
-            responseText = result.response.text();
-        }
+    private parseGeminiResponse<T = GeminiResponse>(responseText: string): T {
         // Clean up potentially fenced JSON
         const originalCleanJson = responseText.replace(/```json\n?|\n?```/g, '').trim();
         let cleanJson = originalCleanJson;
 
         try {
-            return JSON.parse(cleanJson) as GeminiResponse;
+            return JSON.parse(cleanJson) as T;
         } catch (e) {
             console.warn('JSON parsing failed. Attempting to sanitize invalid escape sequences...', e);
 
@@ -262,7 +472,7 @@ Do not include markdown code fences in the output, just raw JSON.`;
 
 
             try {
-                return JSON.parse(cleanJson) as GeminiResponse;
+                return JSON.parse(cleanJson) as T;
             } catch (fallbackError) {
                 console.error("Failed to parse Gemini JSON. True raw string:");
                 console.error("=======================");
@@ -276,7 +486,7 @@ Do not include markdown code fences in the output, just raw JSON.`;
     /**
      * プロキシサーバー経由で Gemini を呼び出す（フォールバック）。
      */
-    async fetchGeminiProxyServer(prompt: string): Promise<string> {
+    async fetchGeminiProxyServer(prompt: string, signal?: AbortSignal): Promise<string> {
         const clientID = this.generateUUIDService.getClientId();
         const headers: Record<string, string> = {
             'Content-Type': 'application/json',
@@ -289,22 +499,29 @@ Do not include markdown code fences in the output, just raw JSON.`;
             throw new Error('PROXY_URL is not defined');
         }
 
-        const res = await fetch(proxyUrl, {
-            method: 'POST',
-            headers,
-            body: JSON.stringify({ prompt }),
-        });
-
-        const data: any = await res.json();
+        return this.scheduler.run(prompt, async () => {
+            const res = await fetch(proxyUrl, {
+                method: 'POST',
+                signal,
+                headers,
+                body: JSON.stringify({ prompt }),
+            });
+
+            const data: any = await res.json().catch(() => ({}));
+
+            if (!res.ok) {
+                const error: LlmHttpError = new Error(res.status === 429 ? `制限エラー: ${data.error}` : (data.error ?? 'サーバーエラー'));
+                error.status = res.status;
+                error.retryAfterMs = parseRetryAfter(res.headers.get('retry-after'));
+                throw error;
+            }
 
-        if (res.status === 429) {
-            throw new Error(`制限エラー: ${data.error}`);
-        }
-        if (!res.ok) {
-            throw new Error(data.error ?? 'サーバーエラー');
-        }
+            return data.response;
+        }, signal);
+    }
 
-        return data.response;
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
     }
 }
 
@@ -4,7 +4,14 @@ import * as path from 'path';
 import * as crypto from 'crypto';
 import pLimit from 'p-limit';
 import { GeminiService } from './geminiService';
-import { ExecutionService } from './executionService';
+import { ExecutionService, ExecutionResult } from './executionService';
+import { buildExampleHarness, harnessLanguage } from './exampleHarness';
+import { SymbolExtractionService, FileSymbolTree } from './symbolExtractionService';
+import { isAbortError, throwIfAborted } from './cancellation';
+import { DEFAULT_TOKEN_BUDGET, splitIntoChunks } from './chunkService';
+import { JsonSchema } from './jsonSchema';
+import { diffUsage } from './llm/requestScheduler';
+import { GenerationReport, FileReport, ExampleStats, createReport, readReport, writeReport, countByStatus, escapeHtml, REPORT_HTML_FILENAME } from './generationReport';
 
 // Gemini が返す JSON のインターフェース（言語非依存）
 interface GeminiDocResponse {
@@ -39,12 +46,77 @@ interface GeminiDocResponse {
     }[];
 }
 
+type DocFunction = GeminiDocResponse['functions'][number];
+
+const DOC_EXAMPLE_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        title: { type: 'string' },
+        description: { type: 'string' },
+        code: { type: 'string' },
+        expectedOutput: { type: 'string' },
+    },
+    required: ['title', 'description', 'code', 'expectedOutput'],
+};
+
+/** メソッド・トップレベル関数で共通の形 */
+const DOC_FUNCTION_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        name: { type: 'string' },
+        description: { type: 'string' },
+        params: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: { name: { type: 'string' }, type: { type: 'string' } },
+                required: ['name', 'type'],
+            },
+        },
+        returnType: { type: 'string' },
+        examples: { type: 'array', items: DOC_EXAMPLE_SCHEMA },
+    },
+    required: ['name', 'description', 'params', 'returnType', 'examples'],
+};
+
+/** GeminiDocResponse のスキーマ（構造化出力の指定と応答の検証に使う） */
+const GEMINI_DOC_RESPONSE_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        fileDescription: { type: 'string' },
+        classes: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    name: { type: 'string' },
+                    description: { type: 'string' },
+                    methods: { type: 'array', items: DOC_FUNCTION_SCHEMA },
+                },
+                required: ['name', 'description', 'methods'],
+            },
+        },
+        functions: { type: 'array', items: DOC_FUNCTION_SCHEMA },
+    },
+    required: ['fileDescription', 'classes', 'functions'],
+};
+
 interface TocEntry {
     url: string;
     fileName: string;
     description: string;
 }
 
+/** 増分生成用の manifest（出力ディレクトリに保存する） */
+interface DocManifest {
+    version: number;
+    /** キー: ワークスペースからの相対パス（/ 区切り） */
+    files: Record<string, TocEntry & { hash: string }>;
+}
+
+const MANIFEST_FILENAME = '.docmate-manifest.json';
+const MANIFEST_VERSION = 1;
+
 // 対応するソースファイルの拡張子一覧
 const SOURCE_EXTENSIONS = new Set([
     '.ts', '.tsx', '.js', '.jsx',
@@ -78,12 +150,14 @@ export class GenerateProjectDocumentService {
     context: vscode.ExtensionContext;
     geminiService: GeminiService;
     executionService: ExecutionService;
+    symbolExtractionService: SymbolExtractionService;
     limit: pLimit.Limit;
 
     constructor(context: vscode.ExtensionContext, geminiService: GeminiService, executionService: ExecutionService) {
         this.context = context;
         this.geminiService = geminiService;
         this.executionService = executionService;
+        this.symbolExtractionService = new SymbolExtractionService();
         this.limit = pLimit(5);
     }
 
@@ -93,17 +167,46 @@ export class GenerateProjectDocumentService {
     }
 
     /**
-     * 現在のワークスペースに対応するドキュメントの出力先パスを返す
+     * 現在のワークスペースに対応するドキュメントサイトのルートを返す
      * フォルダ名: ワークスペース名_ハッシュ8桁
+     * マルチルートワークスペースでは、ワークスペースファイル（無ければフォルダの一覧）からハッシュを作る
      */
-    getOutputDir(): string {
-        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-        if (!workspaceRoot) {
+    getSiteDir(): string {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        if (folders.length === 0) {
             return path.join(this.context.globalStorageUri.fsPath, '.docs');
         }
-        const workspaceName = path.basename(workspaceRoot);
-        const hash = crypto.createHash('md5').update(workspaceRoot).digest('hex').substring(0, 8);
-        return path.join(this.context.globalStorageUri.fsPath, '.docs', `${workspaceName}_${hash}`);
+        const [siteName, key] = folders.length === 1
+            ? [path.basename(folders[0].uri.fsPath), folders[0].uri.fsPath]
+            : [vscode.workspace.name ?? 'workspace', vscode.workspace.workspaceFile?.toString() ?? folders.map(f => f.uri.fsPath).join('\n')];
+        const hash = crypto.createHash('md5').update(key).digest('hex').substring(0, 8);
+        return path.join(this.context.globalStorageUri.fsPath, '.docs', `${this.toDirName(siteName)}_${hash}`);
+    }
+
+    /**
+     * ワークスペースフォルダのドキュメントの出力先パスを返す
+     * フォルダが1つだけならサイトのルート、マルチルートならその下のフォルダごとのサブフォルダ
+     */
+    getOutputDir(folder: vscode.WorkspaceFolder): string {
+        if (!this.isMultiRoot()) {
+            return this.getSiteDir();
+        }
+        return path.join(this.getSiteDir(), this.folderDirName(folder));
+    }
+
+    private isMultiRoot(): boolean {
+        return (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+    }
+
+    /** サイト内のフォルダごとのサブフォルダ名（同じ名前のフォルダが複数あればインデックスを付けて区別する） */
+    private folderDirName(folder: vscode.WorkspaceFolder): string {
+        const sameName = (vscode.workspace.workspaceFolders ?? []).filter(f => f.name === folder.name).length > 1;
+        return this.toDirName(sameName ? `${folder.name}_${folder.index}` : folder.name);
+    }
+
+    /** ファイル名に使えない文字を置き換える */
+    private toDirName(name: string): string {
+        return name.replace(/[\\/:*?"<>|]/g, '_');
     }
 
     /**
@@ -139,19 +242,32 @@ export class GenerateProjectDocumentService {
 
     /**
      * ドキュメント生成を実行（Gemini 全任せ、パーサー不要）
-     * ユーザーが開いているワークスペースのルートディレクトリを分析対象とする
+     * 指定したワークスペースフォルダのルートディレクトリを分析対象とする
+     *
+     * 出力先の manifest にソースファイルごとの内容ハッシュを記録し、
+     * 変更のあったファイルだけを再生成する（増分生成）。
+     * - ハッシュが一致し HTML も残っているファイル → スキップ
+     * - 削除されたソースファイル → 対応する HTML と manifest エントリを削除
+     * - force: true → ハッシュに関係なく全ファイルを再生成
+     * index.html は manifest の内容から毎回作り直す。
+     * ファイルごとの結果は実行レポート（report.json / report.html）として出力先に保存し、戻り値でも返す。
+     * only を指定した場合はそのファイル（manifest と同じ相対パス）だけを処理し、
+     * それ以外のファイルは前回のレポートの結果を引き継ぐ（失敗したファイルの再生成に使う）。
+     * signal が中断された場合は未着手のファイルを飛ばし、生成済みの分だけ manifest・index.html・レポートに
+     * 反映してから AbortError を投げる（次回の生成で残りを続きから処理できる）。
+     * マルチルートワークスペースでは、フォルダ横断の目次（サイトのルートの index.html）も作り直す。
      */
-    async processProject() {
-        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-        if (!workspaceRoot) {
-            throw new Error('ワークスペースが開かれていません。フォルダを開いてから実行してください。');
-        }
+    async processProject(folder: vscode.WorkspaceFolder, options?: { force?: boolean; signal?: AbortSignal; only?: string[] }): Promise<GenerationReport> {
+        const force = options?.force ?? false;
+        const signal = options?.signal;
+        const only = options?.only ? new Set(options.only) : undefined;
+        const workspaceRoot = folder.uri.fsPath;
 
         // ワークスペース名を取得
-        const workspaceName = path.basename(workspaceRoot);
+        const workspaceName = folder.name;
 
         // 出力先はプロジェクトごとのサブフォルダ
-        const outputDir = this.getOutputDir();
+        const outputDir = this.getOutputDir(folder);
         fs.mkdirSync(outputDir, { recursive: true });
 
         // ソースファイルを再帰的に列挙（パーサー不要）
@@ -162,132 +278,371 @@ export class GenerateProjectDocumentService {
             throw new Error('ソースファイルが見つかりません。対象の拡張子: ' + Array.from(SOURCE_EXTENSIONS).join(', '));
         }
 
-        const tocEntries: TocEntry[] = [];
+        const usageBefore = this.geminiService.getUsage();
+        const previousReport = readReport(outputDir);
+        const previousResults = new Map((previousReport?.files ?? []).map(f => [f.file, f]));
+        const report = createReport(workspaceName, { force, retry: !!only });
+        const results = new Map<string, FileReport>();
+
+        const manifest = this.readManifest(outputDir);
+        const currentKeys = new Set(sourceFiles.map(f => this.toManifestKey(workspaceRoot, f)));
+
+        // 削除されたソースファイルのページを取り除く
+        for (const [key, entry] of Object.entries(manifest.files)) {
+            if (currentKeys.has(key)) {
+                continue;
+            }
+            this.removeGeneratedPage(outputDir, entry.url);
+            delete manifest.files[key];
+            results.set(key, { file: key, status: 'removed' });
+        }
 
         const tasks = sourceFiles.map(filePath => this.limit(async () => {
-            const fileName = path.basename(filePath);
+            const key = this.toManifestKey(workspaceRoot, filePath);
+            // 再生成の対象外のファイルは前回の結果をそのまま載せる
+            if (only && !only.has(key)) {
+                const previous = previousResults.get(key);
+                results.set(key, previous ?? { file: key, status: 'skipped', url: manifest.files[key]?.url });
+                return;
+            }
+            // キャンセル後は待ち行列に残っているファイルを処理しない
+            if (signal?.aborted) {
+                results.set(key, { file: key, status: 'cancelled' });
+                return;
+            }
+            let hash: string;
+            try {
+                hash = this.hashFile(filePath);
+            } catch (error) {
+                console.error(`❌ ${key} の読み込みでエラー発生（スキップします）:`, error);
+                results.set(key, { file: key, status: 'failed', reason: `読み込みに失敗しました: ${this.errorMessage(error)}` });
+                return;
+            }
+
+            // 内容が変わっておらず、生成済み HTML も残っていれば再生成しない
+            const previous = manifest.files[key];
+            if (!force && !only && previous && previous.hash === hash && fs.existsSync(path.join(outputDir, previous.url))) {
+                results.set(key, { file: key, status: 'skipped', url: previous.url, examples: previousResults.get(key)?.examples });
+                return;
+            }
+
             try {
-                const fileContent = fs.readFileSync(filePath, 'utf-8');
-                const relativePath = path.relative(workspaceRoot, filePath);
-                const ext = path.extname(filePath);
-
-                // HTMLファイルの出力先パス（元の拡張子 → .html）
-                const outputFilePath = path.join(outputDir, relativePath).replace(new RegExp(`\\${ext}$`), '.html');
-                // HTML内でリンクするためのURLパス
-                const urlPath = relativePath.replace(new RegExp(`\\${ext}$`), '.html').replace(/\\/g, '/');
-
-                // Gemini に構造抽出 + 説明 + サンプルコード + 期待出力を一括生成させる
-                const aiJson = await this.askGeminiForDescriptionsInJson(fileContent, fileName, this.geminiService);
-                if (!aiJson) {
-                    console.warn(`⚠️ ${fileName}: Gemini からの応答を取得できませんでした。スキップします。`);
+                const page = await this.generateFilePage(filePath, workspaceRoot, outputDir, signal);
+                manifest.files[key] = { hash, ...page.tocEntry };
+                results.set(key, { file: key, status: 'generated', url: page.tocEntry.url, examples: page.examples });
+            } catch (error) {
+                if (isAbortError(error)) {
+                    results.set(key, { file: key, status: 'cancelled' });
                     return;
                 }
+                // 失敗時は古いエントリ（古いハッシュ）を残し、次回の生成で再試行させる
+                console.error(`❌ ${key} の処理でエラー発生（スキップします）:`, error);
+                results.set(key, { file: key, status: 'failed', reason: this.errorMessage(error), url: previous?.url });
+            }
+        }));
 
-                // 目次に登録
-                tocEntries.push({ url: urlPath, fileName: fileName, description: aiJson.fileDescription });
-
-                // ルート（index.html）へ戻るための相対パスを計算
-                const depth = relativePath.split(path.sep).length - 1;
-                const backToRootPath = depth === 0 ? './index.html' : '../'.repeat(depth) + 'index.html';
-
-                // Gemini の JSON から HTML を組み立て（パーサー不要）
-                let htmlBody = `<div class="file-desc">${aiJson.fileDescription}</div>`;
-
-                // クラスの処理
-                for (const cls of (aiJson.classes || [])) {
-                    htmlBody += `<div class="class-card"><h2>📦 Class: ${cls.name}</h2>`;
-                    htmlBody += `<p>${cls.description}</p>`;
-
-                    for (const method of (cls.methods || [])) {
-                        htmlBody += `<div class="method-card"><h3>⚙️ ${method.name}</h3>`;
-                        htmlBody += `<p>${method.description}</p>`;
-
-                        // 引数リスト（Gemini から取得）
-                        htmlBody += `<strong>引数:</strong><ul class="param-list">`;
-                        if (!method.params || method.params.length === 0) {
-                            htmlBody += `<li>なし</li>`;
-                        } else {
-                            for (const p of method.params) {
-                                htmlBody += `<li><span class="badge">${p.name}</span> : <code>${p.type}</code></li>`;
-                            }
-                        }
-                        htmlBody += `</ul><strong>戻り値:</strong> <code>${method.returnType || 'void'}</code>`;
-
-                        // 実行例データを構築
-                        const examplesWithOutput = await this.buildExamplesWithOutput(method.examples || [], filePath);
-
-                        // data 属性に JSON を埋め込み
-                        const summary = method.description || '';
-                        const examplesJson = JSON.stringify(examplesWithOutput).replace(/&/g, '&amp;').replace(/'/g, '&#39;').replace(/"/g, '&quot;');
-                        const summaryEscaped = summary.replace(/&/g, '&amp;').replace(/'/g, '&#39;').replace(/"/g, '&quot;');
-                        htmlBody += `<a href="#" class="explain-link" data-keyword="${method.name}" data-examples="${examplesJson}" data-summary="${summaryEscaped}">🔍 実行例を見る</a></div>`;
-                    }
-                    htmlBody += `</div>`;
+        // 全ての個別ページの生成を待つ（1ファイルの失敗が他に影響しない）
+        await Promise.allSettled(tasks);
+
+        report.files = Array.from(results.values());
+        report.finishedAt = new Date().toISOString();
+        report.usage = diffUsage(this.geminiService.getUsage(), usageBefore);
+        const counts = countByStatus(report);
+        console.log(`📊 処理結果: 生成 ${counts.generated} 件 / 変更なし ${counts.skipped} 件 / 削除 ${counts.removed} 件 / 失敗 ${counts.failed} 件 / 中断 ${counts.cancelled} 件（全 ${sourceFiles.length} 件）`);
+
+        this.writeManifest(outputDir, manifest);
+        writeReport(outputDir, report);
+
+        console.log("📝 トップページ (index.html) を生成中...");
+        const tocEntries: TocEntry[] = Object.values(manifest.files)
+            .map(({ url, fileName, description }) => ({ url, fileName, description }))
+            .sort((a, b) => a.url.localeCompare(b.url));
+        const missingFiles = report.files.filter(f => (f.status === 'failed' || f.status === 'cancelled') && !f.url).map(f => f.file);
+        const parentIndex = this.isMultiRoot() ? '../index.html' : undefined;
+        const indexHtml = this.generateIndexHtml(tocEntries, workspaceName, missingFiles, parentIndex);
+        const indexPath = path.join(outputDir, 'index.html');
+        fs.writeFileSync(indexPath, indexHtml);
+        if (parentIndex) {
+            this.writeWorkspaceIndex();
+        }
+
+        throwIfAborted(signal);
+        console.log(`🎉 完了しました！ ${indexPath} を開いてください！`);
+        return report;
+    }
+
+    /**
+     * ワークスペースのすべてのフォルダのドキュメントを順に生成し、フォルダ横断の目次でまとめる。
+     * ソースファイルが無いなどで生成できなかったフォルダは飛ばし、1つも生成できなければそのエラーを投げる。
+     * signal が中断された場合は、そのフォルダまでの結果を目次に反映してから AbortError を投げる。
+     */
+    async processWorkspace(options?: { force?: boolean; signal?: AbortSignal }): Promise<GenerationReport[]> {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        if (folders.length === 0) {
+            throw new Error('ワークスペースが開かれていません。フォルダを開いてから実行してください。');
+        }
+
+        const reports: GenerationReport[] = [];
+        let firstError: unknown;
+        for (const folder of folders) {
+            try {
+                reports.push(await this.processProject(folder, options));
+            } catch (error) {
+                if (isAbortError(error)) {
+                    throw error;
                 }
+                console.error(`❌ ${folder.name} のドキュメントを生成できませんでした（スキップします）:`, error);
+                firstError ??= error;
+            }
+        }
+        if (reports.length === 0) {
+            throw firstError instanceof Error ? firstError : new Error(`どのフォルダのドキュメントも生成できませんでした: ${String(firstError)}`);
+        }
+        return reports;
+    }
 
-                // トップレベル関数の処理（クラスなし言語対応）
-                for (const func of (aiJson.functions || [])) {
-                    htmlBody += `<div class="method-card"><h3>🔧 ${func.name}</h3>`;
-                    htmlBody += `<p>${func.description}</p>`;
-
-                    htmlBody += `<strong>引数:</strong><ul class="param-list">`;
-                    if (!func.params || func.params.length === 0) {
-                        htmlBody += `<li>なし</li>`;
-                    } else {
-                        for (const p of func.params) {
-                            htmlBody += `<li><span class="badge">${p.name}</span> : <code>${p.type}</code></li>`;
-                        }
-                    }
-                    htmlBody += `</ul><strong>戻り値:</strong> <code>${func.returnType || 'void'}</code>`;
+    /**
+     * マルチルートワークスペースのフォルダ横断の目次（サイトのルートの index.html）を書き出す。
+     * 各フォルダの manifest から作るので、まだ生成していないフォルダは「未生成」として載せる。
+     */
+    private writeWorkspaceIndex(): void {
+        const siteDir = this.getSiteDir();
+        const sections = (vscode.workspace.workspaceFolders ?? []).map(folder => {
+            const dirName = this.folderDirName(folder);
+            const outputDir = path.join(siteDir, dirName);
+            const entries: TocEntry[] = Object.values(this.readManifest(outputDir).files)
+                .map(({ url, fileName, description }) => ({ url: `${dirName}/${url}`, fileName, description }))
+                .sort((a, b) => a.url.localeCompare(b.url));
+            const report = readReport(outputDir);
+            return {
+                name: folder.name,
+                dirName,
+                entries,
+                generated: fs.existsSync(path.join(outputDir, 'index.html')),
+                failed: report ? countByStatus(report).failed : 0,
+            };
+        });
+        fs.mkdirSync(siteDir, { recursive: true });
+        fs.writeFileSync(path.join(siteDir, 'index.html'), this.generateWorkspaceIndexHtml(sections, vscode.workspace.name ?? 'Workspace'));
+    }
+
+    /** レポートに載せるエラーの理由 */
+    private errorMessage(error: unknown): string {
+        return error instanceof Error ? error.message : String(error);
+    }
+
+    /**
+     * 1ファイル分のドキュメントページを生成して書き出す。
+     * 目次エントリとサンプルの検証結果を返す。失敗した場合は理由を含む Error を、キャンセル時は AbortError を投げる。
+     */
+    private async generateFilePage(
+        filePath: string,
+        workspaceRoot: string,
+        outputDir: string,
+        signal?: AbortSignal
+    ): Promise<{ tocEntry: TocEntry; examples: ExampleStats }> {
+        const fileName = path.basename(filePath);
+        const exampleStats: ExampleStats = { verified: 0, unverified: 0 };
+        const fileContent = fs.readFileSync(filePath, 'utf-8');
+        const relativePath = path.relative(workspaceRoot, filePath);
+        const ext = path.extname(filePath);
+
+        // HTMLファイルの出力先パス（元の拡張子 → .html）
+        const outputFilePath = path.join(outputDir, relativePath).replace(new RegExp(`\\${ext}$`), '.html');
+        // HTML内でリンクするためのURLパス
+        const urlPath = relativePath.replace(new RegExp(`\\${ext}$`), '.html').replace(/\\/g, '/');
+
+        // 構造（クラス・メソッド・関数・引数・戻り値）はランゲージサーバーから取得する
+        // 取得できない言語・環境では従来どおり Gemini に構造抽出も任せる
+        const symbolTree = await this.symbolExtractionService.extract(filePath);
+
+        // Gemini に説明 + サンプルコード + 期待出力を生成させる
+        let aiJson = await this.askGeminiForDescriptionsInJson(fileContent, fileName, this.geminiService, symbolTree, signal);
+        if (symbolTree) {
+            aiJson = this.mergeWithSymbolTree(symbolTree, aiJson);
+        }
+
+        // ルート（index.html）へ戻るための相対パスを計算
+        const depth = relativePath.split(path.sep).length - 1;
+        const backToRootPath = depth === 0 ? './index.html' : '../'.repeat(depth) + 'index.html';
+
+        // サンプルから直接使われる名前（実行時にハーネスが対象モジュールから読み込む）
+        const exampleNames = [...(aiJson.classes || []).map(c => c.name), ...(aiJson.functions || []).map(f => f.name)];
+        // 実行例の言語（langConfig.json のキー）。実行と、結果パネルのサンドボックスの言語選択に使う
+        // ハーネスで実行する言語はハーネスの言語に揃える（.tsx は typescriptreact ではなく typescript として実行される）
+        const language = harnessLanguage(filePath) ?? this.executionService.languageForFile(filePath) ?? '';
+        const exampleTarget = { sourceFile: filePath, workspaceRoot, names: exampleNames, language };
 
-                    // 実行例データを構築
-                    const examplesWithOutput = await this.buildExamplesWithOutput(func.examples || [], filePath);
+        // Gemini の JSON から HTML を組み立て（パーサー不要）
+        let htmlBody = `<div class="file-desc">${aiJson.fileDescription}</div>`;
 
-                    const summary = func.description || '';
-                    const examplesJson = JSON.stringify(examplesWithOutput).replace(/&/g, '&amp;').replace(/'/g, '&#39;').replace(/"/g, '&quot;');
-                    const summaryEscaped = summary.replace(/&/g, '&amp;').replace(/'/g, '&#39;').replace(/"/g, '&quot;');
-                    htmlBody += `<a href="#" class="explain-link" data-keyword="${func.name}" data-examples="${examplesJson}" data-summary="${summaryEscaped}">🔍 実行例を見る</a></div>`;
+        // クラスの処理
+        for (const cls of (aiJson.classes || [])) {
+            htmlBody += `<div class="class-card"><h2>📦 Class: ${cls.name}</h2>`;
+            htmlBody += `<p>${cls.description}</p>`;
+
+            for (const method of (cls.methods || [])) {
+                htmlBody += `<div class="method-card"><h3>⚙️ ${method.name}</h3>`;
+                htmlBody += `<p>${method.description}</p>`;
+
+                // 引数リスト（ランゲージサーバーから取得、取れなければ Gemini の推定）
+                htmlBody += `<strong>引数:</strong><ul class="param-list">`;
+                if (!method.params || method.params.length === 0) {
+                    htmlBody += `<li>なし</li>`;
+                } else {
+                    for (const p of method.params) {
+                        htmlBody += `<li><span class="badge">${p.name}</span> : <code>${p.type}</code></li>`;
+                    }
                 }
+                htmlBody += `</ul><strong>戻り値:</strong> <code>${method.returnType || 'void'}</code>`;
 
-                const finalHtml = this.generateHtmlTemplate(fileName, htmlBody, backToRootPath);
-                fs.mkdirSync(path.dirname(outputFilePath), { recursive: true });
-                fs.writeFileSync(outputFilePath, finalHtml);
-                console.log(`✅ 生成完了: ${urlPath}`);
-            } catch (error) {
-                // 個別ファイルのエラーは他のファイルの処理を止めない
-                console.error(`❌ ${fileName} の処理でエラー発生（スキップします）:`, error);
+                // 実行例データを構築
+                const examplesWithOutput = await this.buildExamplesWithOutput(method.examples || [], exampleTarget, exampleStats, signal);
+
+                // data 属性に JSON を埋め込み
+                const summary = method.description || '';
+                const examplesJson = JSON.stringify(examplesWithOutput).replace(/&/g, '&amp;').replace(/'/g, '&#39;').replace(/"/g, '&quot;');
+                const summaryEscaped = summary.replace(/&/g, '&amp;').replace(/'/g, '&#39;').replace(/"/g, '&quot;');
+                htmlBody += `<a href="#" class="explain-link" data-keyword="${method.name}" data-language="${escapeHtml(language)}" data-examples="${examplesJson}" data-summary="${summaryEscaped}">🔍 実行例を見る</a>${this.verificationBadge(examplesWithOutput)}</div>`;
             }
-        }));
+            htmlBody += `</div>`;
+        }
 
-        // 全ての個別ページの生成を待つ（1ファイルの失敗が他に影響しない）
-        const results = await Promise.allSettled(tasks);
-        const failedCount = results.filter(r => r.status === 'rejected').length;
-        if (failedCount > 0) {
-            console.warn(`⚠️ ${failedCount} 件のファイルで処理に失敗しました`);
+        // トップレベル関数の処理（クラスなし言語対応）
+        for (const func of (aiJson.functions || [])) {
+            htmlBody += `<div class="method-card"><h3>🔧 ${func.name}</h3>`;
+            htmlBody += `<p>${func.description}</p>`;
+
+            htmlBody += `<strong>引数:</strong><ul class="param-list">`;
+            if (!func.params || func.params.length === 0) {
+                htmlBody += `<li>なし</li>`;
+            } else {
+                for (const p of func.params) {
+                    htmlBody += `<li><span class="badge">${p.name}</span> : <code>${p.type}</code></li>`;
+                }
+            }
+            htmlBody += `</ul><strong>戻り値:</strong> <code>${func.returnType || 'void'}</code>`;
+
+            // 実行例データを構築
+            const examplesWithOutput = await this.buildExamplesWithOutput(func.examples || [], exampleTarget, exampleStats, signal);
+
+            const summary = func.description || '';
+            const examplesJson = JSON.stringify(examplesWithOutput).replace(/&/g, '&amp;').replace(/'/g, '&#39;').replace(/"/g, '&quot;');
+            const summaryEscaped = summary.replace(/&/g, '&amp;').replace(/'/g, '&#39;').replace(/"/g, '&quot;');
+            htmlBody += `<a href="#" class="explain-link" data-keyword="${func.name}" data-language="${escapeHtml(language)}" data-examples="${examplesJson}" data-summary="${summaryEscaped}">🔍 実行例を見る</a>${this.verificationBadge(examplesWithOutput)}</div>`;
         }
-        console.log(`📊 処理結果: 成功 ${tocEntries.length} 件 / 全 ${sourceFiles.length} 件`);
 
-        console.log("📝 トップページ (index.html) を生成中...");
-        const indexHtml = this.generateIndexHtml(tocEntries, workspaceName);
-        const indexPath = path.join(outputDir, 'index.html');
-        fs.writeFileSync(indexPath, indexHtml);
+        const finalHtml = this.generateHtmlTemplate(fileName, htmlBody, backToRootPath);
+        fs.mkdirSync(path.dirname(outputFilePath), { recursive: true });
+        fs.writeFileSync(outputFilePath, finalHtml);
+        console.log(`✅ 生成完了: ${urlPath}`);
 
-        console.log(`🎉 完了しました！ ${indexPath} を開いてください！`);
+        // 目次に登録
+        return { tocEntry: { url: urlPath, fileName: fileName, description: aiJson.fileDescription }, examples: exampleStats };
+    }
+
+    // ----- 増分生成用 manifest -----
+
+    private createEmptyManifest(): DocManifest {
+        return { version: MANIFEST_VERSION, files: {} };
+    }
+
+    /**
+     * 出力ディレクトリの manifest を読み込む。
+     * 存在しない・壊れている・バージョンが異なる場合は空の manifest を返す（全件生成になる）。
+     */
+    private readManifest(outputDir: string): DocManifest {
+        try {
+            const raw = fs.readFileSync(path.join(outputDir, MANIFEST_FILENAME), 'utf-8');
+            const parsed = JSON.parse(raw) as DocManifest;
+            if (parsed.version === MANIFEST_VERSION && parsed.files && typeof parsed.files === 'object') {
+                return parsed;
+            }
+        } catch {
+            // 初回生成時は manifest が無いので何もしない
+        }
+        return this.createEmptyManifest();
+    }
+
+    private writeManifest(outputDir: string, manifest: DocManifest): void {
+        fs.writeFileSync(path.join(outputDir, MANIFEST_FILENAME), JSON.stringify(manifest, null, 2));
+    }
+
+    /** manifest のキー（ワークスペースからの相対パス、OS に依らず / 区切り） */
+    private toManifestKey(workspaceRoot: string, filePath: string): string {
+        return path.relative(workspaceRoot, filePath).replace(/\\/g, '/');
+    }
+
+    private hashFile(filePath: string): string {
+        return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+    }
+
+    /**
+     * 生成済みページを削除し、空になった親ディレクトリも出力先ルートまで遡って削除する。
+     */
+    private removeGeneratedPage(outputDir: string, url: string): void {
+        const htmlPath = path.join(outputDir, url);
+        try {
+            fs.rmSync(htmlPath, { force: true });
+            let dir = path.dirname(htmlPath);
+            while (dir.startsWith(outputDir) && dir !== outputDir && fs.readdirSync(dir).length === 0) {
+                fs.rmdirSync(dir);
+                dir = path.dirname(dir);
+            }
+            console.log(`🗑️ 削除: ${url}`);
+        } catch (error) {
+            console.warn(`⚠️ ${url} の削除に失敗しました:`, error);
+        }
     }
 
     /**
      * サンプルコードの実行結果を構築する
-     * 実行成功 → 本物の出力、失敗 → Gemini の期待出力にフォールバック
+     * 対象モジュールを読み込むハーネスを付けてプロジェクトのルートで実行し、
+     * ハーネスが対応していない言語はソースファイルの言語（target.language）でそのまま実行する
+     * 実行成功 → 本物の出力（verified）、失敗 → Gemini の期待出力にフォールバック（unverified）
+     * 拡張機能側で実行できない言語（iframe 系・langConfig.json に無い言語）は実行せずに unverified とする
+     * 信頼されていないワークスペースでは、ワークスペースのコードを実行しないよう全サンプルを実行せずに unverified とする
+     * 検証結果の件数は stats に足していく（実行レポート用）
      */
     private async buildExamplesWithOutput(
         examples: { title: string; description: string; code: string; expectedOutput: string }[],
-        originalFilePath: string
+        target: { sourceFile: string; workspaceRoot: string; names: string[]; language: string },
+        stats: ExampleStats,
+        signal?: AbortSignal
     ) {
         const examplesWithOutput = [];
+        const trusted = vscode.workspace.isTrusted;
 
         for (const ex of examples) {
-            // サンプルコードをそのまま実行してみる
-            const execResult = await this.executionService.execute(ex.code);
+            const harness = buildExampleHarness(
+                target.sourceFile, ex.code, target.names, target.workspaceRoot,
+                lang => this.executionService.resolveConf(lang, target.workspaceRoot).command ?? '',
+                trusted
+            );
+            const execLang = harness ? harness.lang : target.language;
+            const missing = trusted && execLang
+                ? this.executionService.getMissingTools(execLang, harness ? { command: harness.command } : undefined, target.workspaceRoot)
+                : [];
+            let execResult: ExecutionResult;
+            if (!trusted) {
+                execResult = { success: false, output: '', error: '信頼されていないワークスペースのため実行していません' };
+            } else if (missing.length > 0) {
+                // コマンドが無い環境では実行しない（期待出力を unverified として載せる）
+                execResult = { success: false, output: '', error: `${missing.join(', ')} が見つかりません` };
+            } else if (harness) {
+                execResult = await this.executionService.execute(harness.code, {
+                    lang: harness.lang,
+                    conf: { ...this.executionService.resolveConf(harness.lang, target.workspaceRoot), command: harness.command, filename: harness.filename },
+                    cwd: harness.cwd,
+                    env: harness.env,
+                    workspaceRoot: target.workspaceRoot,
+                    signal
+                });
+            } else if (target.language && this.executionService.isTerminalLanguage(target.language, target.workspaceRoot)) {
+                execResult = await this.executionService.execute(ex.code, { lang: target.language, workspaceRoot: target.workspaceRoot, signal });
+            } else {
+                execResult = { success: false, output: '', error: `${path.extname(target.sourceFile)} のサンプルは実行に対応していません` };
+            }
 
             // 実行成功 → 本物の出力、失敗 → Gemini の期待出力にフォールバック
             const output = execResult.success
@@ -298,18 +653,186 @@ export class GenerateProjectDocumentService {
                 title: ex.title,
                 description: ex.description,
                 code: ex.code,
-                executionOutput: output
+                executionOutput: output,
+                verified: execResult.success
             });
+            if (execResult.success) {
+                stats.verified++;
+            } else {
+                stats.unverified++;
+            }
         }
 
         return examplesWithOutput;
     }
 
+    /** 実行例の検証結果のラベル（全件実行に成功していれば verified） */
+    private verificationBadge(examples: { verified: boolean }[]): string {
+        if (examples.length === 0) {
+            return '';
+        }
+        const verified = examples.filter(ex => ex.verified).length;
+        return verified === examples.length
+            ? `<span class="verify-badge verified" title="実行して出力を確認しました">✔ verified</span>`
+            : `<span class="verify-badge unverified" title="${examples.length - verified} 件の実行例は実行に失敗したため、AI の期待出力を表示しています">⚠ unverified</span>`;
+    }
+
+    /**
+     * ランゲージサーバーのシンボルツリーを正として、Gemini の応答から説明文と実行例だけを取り込む。
+     * シンボルツリーに存在しない要素（Gemini が推測・捏造したもの）は捨て、
+     * 型情報が取れなかった箇所だけ Gemini の値で補う。
+     */
+    private mergeWithSymbolTree(tree: FileSymbolTree, aiJson: GeminiDocResponse): GeminiDocResponse {
+        const aiClasses = new Map((aiJson.classes || []).map(c => [c.name, c]));
+        const aiFunctions = new Map((aiJson.functions || []).map(f => [f.name, f]));
+
+        const mergeFunction = (real: FileSymbolTree['functions'][number], ai: DocFunction | undefined): DocFunction => ({
+            name: real.name,
+            description: ai?.description ?? '',
+            params: real.params.map(p => ({
+                name: p.name,
+                type: p.type || ai?.params?.find(ap => ap.name === p.name)?.type || '',
+            })),
+            returnType: real.returnType || ai?.returnType || '',
+            examples: ai?.examples ?? [],
+        });
+
+        return {
+            fileDescription: aiJson.fileDescription,
+            classes: tree.classes.map(cls => {
+                const aiClass = aiClasses.get(cls.name);
+                const aiMethods = new Map((aiClass?.methods || []).map(m => [m.name, m]));
+                return {
+                    name: cls.name,
+                    description: aiClass?.description ?? '',
+                    methods: cls.methods.map(m => mergeFunction(m, aiMethods.get(m.name))),
+                };
+            }),
+            functions: tree.functions.map(f => mergeFunction(f, aiFunctions.get(f.name))),
+        };
+    }
+
     /**
      * Gemini にソースコード全文を送り、構造・説明・サンプルコード・期待出力を一括生成させる
-     * パーサー不要：Gemini がコード解析を全て行う
+     * symbolTree（ランゲージサーバーから取得した構造）がある場合は、その構造に沿って
+     * 説明文と実行例だけを生成させる。無い場合は Gemini がコード解析を全て行う
+     * docmate.tokenBudget を超えるファイルは宣言単位で分割して1パートずつ生成し、結果を統合する
+     * 応答を得られなかった場合は理由を含む Error を投げる（分割時は全パートが失敗した場合のみ）
+     */
+    async askGeminiForDescriptionsInJson(
+        fileContent: string,
+        fileName: string,
+        geminiService: GeminiService,
+        symbolTree: FileSymbolTree | null = null,
+        signal?: AbortSignal
+    ): Promise<GeminiDocResponse> {
+        const budget = vscode.workspace.getConfiguration('docmate').get<number>('tokenBudget', DEFAULT_TOKEN_BUDGET);
+        const chunks = splitIntoChunks(fileContent, budget);
+        if (chunks.length === 1) {
+            return this.requestDocJson(fileContent, fileName, geminiService, symbolTree, signal);
+        }
+
+        console.log(`✂️ ${fileName}: トークン上限を超えるため ${chunks.length} パートに分割して生成します`);
+        const parts: GeminiDocResponse[] = [];
+        let lastError: unknown;
+        for (const [index, chunk] of chunks.entries()) {
+            const partNote = `
+【分割について】
+このファイルは大きいため分割して送っています。以下のコードはパート ${index + 1}/${chunks.length}（${chunk.startLine}〜${chunk.endLine}行目）です。
+- このパートのコードに定義されているクラス・メソッド・関数だけを出力してください。構造一覧にあってもこのパートに無い要素は出力しないでください。
+- "fileDescription" にはこのパートのコードの概要を書いてください。
+`;
+            try {
+                parts.push(await this.requestDocJson(chunk.text, fileName, geminiService, symbolTree, signal, partNote));
+            } catch (error) {
+                if (isAbortError(error)) {
+                    throw error;
+                }
+                console.warn(`⚠️ ${fileName}: パート ${index + 1}/${chunks.length} の生成に失敗しました`, error);
+                lastError = error;
+            }
+        }
+        if (parts.length === 0) {
+            throw lastError;
+        }
+        return this.mergeDocResponses(parts, fileName, geminiService, signal);
+    }
+
+    /**
+     * パートごとの生成結果を1つにまとめる（reduce）。
+     * クラスは名前ごとにメソッドを合わせ、同名の要素は最初のパートのものを使う。
+     * fileDescription はパートごとの概要を Gemini に統合させる（失敗したら連結する）
      */
-    async askGeminiForDescriptionsInJson(fileContent: string, fileName: string, geminiService: GeminiService): Promise<GeminiDocResponse | null> {
+    private async mergeDocResponses(
+        parts: GeminiDocResponse[],
+        fileName: string,
+        geminiService: GeminiService,
+        signal?: AbortSignal
+    ): Promise<GeminiDocResponse> {
+        const classes = new Map<string, GeminiDocResponse['classes'][number]>();
+        const functions = new Map<string, DocFunction>();
+        for (const part of parts) {
+            for (const cls of (part.classes || [])) {
+                const existing = classes.get(cls.name);
+                if (!existing) {
+                    classes.set(cls.name, { ...cls, methods: [...(cls.methods || [])] });
+                    continue;
+                }
+                if (!existing.description) {
+                    existing.description = cls.description;
+                }
+                for (const method of (cls.methods || [])) {
+                    if (!existing.methods.some(m => m.name === method.name)) {
+                        existing.methods.push(method);
+                    }
+                }
+            }
+            for (const func of (part.functions || [])) {
+                if (!functions.has(func.name)) {
+                    functions.set(func.name, func);
+                }
+            }
+        }
+
+        const descriptions = parts.map(p => p.fileDescription).filter(d => !!d);
+        let fileDescription = descriptions.join(' ');
+        if (descriptions.length > 1) {
+            try {
+                const prompt = `以下はファイル「${fileName}」を分割して書いた、パートごとの概要です。重複をまとめて、ファイル全体の役割や概要を数文の日本語にまとめてください。説明文だけを返し、マークダウンや前置きは含めないでください。\n\n${descriptions.map((d, i) => `パート${i + 1}: ${d}`).join('\n')}`;
+                fileDescription = (await geminiService.generate(prompt, signal)).trim();
+            } catch (error) {
+                if (isAbortError(error)) {
+                    throw error;
+                }
+                console.warn(`⚠️ ${fileName}: 概要の統合に失敗したため、パートごとの概要を連結します`, error);
+            }
+        }
+
+        return {
+            fileDescription,
+            classes: Array.from(classes.values()),
+            functions: Array.from(functions.values()),
+        };
+    }
+
+    /** askGeminiForDescriptionsInJson の1リクエスト分。partNote は分割時のパート情報 */
+    private async requestDocJson(
+        fileContent: string,
+        fileName: string,
+        geminiService: GeminiService,
+        symbolTree: FileSymbolTree | null,
+        signal?: AbortSignal,
+        partNote: string = ''
+    ): Promise<GeminiDocResponse> {
+        // 構造が分かっている場合は、構造の推測ではなく説明と実行例の生成に集中させる
+        const structureSection = symbolTree ? `
+【構造（ランゲージサーバーから取得済み）】
+以下はこのファイルに実際に存在するクラス・メソッド・関数の一覧です。名前・引数・戻り値はこの一覧が正です。
+- この一覧にある要素だけを、同じ名前・同じ分類（classes / functions）で出力してください。要素の追加・省略・名前の変更はしないでください。
+- あなたが生成するのは "fileDescription" と、各要素の "description" と "examples" です。
+${JSON.stringify(symbolTree, null, 2)}
+` : '';
+
         const prompt = `
 あなたはソースコード解析のエキスパートです。
 以下のファイルの内容を読み取り、ファイル全体の概要、クラス、メソッド、トップレベル関数の「説明文（概要）」を抽出・生成してください。
@@ -325,7 +848,8 @@ export class GenerateProjectDocumentService {
 
 【サンプルコードの厳守ルール】
 - require()やimport文は絶対に書かないでください。
-- 対象クラスや関数はすでにインポート済みとして、直接利用してください。
+- 対象クラスや関数はすでにインポート済みとして、直接利用してください（実行時に対象ファイルから同じ名前で読み込まれます）。
+- 実行例はプロジェクトのルートをカレントディレクトリとして実行されます。存在しないファイルやネットワーク、外部サービスに依存しないでください。
 - console.log（または対象言語の標準出力）で結果を出力してください。
 - 非同期処理の場合は適切にawait等で囲んでください。
 - 各メソッド/関数につき1つの実行例を生成してください。
@@ -381,26 +905,13 @@ export class GenerateProjectDocumentService {
 ※ トップレベル関数がないファイルの場合、"functions" は空配列 [] にしてください。
 ※ export function や export const のような「クラスに属さない関数」は必ず "functions" に入れてください。見落とさないでください。
 
+${structureSection}${partNote}
 対象ファイル: ${fileName}
 コード:
 ${fileContent}
 `;
-        let response: string;
-        try {
-            response = await geminiService.fetchGeminiProxyServer(prompt);
-            response = response.replace(/```json/g, '').replace(/```/g, '').trim();
-        } catch (error) {
-            console.error(`${fileName}のGemini API処理でエラー: `, error);
-            return null;
-        }
-
-        try {
-            const parsedJson = JSON.parse(response) as GeminiDocResponse;
-            return parsedJson;
-        } catch (error) {
-            console.error('パース処理でエラーになりました', error);
-            return null;
-        }
+        // スキーマに合わない応答は GeminiService が検証エラーを添えて聞き直す。それでも駄目ならエラーをそのまま投げる
+        return geminiService.generateJson<GeminiDocResponse>(prompt, GEMINI_DOC_RESPONSE_SCHEMA, signal);
     }
 
     /**
@@ -429,6 +940,9 @@ ${fileContent}
         .badge { background: #e1e4e8; padding: 0.2rem 0.5rem; border-radius: 4px; font-size: 0.85rem; font-family: monospace; color: #d73a49; }
         .explain-link { display: inline-block; margin-top: 0.8rem; padding: 0.4rem 0.8rem; background: var(--primary); color: white; border-radius: 4px; text-decoration: none; font-size: 0.9rem; transition: background 0.2s; }
         .explain-link:hover { background: #005a9e; }
+        .verify-badge { display: inline-block; margin-left: 0.6rem; padding: 0.1rem 0.5rem; border-radius: 10px; font-size: 0.8rem; }
+        .verify-badge.verified { background: #e6f4ea; color: #1e7e34; }
+        .verify-badge.unverified { background: #fff4e5; color: #b26a00; }
     </style>
 </head>
 <body>
@@ -441,8 +955,9 @@ ${fileContent}
 
     /**
      * テンプレートに従ってトップページを生成します
+     * parentIndex を指定すると、フォルダ横断の目次へ戻るリンクを付けます（マルチルートワークスペース用）
      */
-    generateIndexHtml(entries: TocEntry[], workspaceName: string = 'Project'): string {
+    generateIndexHtml(entries: TocEntry[], workspaceName: string = 'Project', missingFiles: string[] = [], parentIndex?: string): string {
         // リンクのカード一覧を生成
         const linksHtml = entries.map(entry => `
         <a href="${entry.url}" class="card">
@@ -451,6 +966,13 @@ ${fileContent}
         </a>
     `).join('');
 
+        // 生成できずにページが無いファイルは、目次から消えたように見えないよう一覧で知らせる
+        const missingHtml = missingFiles.length === 0 ? '' : `
+    <div class="missing">
+        <strong>⚠️ ${missingFiles.length} 件のファイルはページを生成できませんでした（<a href="${REPORT_HTML_FILENAME}">生成レポート</a>）</strong>
+        <ul>${missingFiles.map(f => `<li><code>${f}</code></li>`).join('')}</ul>
+    </div>`;
+
         return `
 <!DOCTYPE html>
 <html lang="ja">
@@ -467,14 +989,85 @@ ${fileContent}
         .card:hover { transform: translateY(-3px); box-shadow: 0 6px 12px rgba(0,0,0,0.1); border-color: var(--primary); }
         .card h3 { margin: 0 0 0.5rem 0; color: var(--primary); font-size: 1.2rem; }
         .card p { margin: 0; font-size: 0.95rem; color: #666; }
+        .missing { background: #fff8e1; border: 1px solid #ffe082; border-radius: 8px; padding: 1rem 1.5rem; margin-bottom: 1.5rem; }
+        .missing ul { margin: 0.5rem 0 0; }
+        .report-link { text-align: center; margin: -1rem 0 2rem; }
+        .nav-bar { margin-bottom: 1rem; }
+        .nav-bar a { color: var(--primary); text-decoration: none; }
     </style>
 </head>
-<body>
+<body>${parentIndex ? `
+    <div class="nav-bar"><a href="${parentIndex}">← ワークスペースの目次に戻る</a></div>` : ''}
     <h1>📚 ${workspaceName} のドキュメント</h1>
+    <p class="report-link"><a href="${REPORT_HTML_FILENAME}">📋 生成レポート</a></p>${missingHtml}
     <div class="grid">
         ${linksHtml}
     </div>
 </body>
+</html>`;
+    }
+    /**
+     * マルチルートワークスペースのフォルダ横断の目次を生成します
+     * フォルダごとに見出しとそのフォルダのページへのカードを並べます
+     */
+    generateWorkspaceIndexHtml(
+        sections: { name: string; dirName: string; entries: TocEntry[]; generated: boolean; failed: number }[],
+        workspaceName: string = 'Workspace'
+    ): string {
+        // フォルダ名・ワークスペース名はユーザーが付けた名前なのでエスケープする
+        const title = escapeHtml(workspaceName);
+        const sectionsHtml = sections.map(section => {
+            const name = escapeHtml(section.name);
+            const dirName = escapeHtml(section.dirName);
+            if (!section.generated) {
+                return `
+    <section>
+        <h2>📁 ${name}</h2>
+        <p class="pending">まだ生成されていません</p>
+    </section>`;
+            }
+            const cards = section.entries.map(entry => `
+        <a href="${entry.url}" class="card">
+            <h3>📄 ${entry.fileName}</h3>
+            <p>${entry.description}</p>
+        </a>`).join('');
+            const failed = section.failed > 0 ? ` · <span class="failed">⚠️ 失敗 ${section.failed} 件</span>` : '';
+            return `
+    <section>
+        <h2>📁 <a href="${dirName}/index.html">${name}</a></h2>
+        <p class="meta">${section.entries.length} ファイル · <a href="${dirName}/${REPORT_HTML_FILENAME}">📋 生成レポート</a>${failed}</p>
+        <div class="grid">${cards}
+        </div>
+    </section>`;
+        }).join('');
+
+        return `
+<!DOCTYPE html>
+<html lang="ja">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${title} - API Documentation</title>
+    <style>
+        :root { --primary: #007acc; --bg: #f8f9fa; --text: #333; --border: #e1e4e8; }
+        body { font-family: 'Segoe UI', Tahoma, sans-serif; background: var(--bg); color: var(--text); padding: 2rem; max-width: 1000px; margin: 0 auto; }
+        h1 { text-align: center; color: var(--primary); margin-bottom: 2rem; }
+        h2 { border-bottom: 1px solid var(--border); padding-bottom: 0.5rem; margin-top: 2.5rem; }
+        h2 a { color: inherit; text-decoration: none; }
+        .meta { margin: 0 0 1rem; color: #666; }
+        .pending { color: #666; font-style: italic; }
+        .failed { color: #b26a00; }
+        .grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(300px, 1fr)); gap: 1.5rem; }
+        .card { background: white; padding: 1.5rem; border-radius: 8px; border: 1px solid var(--border); text-decoration: none; color: inherit; transition: transform 0.2s, box-shadow 0.2s; display: block; }
+        .card:hover { transform: translateY(-3px); box-shadow: 0 6px 12px rgba(0,0,0,0.1); border-color: var(--primary); }
+        .card h3 { margin: 0 0 0.5rem 0; color: var(--primary); font-size: 1.2rem; }
+        .card p { margin: 0; font-size: 0.95rem; color: #666; }
+    </style>
+</head>
+<body>
+    <h1>📚 ${title} のドキュメント</h1>
+    ${sectionsHtml}
+</body>
 </html>`;
     }
 }
\ No newline at end of file
@@ -0,0 +1,179 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LlmUsage, formatUsage } from './llm/requestScheduler';
+
+/**
+ * プロジェクトドキュメント生成の実行レポート。
+ * ファイルごとの結果（生成・変更なし・失敗とその理由・サンプルの検証結果）を出力先に report.json / report.html として保存し、
+ * 生成後の表示と「失敗したファイルだけ再生成」に使う。
+ */
+
+export const REPORT_JSON_FILENAME = 'report.json';
+export const REPORT_HTML_FILENAME = 'report.html';
+const REPORT_VERSION = 1;
+
+/**
+ * - generated: 今回生成した
+ * - skipped:   内容が変わっていないので生成しなかった
+ * - failed:    生成に失敗した（前回のページがあればそのまま残っている）
+ * - removed:   ソースファイルが削除されたのでページを削除した
+ * - cancelled: キャンセルされたため処理しなかった
+ */
+export type FileGenerationStatus = 'generated' | 'skipped' | 'failed' | 'removed' | 'cancelled';
+
+/** サンプルコードの実行結果の件数 */
+export interface ExampleStats {
+    verified: number;
+    unverified: number;
+}
+
+export interface FileReport {
+    /** ワークスペースからの相対パス（/ 区切り） */
+    file: string;
+    status: FileGenerationStatus;
+    /** failed の理由 */
+    reason?: string;
+    /** 生成したページの URL（出力先からの相対パス） */
+    url?: string;
+    examples?: ExampleStats;
+}
+
+export interface GenerationReport {
+    version: number;
+    workspaceName: string;
+    startedAt: string;
+    finishedAt: string;
+    /** 全ファイルを作り直したか */
+    force: boolean;
+    /** 失敗したファイルだけを再生成した実行か */
+    retry: boolean;
+    usage?: LlmUsage;
+    files: FileReport[];
+}
+
+export function createReport(workspaceName: string, options: { force: boolean; retry: boolean }): GenerationReport {
+    const now = new Date().toISOString();
+    return { version: REPORT_VERSION, workspaceName, startedAt: now, finishedAt: now, force: options.force, retry: options.retry, files: [] };
+}
+
+/** ステータスごとの件数 */
+export function countByStatus(report: GenerationReport): Record<FileGenerationStatus, number> {
+    const counts: Record<FileGenerationStatus, number> = { generated: 0, skipped: 0, failed: 0, removed: 0, cancelled: 0 };
+    for (const file of report.files) {
+        counts[file.status]++;
+    }
+    return counts;
+}
+
+/** 再生成の対象（失敗・キャンセルで生成できなかったファイル） */
+export function getRetryTargets(report: GenerationReport): string[] {
+    return report.files.filter(f => f.status === 'failed' || f.status === 'cancelled').map(f => f.file);
+}
+
+/** 出力先の report.json を読む。無い・壊れている・バージョンが異なる場合は null */
+export function readReport(outputDir: string): GenerationReport | null {
+    try {
+        const parsed = JSON.parse(fs.readFileSync(path.join(outputDir, REPORT_JSON_FILENAME), 'utf-8')) as GenerationReport;
+        return parsed.version === REPORT_VERSION && Array.isArray(parsed.files) ? parsed : null;
+    } catch {
+        return null;
+    }
+}
+
+/** report.json と、ドキュメントと一緒に閲覧できる report.html を書き出す */
+export function writeReport(outputDir: string, report: GenerationReport): void {
+    fs.writeFileSync(path.join(outputDir, REPORT_JSON_FILENAME), JSON.stringify(report, null, 2));
+    fs.writeFileSync(path.join(outputDir, REPORT_HTML_FILENAME), renderReportHtml(report));
+}
+
+const STATUS_LABELS: Record<FileGenerationStatus, string> = {
+    generated: '✅ 生成',
+    skipped: '⏭ 変更なし',
+    failed: '❌ 失敗',
+    removed: '🗑 削除',
+    cancelled: '⏸ 中断',
+};
+
+/** 失敗を先頭に、同じステータスの中はパス順に並べる */
+const STATUS_ORDER: FileGenerationStatus[] = ['failed', 'cancelled', 'generated', 'skipped', 'removed'];
+
+/** HTML のテキスト・属性値に埋め込む文字列をエスケープする（生成するドキュメントのページでも使う） */
+export function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * レポートを HTML にする。
+ * interactive が true の場合（Webview で表示する場合）は、ドキュメントへの相対リンクの代わりに
+ * 「失敗したファイルを再生成」ボタンを付け、押されたら { command: 'retryFailed' } を postMessage する。
+ */
+export function renderReportHtml(report: GenerationReport, options: { interactive?: boolean } = {}): string {
+    const counts = countByStatus(report);
+    const examples = report.files.reduce(
+        (sum, f) => ({ verified: sum.verified + (f.examples?.verified ?? 0), unverified: sum.unverified + (f.examples?.unverified ?? 0) }),
+        { verified: 0, unverified: 0 }
+    );
+    const retryTargets = getRetryTargets(report);
+
+    const rows = [...report.files]
+        .sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) || a.file.localeCompare(b.file))
+        .map(f => {
+            const name = f.url && f.status !== 'removed' && !options.interactive
+                ? `<a href="${escapeHtml(f.url)}">${escapeHtml(f.file)}</a>`
+                : escapeHtml(f.file);
+            const exampleCell = f.examples
+                ? `${f.examples.verified} verified${f.examples.unverified > 0 ? ` / <span class="unverified">${f.examples.unverified} unverified</span>` : ''}`
+                : '';
+            return `<tr class="${f.status}"><td>${STATUS_LABELS[f.status]}</td><td>${name}</td><td>${exampleCell}</td><td class="reason">${escapeHtml(f.reason ?? '')}</td></tr>`;
+        })
+        .join('\n');
+
+    const retryHtml = options.interactive && retryTargets.length > 0
+        ? `<button id="retry">失敗したファイルを再生成（${retryTargets.length} 件）</button>
+    <script>
+        const vscode = acquireVsCodeApi();
+        document.getElementById('retry').addEventListener('click', () => vscode.postMessage({ command: 'retryFailed' }));
+    </script>`
+        : '';
+
+    return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(report.workspaceName)} - 生成レポート</title>
+    <style>
+        body { font-family: 'Segoe UI', Tahoma, sans-serif; padding: 2rem; max-width: 1100px; margin: 0 auto; color: var(--vscode-editor-foreground, #333); background: var(--vscode-editor-background, #f8f9fa); }
+        h1 { color: var(--vscode-textLink-foreground, #007acc); }
+        .summary span { display: inline-block; margin-right: 1.2rem; }
+        table { width: 100%; border-collapse: collapse; margin-top: 1rem; font-size: 0.92rem; }
+        th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid var(--vscode-widget-border, #e1e4e8); vertical-align: top; }
+        tr.failed td { color: var(--vscode-errorForeground, #c62828); }
+        tr.skipped td, tr.removed td { opacity: 0.7; }
+        .reason { font-family: var(--vscode-editor-font-family, monospace); font-size: 0.85rem; white-space: pre-wrap; word-break: break-word; }
+        .unverified { color: var(--vscode-editorWarning-foreground, #b26a00); }
+        a { color: var(--vscode-textLink-foreground, #007acc); }
+        button { margin-top: 1rem; padding: 6px 14px; border: none; cursor: pointer; background: var(--vscode-button-background, #007acc); color: var(--vscode-button-foreground, #fff); }
+    </style>
+</head>
+<body>
+    <h1>📋 ${escapeHtml(report.workspaceName)} の生成レポート${report.retry ? '（失敗分の再生成）' : ''}</h1>
+    <p>${escapeHtml(report.startedAt)} 〜 ${escapeHtml(report.finishedAt)}${report.usage ? ` / LLM: ${escapeHtml(formatUsage(report.usage))}` : ''}</p>
+    <p class="summary">
+        <span>✅ 生成 ${counts.generated}</span>
+        <span>⏭ 変更なし ${counts.skipped}</span>
+        <span>❌ 失敗 ${counts.failed}</span>
+        <span>⏸ 中断 ${counts.cancelled}</span>
+        <span>🗑 削除 ${counts.removed}</span>
+        <span>🧪 サンプル ${examples.verified} verified / ${examples.unverified} unverified</span>
+    </p>
+    ${options.interactive ? retryHtml : '<p><a href="index.html">← ドキュメントのトップへ</a></p>'}
+    <table>
+        <thead><tr><th>状態</th><th>ファイル</th><th>サンプル</th><th>理由</th></tr></thead>
+        <tbody>
+${rows}
+        </tbody>
+    </table>
+</body>
+</html>`;
+}
@@ -0,0 +1,205 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** .gitignore の1行分のルール */
+interface IgnoreRule {
+    /** ルールが書かれた .gitignore のディレクトリ（ルートからの相対パス、'/' 区切り。ルートは ''） */
+    base: string;
+    regex: RegExp;
+    negate: boolean;
+    dirOnly: boolean;
+}
+
+/**
+ * グロブパターンを正規表現の本体に変換する。
+ * 対応: **, *, ?, [...], {a,b}
+ */
+export function globToRegexSource(glob: string): string {
+    let out = '';
+    let i = 0;
+    while (i < glob.length) {
+        const c = glob[i];
+        if (c === '*') {
+            if (glob[i + 1] === '*') {
+                // "**/" は0個以上のディレクトリ、末尾や "/**" は以降すべて
+                if (glob[i + 2] === '/') {
+                    out += '(?:.*/)?';
+                    i += 3;
+                } else {
+                    out += '.*';
+                    i += 2;
+                }
+                continue;
+            }
+            out += '[^/]*';
+        } else if (c === '?') {
+            out += '[^/]';
+        } else if (c === '[') {
+            const end = glob.indexOf(']', i + 1);
+            if (end === -1) {
+                out += '\\[';
+            } else {
+                const body = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+                out += `[${body}]`;
+                i = end;
+            }
+        } else if (c === '{') {
+            const end = glob.indexOf('}', i + 1);
+            if (end === -1) {
+                out += '\\{';
+            } else {
+                const alternatives = glob.slice(i + 1, end).split(',').map(globToRegexSource);
+                out += `(?:${alternatives.join('|')})`;
+                i = end;
+            }
+        } else if (c === '\\' && i + 1 < glob.length) {
+            out += glob[i + 1].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+            i++;
+        } else {
+            out += c.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+        }
+        i++;
+    }
+    return out;
+}
+
+/**
+ * .gitignore と files.exclude に従って、ファイル・フォルダを除外するかを判定する。
+ * - .gitignore はルートと各サブフォルダのものを必要になった時点で読み込む
+ * - 深い階層の .gitignore ほど優先し、同じファイル内では後の行ほど優先する（! による再包含も対応）
+ * - 除外されたフォルダの中身は走査しない前提（除外フォルダ内の再包含はしない。git と同じ）
+ */
+export class IgnoreMatcher {
+    private readonly excludeRegexes: RegExp[];
+    /** ディレクトリ（相対パス）→ その .gitignore のルール */
+    private readonly gitignoreCache = new Map<string, IgnoreRule[]>();
+
+    /**
+     * @param rootDir       ワークスペースルート（.gitignore を探す起点）
+     * @param excludeGlobs  files.exclude のうち有効なグロブ（ルートからの相対パスで評価）
+     * @param useGitignore  false なら .gitignore を読まない
+     */
+    constructor(
+        private readonly rootDir: string,
+        excludeGlobs: string[] = [],
+        private readonly useGitignore = true
+    ) {
+        this.excludeRegexes = excludeGlobs.map(glob => new RegExp(`^${globToRegexSource(glob.replace(/^\.?\//, ''))}$`));
+    }
+
+    /**
+     * files.exclude の設定値（{ "**\/.git": true, ... }）から有効なグロブだけを取り出す。
+     * when 条件付きのエントリは対象外とする。
+     */
+    static enabledGlobs(filesExclude: Record<string, unknown> | undefined): string[] {
+        return Object.entries(filesExclude ?? {})
+            .filter(([, value]) => value === true)
+            .map(([glob]) => glob);
+    }
+
+    /** .gitignore の内容を直接登録する（baseDir はルートからの相対パス） */
+    addGitignore(text: string, baseDir = ''): void {
+        const base = this.normalize(baseDir);
+        const rules = this.gitignoreCache.get(base) ?? [];
+        rules.push(...this.parseGitignore(text, base));
+        this.gitignoreCache.set(base, rules);
+    }
+
+    /**
+     * ルートからの相対パスが除外対象かどうか。
+     * @param relPath      ルートからの相対パス（OS の区切り文字でも可）
+     * @param isDirectory  ディレクトリなら true（"dir/" のようなパターンの判定に使う）
+     */
+    isIgnored(relPath: string, isDirectory: boolean): boolean {
+        const rel = this.normalize(relPath);
+        if (!rel) {
+            return false;
+        }
+        if (rel === '.git' || rel.endsWith('/.git')) {
+            return true;
+        }
+
+        if (this.excludeRegexes.some(regex => regex.test(rel))) {
+            return true;
+        }
+        if (!this.useGitignore) {
+            return false;
+        }
+
+        // ルート → 深い階層の順に評価し、最後にマッチしたルールを採用する
+        let ignored = false;
+        const segments = rel.split('/');
+        for (let depth = 0; depth < segments.length; depth++) {
+            const base = segments.slice(0, depth).join('/');
+            const target = segments.slice(depth).join('/');
+            for (const rule of this.rulesFor(base)) {
+                if (rule.dirOnly && !isDirectory) {
+                    continue;
+                }
+                if (rule.regex.test(target)) {
+                    ignored = !rule.negate;
+                }
+            }
+        }
+        return ignored;
+    }
+
+    private rulesFor(base: string): IgnoreRule[] {
+        const cached = this.gitignoreCache.get(base);
+        if (cached) {
+            return cached;
+        }
+
+        let rules: IgnoreRule[] = [];
+        try {
+            const gitignorePath = path.join(this.rootDir, base, '.gitignore');
+            if (fs.existsSync(gitignorePath)) {
+                rules = this.parseGitignore(fs.readFileSync(gitignorePath, 'utf8'), base);
+            }
+        } catch (e) {
+            // 読めない .gitignore は無視する
+        }
+        this.gitignoreCache.set(base, rules);
+        return rules;
+    }
+
+    private parseGitignore(text: string, base: string): IgnoreRule[] {
+        const rules: IgnoreRule[] = [];
+        for (const rawLine of text.split(/\r?\n/)) {
+            let line = rawLine.replace(/(?<!\\)\s+$/, '');
+            if (!line || line.startsWith('#')) {
+                continue;
+            }
+
+            let negate = false;
+            if (line.startsWith('!')) {
+                negate = true;
+                line = line.slice(1);
+            } else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+                line = line.slice(1);
+            }
+
+            const dirOnly = line.endsWith('/');
+            if (dirOnly) {
+                line = line.slice(0, -1);
+            }
+            if (!line) {
+                continue;
+            }
+
+            // 途中に "/" を含むパターンは .gitignore の場所からの相対パス、含まなければ任意の階層の名前にマッチ
+            const anchored = line.includes('/');
+            if (line.startsWith('/')) {
+                line = line.slice(1);
+            }
+            const source = globToRegexSource(line);
+            const regex = new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`);
+            rules.push({ base, regex, negate, dirOnly });
+        }
+        return rules;
+    }
+
+    private normalize(relPath: string): string {
+        return relPath.split(path.sep).join('/').replace(/^\.\//, '').replace(/\/+$/, '');
+    }
+}
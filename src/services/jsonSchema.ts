@@ -0,0 +1,75 @@
+/**
+ * LLM に返させる JSON の形を宣言するための、JSON Schema の小さなサブセット。
+ * 各プロバイダの構造化出力（OpenAI の response_format、Ollama の format）に
+ * そのまま渡せる範囲だけを扱い、同じ定義で応答の検証も行う（Gemini にはスキーマを送らず、検証だけに使う）。
+ */
+export interface JsonSchema {
+    type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    description?: string;
+    /** type: 'object' のプロパティ */
+    properties?: Record<string, JsonSchema>;
+    /** type: 'object' で必須のプロパティ名 */
+    required?: string[];
+    /** type: 'array' の要素 */
+    items?: JsonSchema;
+}
+
+/** 検証エラーを最大何件まで報告するか（聞き直しのプロンプトが長くなりすぎないように） */
+const MAX_ERRORS = 10;
+
+function describe(value: unknown): string {
+    if (value === null) {
+        return 'null';
+    }
+    if (Array.isArray(value)) {
+        return 'array';
+    }
+    return typeof value;
+}
+
+function matchesType(value: unknown, type: JsonSchema['type']): boolean {
+    switch (type) {
+        case 'object':
+            return typeof value === 'object' && value !== null && !Array.isArray(value);
+        case 'array':
+            return Array.isArray(value);
+        case 'integer':
+            return Number.isInteger(value);
+        default:
+            return typeof value === type;
+    }
+}
+
+/**
+ * value が schema に一致するか検証し、エラーを "$.examples[0].code: ..." の形式で返す。
+ * 一致していれば空配列。スキーマに無い余分なプロパティは許容する。
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+    const errors: string[] = [];
+    const visit = (current: unknown, node: JsonSchema, currentPath: string) => {
+        if (errors.length >= MAX_ERRORS) {
+            return;
+        }
+        if (!matchesType(current, node.type)) {
+            errors.push(`${currentPath}: expected ${node.type}, got ${describe(current)}`);
+            return;
+        }
+        if (node.type === 'object') {
+            const record = current as Record<string, unknown>;
+            for (const key of node.required ?? []) {
+                if (!(key in record) || record[key] === undefined) {
+                    errors.push(`${currentPath}: missing required property "${key}"`);
+                }
+            }
+            for (const [key, child] of Object.entries(node.properties ?? {})) {
+                if (record[key] !== undefined) {
+                    visit(record[key], child, `${currentPath}.${key}`);
+                }
+            }
+        } else if (node.type === 'array' && node.items) {
+            (current as unknown[]).forEach((item, i) => visit(item, node.items!, `${currentPath}[${i}]`));
+        }
+    };
+    visit(value, schema, path);
+    return errors.slice(0, MAX_ERRORS);
+}
@@ -0,0 +1,133 @@
+import { LangConfigEntry } from './runner';
+import { JsonSchema, validateJson } from './jsonSchema';
+
+/**
+ * 言語設定（langConfig.json 形式）の検証と重ね合わせ。
+ * 拡張機能に同梱の langConfig.json → ユーザー設定 docmate.languages → ワークスペースの .docmate/languages.json の順に重ね、
+ * 後のものほど優先する。上書き側のエントリは変えたいフィールドだけを書けばよく、null を指定するとその言語を無効にする。
+ */
+
+/** 言語キー → 設定 */
+export type LangConfig = Record<string, LangConfigEntry>;
+
+/** 重ね合わせる1層分の設定 */
+export interface LangConfigLayer {
+    /** エラーメッセージに出す設定元（"docmate.languages" など） */
+    source: string;
+    /** JSON.parse した値（未検証） */
+    value: unknown;
+}
+
+const EXECUTION_TYPES = ['terminal', 'iframe-html', 'iframe-react', 'iframe-vue'];
+const SANDBOX_MODES = ['isolated', 'workspace'];
+const SANDBOX_WRAPPERS = ['auto', 'bwrap', 'firejail', 'unshare', 'none'];
+
+const SANDBOX_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        mode: { type: 'string' },
+        timeoutMs: { type: 'number' },
+        maxOutputBytes: { type: 'number' },
+        wrapper: { type: 'string' },
+    },
+};
+
+const ENTRY_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        executionType: { type: 'string' },
+        command: { type: 'string' },
+        filename: { type: 'string' },
+        extensions: { type: 'array', items: { type: 'string' } },
+        deletefile: { type: 'string' },
+        templatecode: { type: 'string' },
+        promptHint: { type: 'string' },
+        sandbox: SANDBOX_SCHEMA,
+    },
+};
+
+/** スキーマに無いキー（"comand" のような書き間違い）を探す */
+function findUnknownKeys(value: Record<string, unknown>, schema: JsonSchema, path: string): string[] {
+    return Object.keys(value)
+        .filter(key => !(key in (schema.properties ?? {})))
+        .map(key => `${path}: unknown property "${key}"`);
+}
+
+function checkEnum(value: unknown, allowed: string[], path: string): string[] {
+    return value === undefined || allowed.includes(value as string)
+        ? []
+        : [`${path}: must be one of ${allowed.map(a => `"${a}"`).join(', ')}`];
+}
+
+/** 1言語分のエントリを検証し、エラーを "python.sandbox.timeoutMs: ..." の形式で返す */
+function validateEntry(lang: string, entry: unknown): string[] {
+    const errors = validateJson(entry, ENTRY_SCHEMA, lang);
+    if (errors.length > 0) {
+        return errors;
+    }
+    const record = entry as LangConfigEntry & Record<string, unknown>;
+    errors.push(
+        ...findUnknownKeys(record, ENTRY_SCHEMA, lang),
+        ...checkEnum(record.executionType, EXECUTION_TYPES, `${lang}.executionType`),
+        ...(record.extensions ?? []).filter(ext => !ext.startsWith('.')).map(ext => `${lang}.extensions: "${ext}" must start with "."`),
+    );
+    if (record.sandbox) {
+        const sandbox = record.sandbox as Record<string, unknown>;
+        errors.push(
+            ...findUnknownKeys(sandbox, SANDBOX_SCHEMA, `${lang}.sandbox`),
+            ...checkEnum(sandbox.mode, SANDBOX_MODES, `${lang}.sandbox.mode`),
+            ...checkEnum(sandbox.wrapper, SANDBOX_WRAPPERS, `${lang}.sandbox.wrapper`),
+        );
+    }
+    return errors;
+}
+
+/**
+ * 設定の層を順に重ね合わせる。
+ * 不正なエントリはその言語ごと読み飛ばし（他の言語は反映する）、エラーを "設定元: パス: 内容" の形式で返す。
+ */
+export function mergeLangConfigs(layers: LangConfigLayer[]): { config: LangConfig; errors: string[] } {
+    const config: LangConfig = {};
+    const errors: string[] = [];
+    const origins = new Map<string, string>();
+
+    for (const { source, value } of layers) {
+        if (value === undefined || value === null) {
+            continue;
+        }
+        if (typeof value !== 'object' || Array.isArray(value)) {
+            errors.push(`${source}: expected an object of languages, got ${Array.isArray(value) ? 'array' : typeof value}`);
+            continue;
+        }
+        for (const [lang, entry] of Object.entries(value as Record<string, unknown>)) {
+            if (entry === null) {
+                delete config[lang];
+                continue;
+            }
+            const entryErrors = validateEntry(lang, entry);
+            if (entryErrors.length > 0) {
+                errors.push(...entryErrors.map(e => `${source}: ${e}`));
+                continue;
+            }
+            const override = entry as LangConfigEntry;
+            const base = config[lang];
+            config[lang] = base
+                ? { ...base, ...override, sandbox: base.sandbox || override.sandbox ? { ...base.sandbox, ...override.sandbox } : undefined }
+                : { ...override };
+            if (!base) {
+                origins.set(lang, source);
+            }
+        }
+    }
+
+    // 新しく追加された言語は、実行に最低限必要なフィールドが揃っているかを重ね合わせた後に確認する
+    for (const [lang, entry] of Object.entries(config)) {
+        const terminal = (entry.executionType ?? 'terminal') === 'terminal';
+        const missing = ['filename', ...(terminal ? ['command'] : [])].filter(key => !entry[key as keyof LangConfigEntry]);
+        if (missing.length > 0) {
+            errors.push(`${origins.get(lang)}: ${lang}: missing required property ${missing.map(m => `"${m}"`).join(', ')}`);
+            delete config[lang];
+        }
+    }
+    return { config, errors };
+}
@@ -0,0 +1,137 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LangConfigEntry } from './runner';
+import { LangConfig, LangConfigLayer, mergeLangConfigs } from './langConfig';
+import { WorkspaceFolderService } from './workspaceFolderService';
+
+/** ワークスペースごとの言語設定ファイル（ワークスペースフォルダからの相対パス） */
+export const WORKSPACE_LANG_CONFIG_PATH = path.join('.docmate', 'languages.json');
+
+/**
+ * 言語設定（実行コマンド・サンドボックス・promptHint など）の読み込み窓口。
+ * 同梱の media/langConfig.json にユーザー設定 docmate.languages と、フォルダごとの .docmate/languages.json を重ねた結果を、
+ * ExecutionService・GeminiService・結果パネルで共有する。
+ * .docmate/languages.json はそのフォルダ（マルチルートではフォルダごと）の設定にだけ重ねる。
+ * 信頼されていないワークスペースでは、実行コマンドを書き換えられないよう .docmate/languages.json と
+ * ワークスペース側の docmate.languages を読まず、信頼された時点で読み込み直す。
+ * 設定やファイルが変わったら読み込み直し、onDidChange で知らせる。
+ */
+export class LangConfigService implements vscode.Disposable {
+    /** 同梱の設定と docmate.languages を重ねたもの（.docmate/languages.json の無いフォルダ・フォルダ外で使う） */
+    private config: LangConfig = {};
+    /** .docmate/languages.json のあるフォルダの設定（キーはフォルダの URI） */
+    private folderConfigs = new Map<string, LangConfig>();
+    private errors: string[] = [];
+    private readonly changeEmitter = new vscode.EventEmitter<LangConfig>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    /** 読み込み直した後に発火する */
+    readonly onDidChange = this.changeEmitter.event;
+
+    constructor(
+        private readonly extensionPath: string,
+        private readonly workspaceFolders: WorkspaceFolderService
+    ) {
+        this.load();
+        if (this.errors.length > 0) {
+            this.showErrors();
+        }
+
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${WORKSPACE_LANG_CONFIG_PATH.replace(/\\/g, '/')}`);
+        watcher.onDidCreate(() => this.reload());
+        watcher.onDidChange(() => this.reload());
+        watcher.onDidDelete(() => this.reload());
+        this.disposables.push(
+            watcher,
+            this.changeEmitter,
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('docmate.languages')) {
+                    this.reload();
+                }
+            }),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.reload()),
+            vscode.workspace.onDidGrantWorkspaceTrust(() => this.reload())
+        );
+    }
+
+    /**
+     * 重ね合わせた言語設定。
+     * resource（ファイルやフォルダの URI）のフォルダの設定を返し、省略時はアクティブなフォルダの設定を返す。
+     */
+    get(resource?: vscode.Uri): LangConfig {
+        const folder = this.workspaceFolders.getActiveFolder(resource);
+        return (folder && this.folderConfigs.get(folder.uri.toString())) ?? this.config;
+    }
+
+    getEntry(lang: string, resource?: vscode.Uri): LangConfigEntry | undefined {
+        return this.get(resource)[lang];
+    }
+
+    /** 直近の読み込みで見つかった設定の誤り */
+    getErrors(): string[] {
+        return [...this.errors];
+    }
+
+    /** 読み込み直して onDidChange を発火する。前回と異なる誤りがあれば警告を表示する */
+    reload(): void {
+        const previousErrors = this.errors.join('\n');
+        this.load();
+        if (this.errors.length > 0 && this.errors.join('\n') !== previousErrors) {
+            this.showErrors();
+        }
+        this.changeEmitter.fire(this.get());
+    }
+
+    private showErrors(): void {
+        const more = this.errors.length > 1 ? `（ほか ${this.errors.length - 1} 件）` : '';
+        vscode.window.showWarningMessage(`DocMate: 言語設定の誤りを無視しました: ${this.errors[0]}${more}`);
+    }
+
+    private load(): void {
+        const trusted = vscode.workspace.isTrusted;
+        const settings = vscode.workspace.getConfiguration('docmate');
+        const layers: LangConfigLayer[] = [
+            { source: 'langConfig.json', value: this.readJsonFile(path.join(this.extensionPath, 'media', 'langConfig.json')) },
+            { source: 'docmate.languages', value: trusted ? settings.get('languages') : settings.inspect('languages')?.globalValue },
+        ];
+        const shared = this.merge(layers);
+        this.config = shared.config;
+        this.errors = shared.errors;
+
+        // フォルダの設定は、共有の設定にそのフォルダの .docmate/languages.json だけを重ねる
+        this.folderConfigs = new Map();
+        for (const folder of trusted ? vscode.workspace.workspaceFolders ?? [] : []) {
+            const filePath = path.join(folder.uri.fsPath, WORKSPACE_LANG_CONFIG_PATH);
+            if (fs.existsSync(filePath)) {
+                const merged = this.merge([
+                    { source: 'docmate.languages', value: shared.config },
+                    { source: path.join(folder.name, WORKSPACE_LANG_CONFIG_PATH), value: this.readJsonFile(filePath) },
+                ]);
+                this.folderConfigs.set(folder.uri.toString(), merged.config);
+                this.errors.push(...merged.errors);
+            }
+        }
+        this.errors.forEach(error => console.warn(`LangConfigService: ${error}`));
+    }
+
+    /** 読めなかった層の理由と、重ね合わせで見つかった誤りをまとめて返す */
+    private merge(layers: LangConfigLayer[]): { config: LangConfig; errors: string[] } {
+        const parseErrors = layers.filter(layer => layer.value instanceof Error).map(layer => `${layer.source}: ${(layer.value as Error).message}`);
+        const merged = mergeLangConfigs(layers.filter(layer => !(layer.value instanceof Error)));
+        return { config: merged.config, errors: [...parseErrors, ...merged.errors] };
+    }
+
+    /** JSON ファイルを読む。読めない・構文が誤っている場合は理由を Error で返す（例外にはしない） */
+    private readJsonFile(filePath: string): unknown {
+        try {
+            return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        } catch (e) {
+            return new Error(e instanceof SyntaxError ? `invalid JSON (${e.message})` : `cannot read file (${e instanceof Error ? e.message : String(e)})`);
+        }
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
@@ -0,0 +1,32 @@
+import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
+import { LlmProvider, LlmRequestOptions } from './llmProvider';
+import { abortable } from '../cancellation';
+
+/**
+ * Google Gemini（@google/generative-ai）を使うプロバイダ。
+ * 使用している SDK（v1 API）は responseSchema に対応していないため、options.responseSchema は送らない
+ * （JSON の形はプロンプトで指示し、検証は呼び出し側で行う）。
+ */
+export class GeminiProvider implements LlmProvider {
+    readonly name = 'gemini';
+    private model: GenerativeModel;
+
+    constructor(apiKey: string, modelName: string) {
+        const genAI = new GoogleGenerativeAI(apiKey);
+        this.model = genAI.getGenerativeModel({ model: modelName });
+    }
+
+    async generate(prompt: string, options?: LlmRequestOptions): Promise<string> {
+        // SDK が signal に対応していないため、中断時は応答を待たずに打ち切る
+        const result = await abortable(this.model.generateContent(prompt), options?.signal);
+        return result.response.text();
+    }
+
+    async *generateStream(prompt: string, options?: LlmRequestOptions): AsyncGenerator<string> {
+        const result = await abortable(this.model.generateContentStream(prompt), options?.signal);
+        for await (const chunk of result.stream) {
+            options?.signal?.throwIfAborted();
+            yield chunk.text();
+        }
+    }
+}
@@ -0,0 +1,147 @@
+import { JsonSchema } from '../jsonSchema';
+
+/** generate() の追加オプション */
+export interface LlmRequestOptions {
+    /** 中断用の signal（コマンドのキャンセル時に abort される） */
+    signal?: AbortSignal;
+    /**
+     * 応答を JSON に限定する場合のスキーマ。
+     * 対応しているプロバイダはネイティブの構造化出力として渡し、非対応なら無視する（検証は呼び出し側で行う）。
+     */
+    responseSchema?: JsonSchema;
+}
+
+/**
+ * LLM プロバイダの共通インターフェース。
+ * Gemini / OpenAI 互換 / ローカル HTTP（Ollama, llama.cpp）などの実装を
+ * GeminiService から同じ形で呼び出せるようにする。
+ */
+export interface LlmProvider {
+    /** プロバイダ名（ログ・エラーメッセージ用） */
+    readonly name: string;
+
+    /**
+     * プロンプトを送信し、モデルの応答テキストをそのまま返す。
+     * JSON のパースなどの後処理は呼び出し側で行う。
+     */
+    generate(prompt: string, options?: LlmRequestOptions): Promise<string>;
+
+    /**
+     * 応答テキストを届いた分から順に返す（任意）。
+     * 未実装のプロバイダでは呼び出し側が generate() にフォールバックする。
+     */
+    generateStream?(prompt: string, options?: LlmRequestOptions): AsyncIterable<string>;
+}
+
+/** docmate.provider で選択できるプロバイダ種別 */
+export type LlmProviderKind = 'gemini' | 'openai' | 'local';
+
+/**
+ * HTTP エラーに付ける情報。RequestScheduler がリトライするかどうか・どれだけ待つかの判断に使う。
+ */
+export interface LlmHttpError extends Error {
+    status?: number;
+    /** Retry-After ヘッダーで指定された待ち時間（ミリ秒） */
+    retryAfterMs?: number;
+}
+
+/** Retry-After ヘッダー（秒数または HTTP 日付）をミリ秒にする */
+export function parseRetryAfter(value: string | null): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * HTTP レスポンスがエラーだった場合に、本文を含めた Error を生成する。
+ * 各プロバイダで同じ形式のメッセージになるよう共通化している。
+ */
+export async function createHttpError(providerName: string, res: Response): Promise<LlmHttpError> {
+    let detail = '';
+    try {
+        detail = (await res.text()).slice(0, 500);
+    } catch (_) { }
+    const error: LlmHttpError = new Error(`${providerName} API error: ${res.status} ${res.statusText}${detail ? ` - ${detail}` : ''}`);
+    error.status = res.status;
+    error.retryAfterMs = parseRetryAfter(res.headers.get('retry-after'));
+    return error;
+}
+
+/** 400 のエラー本文が、スキーマ指定（構造化出力）を受け付けないことによるものか */
+function isSchemaRejection(error: LlmHttpError): boolean {
+    return error.status === 400 && /schema|response_format|\bformat\b|grammar/i.test(error.message);
+}
+
+/**
+ * 構造化出力のスキーマを付けて POST し、サーバーがスキーマ指定を理由に 400 で拒否したら
+ * スキーマ無しで送り直す（各 HTTP プロバイダの共通処理）。
+ * 一度拒否されたら、以後そのプロバイダからはスキーマを送らない。
+ * API キーの誤りなど、スキーマと関係ない 400 はそのままエラーにする。
+ */
+export class SchemaFallback {
+    private rejected = false;
+
+    constructor(private readonly providerName: string) { }
+
+    async post(schema: JsonSchema | undefined, send: (schema: JsonSchema | undefined) => Promise<Response>): Promise<Response> {
+        const sent = this.rejected ? undefined : schema;
+        const res = await send(sent);
+        if (res.ok) {
+            return res;
+        }
+        const error = await createHttpError(this.providerName, res);
+        if (!sent || !isSchemaRejection(error)) {
+            throw error;
+        }
+        console.warn(`${this.providerName}: structured output was rejected, retrying without a schema`, error);
+        this.rejected = true;
+        return this.post(undefined, send);
+    }
+}
+
+/**
+ * ストリーミング応答の本文を1行ずつ返す（SSE・NDJSON の共通処理）。
+ * 中断は fetch に渡した signal で本文の読み込みごと止まる。
+ */
+export async function* readLines(providerName: string, res: Response): AsyncGenerator<string> {
+    if (!res.body) {
+        throw new Error(`${providerName} API error: ストリーミング応答に本文がありません`);
+    }
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for await (const chunk of res.body as unknown as AsyncIterable<Uint8Array>) {
+        buffer += decoder.decode(chunk, { stream: true });
+        let newline: number;
+        while ((newline = buffer.indexOf('\n')) >= 0) {
+            yield buffer.substring(0, newline).replace(/\r$/, '');
+            buffer = buffer.substring(newline + 1);
+        }
+    }
+    buffer += decoder.decode();
+    if (buffer) {
+        yield buffer;
+    }
+}
+
+/**
+ * Server-Sent Events の data: 行の中身を返す。"[DONE]" で終了する。
+ * SSE 以外の行（NDJSON など）はそのまま返す。
+ */
+export async function* readServerSentData(providerName: string, res: Response): AsyncGenerator<string> {
+    for await (const line of readLines(providerName, res)) {
+        const data = line.startsWith('data:') ? line.substring(5).trim() : line.trim();
+        if (!data || /^(?::|event:|id:|retry:)/.test(line)) {
+            continue;
+        }
+        if (data === '[DONE]') {
+            return;
+        }
+        yield data;
+    }
+}
@@ -0,0 +1,67 @@
+import { LlmProvider, LlmRequestOptions, SchemaFallback, readServerSentData } from './llmProvider';
+
+/**
+ * ローカルの LLM サーバーを使うプロバイダ。
+ * Ollama の /api/generate と llama.cpp server の /completion の両方の形式に対応する。
+ *
+ * - baseUrl にパスが含まれていなければ Ollama とみなし /api/generate を付与する
+ * - 応答は Ollama の "response" または llama.cpp の "content" を読む
+ * - ストリーミングは Ollama の NDJSON と llama.cpp の SSE のどちらも同じ形で読める
+ * - JSON スキーマは Ollama なら "format"、llama.cpp なら "json_schema" で渡す
+ */
+export class LocalHttpProvider implements LlmProvider {
+    readonly name = 'local';
+    /** スキーマ指定を 400 で拒否するサーバー（古い Ollama など）には、以後スキーマを送らない */
+    private readonly schemaFallback = new SchemaFallback(this.name);
+
+    constructor(
+        private readonly baseUrl: string,
+        private readonly model: string
+    ) { }
+
+    /** 実際に POST するエンドポイント URL を返す */
+    getEndpoint(): string {
+        const url = new URL(this.baseUrl);
+        if (url.pathname === '' || url.pathname === '/') {
+            url.pathname = '/api/generate';
+        }
+        return url.toString();
+    }
+
+    async generate(prompt: string, options?: LlmRequestOptions): Promise<string> {
+        const res = await this.post(prompt, false, options);
+        const data: any = await res.json();
+        const text = data?.response ?? data?.content;
+        if (typeof text !== 'string') {
+            throw new Error(`${this.name} API error: レスポンスに response / content がありません`);
+        }
+        return text;
+    }
+
+    async *generateStream(prompt: string, options?: LlmRequestOptions): AsyncGenerator<string> {
+        const res = await this.post(prompt, true, options);
+        for await (const data of readServerSentData(this.name, res)) {
+            const parsed = JSON.parse(data);
+            const text = parsed?.response ?? parsed?.content;
+            if (typeof text === 'string' && text) {
+                yield text;
+            }
+        }
+    }
+
+    private async post(prompt: string, stream: boolean, options?: LlmRequestOptions): Promise<Response> {
+        const endpoint = this.getEndpoint();
+        const schemaKey = new URL(endpoint).pathname === '/api/generate' ? 'format' : 'json_schema';
+        return this.schemaFallback.post(options?.responseSchema, (schema) => fetch(endpoint, {
+            method: 'POST',
+            signal: options?.signal,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                model: this.model,
+                prompt,
+                stream,
+                ...(schema ? { [schemaKey]: schema } : {}),
+            }),
+        }));
+    }
+}
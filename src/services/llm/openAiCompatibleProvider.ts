@@ -0,0 +1,62 @@
+import { LlmProvider, LlmRequestOptions, SchemaFallback, readServerSentData } from './llmProvider';
+
+/**
+ * OpenAI 互換の Chat Completions API（/chat/completions）を使うプロバイダ。
+ * OpenAI 本体のほか、Azure OpenAI・vLLM・LM Studio・llama.cpp server などにも接続できる。
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+    readonly name = 'openai';
+    /** response_format の json_schema を 400 で拒否されたサーバーには、以後スキーマを送らない */
+    private readonly schemaFallback = new SchemaFallback(this.name);
+
+    /**
+     * @param baseUrl  API のベース URL（例: https://api.openai.com/v1）
+     * @param model    モデル名（例: gpt-4o-mini）
+     * @param apiKey   Bearer トークン。ローカルサーバーなど不要な場合は空文字
+     */
+    constructor(
+        private readonly baseUrl: string,
+        private readonly model: string,
+        private readonly apiKey: string = ''
+    ) { }
+
+    async generate(prompt: string, options?: LlmRequestOptions): Promise<string> {
+        const res = await this.post(prompt, false, options);
+        const data: any = await res.json();
+        const content = data?.choices?.[0]?.message?.content;
+        if (typeof content !== 'string') {
+            throw new Error(`${this.name} API error: レスポンスに choices[0].message.content がありません`);
+        }
+        return content;
+    }
+
+    /** stream: true で SSE を受け取り、choices[0].delta.content を順に返す */
+    async *generateStream(prompt: string, options?: LlmRequestOptions): AsyncGenerator<string> {
+        const res = await this.post(prompt, true, options);
+        for await (const data of readServerSentData(this.name, res)) {
+            const delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+            if (typeof delta === 'string' && delta) {
+                yield delta;
+            }
+        }
+    }
+
+    private async post(prompt: string, stream: boolean, options?: LlmRequestOptions): Promise<Response> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.apiKey) {
+            headers['Authorization'] = `Bearer ${this.apiKey}`;
+        }
+
+        return this.schemaFallback.post(options?.responseSchema, (schema) => fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            signal: options?.signal,
+            headers,
+            body: JSON.stringify({
+                model: this.model,
+                messages: [{ role: 'user', content: prompt }],
+                ...(stream ? { stream: true } : {}),
+                ...(schema ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema } } } : {}),
+            }),
+        }));
+    }
+}
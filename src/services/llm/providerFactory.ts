@@ -0,0 +1,63 @@
+import * as vscode from 'vscode';
+import { LlmProvider, LlmProviderKind } from './llmProvider';
+import { GeminiProvider } from './geminiProvider';
+import { OpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { LocalHttpProvider } from './localHttpProvider';
+
+/** プロバイダごとの既定値（docmate.model / docmate.baseUrl が未設定の場合に使用） */
+const PROVIDER_DEFAULTS: Record<LlmProviderKind, { model: string; baseUrl: string }> = {
+    gemini: { model: 'gemini-2.5-flash', baseUrl: '' },
+    openai: { model: 'gpt-4o-mini', baseUrl: 'https://api.openai.com/v1' },
+    local: { model: 'llama3.1', baseUrl: 'http://localhost:11434' },
+};
+
+/**
+ * 接続先を決める設定（docmate.provider / docmate.baseUrl）を読む。
+ * 信頼されていないワークスペースでは、ワークスペース側の設定で API キーやソースコードを別のサーバーへ送らせないよう、ユーザー設定だけを使う。
+ */
+function readConnectionSetting<T>(config: vscode.WorkspaceConfiguration, key: string): T | undefined {
+    if (!vscode.workspace.isTrusted) {
+        return config.inspect<T>(key)?.globalValue;
+    }
+    return config.get<T>(key);
+}
+
+/** 選択されているプロバイダの種別（docmate.provider、未設定なら gemini） */
+export function getLlmProviderKind(): LlmProviderKind {
+    return readConnectionSetting<LlmProviderKind>(vscode.workspace.getConfiguration('docmate'), 'provider') || 'gemini';
+}
+
+/**
+ * docmate.* 設定を読み、選択されたプロバイダのインスタンスを生成する。
+ * 必須の設定（Gemini / OpenAI の API キー）が無い場合は Error を投げる。
+ */
+export function createLlmProvider(): LlmProvider {
+    const config = vscode.workspace.getConfiguration('docmate');
+    const kind = getLlmProviderKind();
+    const defaults = PROVIDER_DEFAULTS[kind] ?? PROVIDER_DEFAULTS.gemini;
+
+    const apiKey = config.get<string>('apiKey') || '';
+    // docmate.model の既定値は Gemini 用なので、ユーザーが明示設定した場合のみ他プロバイダでも使う
+    const inspected = config.inspect<string>('model');
+    const userModel = inspected?.workspaceFolderValue ?? inspected?.workspaceValue ?? inspected?.globalValue;
+    const model = kind === 'gemini'
+        ? (config.get<string>('model') || defaults.model)
+        : (userModel || defaults.model);
+    const baseUrl = readConnectionSetting<string>(config, 'baseUrl') || defaults.baseUrl;
+
+    switch (kind) {
+        case 'openai':
+            if (!apiKey && baseUrl === PROVIDER_DEFAULTS.openai.baseUrl) {
+                throw new Error('OpenAI API Key is not configured. Please set docmate.apiKey in settings.');
+            }
+            return new OpenAiCompatibleProvider(baseUrl, model, apiKey);
+        case 'local':
+            return new LocalHttpProvider(baseUrl, model);
+        case 'gemini':
+        default:
+            if (!apiKey) {
+                throw new Error('Gemini API Key is not configured. Please set docmate.apiKey in settings.');
+            }
+            return new GeminiProvider(apiKey, model);
+    }
+}
@@ -0,0 +1,207 @@
+import { estimateTokens } from '../chunkService';
+import { delay, isAbortError } from '../cancellation';
+import { LlmHttpError } from './llmProvider';
+
+/** docmate.rateLimit.* の設定値。0 は無制限 */
+export interface RateLimits {
+    requestsPerMinute: number;
+    tokensPerMinute: number;
+    /** リトライ可能なエラーで再試行する最大回数 */
+    maxRetries: number;
+}
+
+/** LLM の使用量（トークン数は estimateTokens による概算） */
+export interface LlmUsage {
+    requests: number;
+    promptTokens: number;
+    responseTokens: number;
+    /** レート制限・一時的なエラーによる再試行の回数 */
+    retries: number;
+}
+
+/** 直近1分間に送ったリクエスト（TPM の計算用に応答のトークン数も後から足す） */
+interface WindowEntry {
+    time: number;
+    tokens: number;
+}
+
+const WINDOW_MS = 60 * 1000;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60 * 1000;
+/** 一時的な障害とみなすステータス（それ以外の 4xx は設定・リクエストの誤りなので再試行しない） */
+const RETRYABLE_STATUSES = [408, 409, 425, 429, 500, 502, 503, 504];
+/** 接続できない（サーバーが起動していない・ホスト名の誤り）場合は待っても直らない */
+const FATAL_NETWORK_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'CERT_HAS_EXPIRED'];
+
+/**
+ * エラーの HTTP ステータス。
+ * createHttpError の status、または Gemini SDK のメッセージ（"[429 Too Many Requests] ..."）から読む。
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+    if (!(error instanceof Error)) {
+        return undefined;
+    }
+    const status = (error as LlmHttpError).status;
+    if (typeof status === 'number') {
+        return status;
+    }
+    const match = error.message.match(/\[(\d{3}) [^\]]*\]/);
+    return match ? Number(match[1]) : undefined;
+}
+
+/** Retry-After、または Gemini のエラー本文の retryDelay（"30s"）から待ち時間を読む */
+export function getRetryAfterMs(error: unknown): number | undefined {
+    if (!(error instanceof Error)) {
+        return undefined;
+    }
+    const retryAfter = (error as LlmHttpError).retryAfterMs;
+    if (typeof retryAfter === 'number') {
+        return retryAfter;
+    }
+    const match = error.message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Number(match[1]) * 1000 : undefined;
+}
+
+/**
+ * 再試行すれば成功する見込みがあるエラーか。
+ * レート制限（429）・サーバー側の一時的な障害（5xx）・通信の切断は再試行し、
+ * 認証エラーや不正なリクエスト（その他の 4xx）・設定の不足・キャンセルは再試行しない。
+ */
+export function isRetryableError(error: unknown): boolean {
+    if (isAbortError(error) || !(error instanceof Error)) {
+        return false;
+    }
+    const status = getErrorStatus(error);
+    if (status !== undefined) {
+        return RETRYABLE_STATUSES.includes(status) || status >= 500;
+    }
+    // fetch の通信エラーは TypeError("fetch failed") で、原因のコードが cause に入る
+    if (error.name === 'TypeError' && /fetch failed/i.test(error.message)) {
+        const code = (error as { cause?: { code?: string } }).cause?.code;
+        return !code || !FATAL_NETWORK_CODES.includes(code);
+    }
+    return false;
+}
+
+/** 使用量の差分（コマンドの開始時点からの消費量を出すのに使う） */
+export function diffUsage(after: LlmUsage, before: LlmUsage): LlmUsage {
+    return {
+        requests: after.requests - before.requests,
+        promptTokens: after.promptTokens - before.promptTokens,
+        responseTokens: after.responseTokens - before.responseTokens,
+        retries: after.retries - before.retries,
+    };
+}
+
+/** "12 requests, ~34,567 tokens (2 retries)" の形式にする */
+export function formatUsage(usage: LlmUsage): string {
+    const tokens = (usage.promptTokens + usage.responseTokens).toLocaleString('en-US');
+    const retries = usage.retries > 0 ? ` (${usage.retries} ${usage.retries === 1 ? 'retry' : 'retries'})` : '';
+    return `${usage.requests} ${usage.requests === 1 ? 'request' : 'requests'}, ~${tokens} tokens${retries}`;
+}
+
+/**
+ * LLM 呼び出しの中央スケジューラー。
+ * - 直近1分間のリクエスト数・トークン数が RPM / TPM の上限を超えないように送信を待たせる
+ * - リトライ可能なエラーは指数バックオフ（Retry-After があればそれに従う）で再試行する
+ * - レート制限を受けたら、その間は他のリクエストも送らずに待つ
+ * - 送ったリクエスト数・トークン数を累積して、コマンドごとの使用量を出せるようにする
+ */
+export class RequestScheduler {
+    private window: WindowEntry[] = [];
+    /** 429 の Retry-After などで、全リクエストを止めておく時刻 */
+    private pausedUntil = 0;
+    private usage: LlmUsage = { requests: 0, promptTokens: 0, responseTokens: 0, retries: 0 };
+
+    constructor(private readonly getLimits: () => RateLimits) { }
+
+    /** これまでの累積使用量 */
+    getUsage(): LlmUsage {
+        return { ...this.usage };
+    }
+
+    /**
+     * 上限の範囲内になるまで待ってから call を実行し、失敗した場合は再試行する。
+     * 再試行しても成功しなかった場合・再試行できないエラーの場合は、最後のエラーをそのまま投げる。
+     */
+    async run(prompt: string, call: () => Promise<string>, signal?: AbortSignal): Promise<string> {
+        const promptTokens = estimateTokens(prompt);
+        for (let attempt = 0; ; attempt++) {
+            const entry = await this.acquire(promptTokens, signal);
+            try {
+                const text = await call();
+                this.recordResponse(entry, text);
+                return text;
+            } catch (e) {
+                const maxRetries = this.getLimits().maxRetries;
+                if (!isRetryableError(e) || attempt >= maxRetries) {
+                    throw e;
+                }
+                const retryAfter = getRetryAfterMs(e);
+                const wait = retryAfter ?? this.backoff(attempt);
+                if (getErrorStatus(e) === 429) {
+                    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + wait);
+                }
+                this.usage.retries++;
+                console.warn(`RequestScheduler: ${Math.round(wait / 1000)}s 後に再試行します (${attempt + 1}/${maxRetries})`, e);
+                await delay(wait, signal);
+            }
+        }
+    }
+
+    /**
+     * ストリーミングの呼び出し。上限の範囲内になるまで待ってから開始し、届いたチャンクをそのまま返す。
+     * 途中まで届いた応答をやり直すことはできないため、再試行はしない。
+     */
+    async *runStream(prompt: string, open: () => AsyncIterable<string>, signal?: AbortSignal): AsyncGenerator<string> {
+        const entry = await this.acquire(estimateTokens(prompt), signal);
+        let text = '';
+        try {
+            for await (const chunk of open()) {
+                text += chunk;
+                yield chunk;
+            }
+        } finally {
+            this.recordResponse(entry, text);
+        }
+    }
+
+    /** RPM / TPM の枠が空くまで待ち、リクエスト1件分を確保する */
+    private async acquire(tokens: number, signal?: AbortSignal): Promise<WindowEntry> {
+        while (true) {
+            signal?.throwIfAborted();
+            const now = Date.now();
+            if (this.pausedUntil > now) {
+                await delay(this.pausedUntil - now, signal);
+                continue;
+            }
+
+            this.window = this.window.filter(entry => entry.time > now - WINDOW_MS);
+            const { requestsPerMinute, tokensPerMinute } = this.getLimits();
+            const usedTokens = this.window.reduce((sum, entry) => sum + entry.tokens, 0);
+            const withinRpm = requestsPerMinute <= 0 || this.window.length < requestsPerMinute;
+            // 1件で TPM を超える巨大なリクエストは、枠が空になったら送る（永久に待たせない）
+            const withinTpm = tokensPerMinute <= 0 || this.window.length === 0 || usedTokens + tokens <= tokensPerMinute;
+            if (withinRpm && withinTpm) {
+                const entry = { time: now, tokens };
+                this.window.push(entry);
+                this.usage.requests++;
+                this.usage.promptTokens += tokens;
+                return entry;
+            }
+            // 最も古いリクエストが1分の枠から外れるまで待つ
+            await delay(Math.max(10, this.window[0].time + WINDOW_MS - now), signal);
+        }
+    }
+
+    private recordResponse(entry: WindowEntry, text: string): void {
+        const tokens = estimateTokens(text);
+        entry.tokens += tokens;
+        this.usage.responseTokens += tokens;
+    }
+
+    /** 1s, 2s, 4s ... に最大 1s の揺らぎを足す（同時に待った要求が一斉に再送しないように） */
+    private backoff(attempt: number): number {
+        return Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt) + Math.floor(Math.random() * BASE_BACKOFF_MS);
+    }
+}
@@ -0,0 +1,223 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+const DEVDOCS_DOCUMENTS_URL = 'https://documents.devdocs.io';
+const MANIFEST_FILENAME = 'manifest.json';
+const INDEX_FILENAME = 'index.json';
+const DB_FILENAME = 'db.json';
+
+/** ローカルのドキュメントを指す URL のスキーム（fetchContent がネットワークの代わりに db.json から読む） */
+const OFFLINE_URL_PREFIX = 'docmate-offline:';
+
+/** DevDocs の index.json の1エントリ */
+export interface DevDocsIndexEntry {
+    name: string;
+    /** ページのパス（"library/functions#print" のように # 以降がページ内の位置） */
+    path: string;
+    type?: string;
+}
+
+/** 保存済みの docset の情報（manifest.json に記録する） */
+export interface OfflineDocsetInfo {
+    slug: string;
+    source: 'download' | 'import';
+    updatedAt: string; // ISO 8601
+    entries: number;
+    bytes: number;
+}
+
+interface OfflineManifest {
+    docsets: Record<string, OfflineDocsetInfo>;
+}
+
+/** docset の slug として使える名前か（英数字と . ~ - _ のみ。"." や ".." のようにドットだけの名前は不可） */
+export function isValidDocsetSlug(slug: string): boolean {
+    return /^[\w.~-]+$/.test(slug) && !/^\.+$/.test(slug);
+}
+
+/** ローカルのドキュメントを指す URL を作る */
+export function toOfflineUrl(slug: string, entryPath: string): string {
+    return `${OFFLINE_URL_PREFIX}${slug}/${entryPath}`;
+}
+
+/** toOfflineUrl で作った URL を分解する。それ以外の URL なら null */
+export function parseOfflineUrl(url: string): { slug: string; pagePath: string } | null {
+    if (!url.startsWith(OFFLINE_URL_PREFIX)) {
+        return null;
+    }
+    const rest = url.substring(OFFLINE_URL_PREFIX.length).split('#')[0];
+    const slash = rest.indexOf('/');
+    if (slash === -1) {
+        return null;
+    }
+    return { slug: rest.substring(0, slash), pagePath: rest.substring(slash + 1) };
+}
+
+/**
+ * DevDocs 形式の docset（index.json + db.json）を拡張機能のストレージに保存し、オフラインで引けるようにする。
+ * MDN の内容は DevDocs が MDN から変換した docset（javascript / dom / html / css）として保存する。
+ *
+ * <rootDir>/manifest.json
+ * <rootDir>/<slug>/index.json  … エントリ名 → ページパス
+ * <rootDir>/<slug>/db.json     … ページパス → HTML
+ */
+export class OfflineDocStore {
+    private manifest: OfflineManifest | null = null;
+    private readonly indexes = new Map<string, DevDocsIndexEntry[]>();
+    /** db.json は大きいので、直近に使った1つだけメモリに置く */
+    private loadedDb: { slug: string; pages: Record<string, string> } | null = null;
+
+    constructor(private readonly rootDir: string) { }
+
+    /** 保存済みの docset 一覧 */
+    public list(): OfflineDocsetInfo[] {
+        return Object.values(this.readManifest().docsets).sort((a, b) => a.slug.localeCompare(b.slug));
+    }
+
+    public has(slug: string): boolean {
+        return slug in this.readManifest().docsets;
+    }
+
+    /** docset のエントリ一覧。保存されていなければ null */
+    public getIndex(slug: string): DevDocsIndexEntry[] | null {
+        if (!this.has(slug)) {
+            return null;
+        }
+        const cached = this.indexes.get(slug);
+        if (cached) {
+            return cached;
+        }
+        try {
+            const index = JSON.parse(fs.readFileSync(path.join(this.docsetDir(slug), INDEX_FILENAME), 'utf8')) as { entries?: DevDocsIndexEntry[] };
+            const entries = index.entries ?? [];
+            this.indexes.set(slug, entries);
+            return entries;
+        } catch (error) {
+            console.error(`[OfflineDocs] ${slug} の index.json を読み込めませんでした:`, error);
+            return null;
+        }
+    }
+
+    /** ページの HTML。保存されていなければ null */
+    public getPage(slug: string, pagePath: string): string | null {
+        if (!this.has(slug)) {
+            return null;
+        }
+        if (this.loadedDb?.slug !== slug) {
+            try {
+                const pages = JSON.parse(fs.readFileSync(path.join(this.docsetDir(slug), DB_FILENAME), 'utf8')) as Record<string, string>;
+                this.loadedDb = { slug, pages };
+            } catch (error) {
+                console.error(`[OfflineDocs] ${slug} の db.json を読み込めませんでした:`, error);
+                return null;
+            }
+        }
+        return this.loadedDb.pages[pagePath] ?? null;
+    }
+
+    /** DevDocs から docset をダウンロードして保存する（既にあれば上書き） */
+    public async download(slug: string, signal?: AbortSignal): Promise<OfflineDocsetInfo> {
+        const fetchText = async (fileName: string) => {
+            const url = `${DEVDOCS_DOCUMENTS_URL}/${slug}/${fileName}`;
+            console.log(`[OfflineDocs] Downloading ${url}`);
+            const response = await fetch(url, { signal });
+            if (!response.ok) {
+                throw new Error(`${slug} の ${fileName} をダウンロードできませんでした: ${response.status} ${response.statusText}`);
+            }
+            return response.text();
+        };
+        const index = await fetchText(INDEX_FILENAME);
+        const db = await fetchText(DB_FILENAME);
+        return this.save(slug, index, db, 'download');
+    }
+
+    /** DevDocs 形式のフォルダ（index.json と db.json を含む）から docset を取り込む */
+    public importFrom(slug: string, sourceDir: string): OfflineDocsetInfo {
+        const indexPath = path.join(sourceDir, INDEX_FILENAME);
+        const dbPath = path.join(sourceDir, DB_FILENAME);
+        if (!fs.existsSync(indexPath) || !fs.existsSync(dbPath)) {
+            throw new Error(`${sourceDir} に ${INDEX_FILENAME} と ${DB_FILENAME} が見つかりません。`);
+        }
+        return this.save(slug, fs.readFileSync(indexPath, 'utf8'), fs.readFileSync(dbPath, 'utf8'), 'import');
+    }
+
+    public remove(slug: string): void {
+        fs.rmSync(this.docsetDir(slug), { recursive: true, force: true });
+        const manifest = this.readManifest();
+        delete manifest.docsets[slug];
+        this.writeManifest(manifest);
+        this.forget(slug);
+    }
+
+    /** 形式を確認してから書き込み、manifest を更新する */
+    private save(slug: string, indexText: string, dbText: string, source: OfflineDocsetInfo['source']): OfflineDocsetInfo {
+        const dir = this.docsetDir(slug);
+        let entries: number;
+        try {
+            const index = JSON.parse(indexText) as { entries?: unknown };
+            if (!Array.isArray(index.entries)) {
+                throw new Error('entries がありません');
+            }
+            entries = index.entries.length;
+            JSON.parse(dbText);
+        } catch (error) {
+            throw new Error(`${slug} は DevDocs の docset の形式ではありません: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        fs.mkdirSync(dir, { recursive: true });
+        fs.writeFileSync(path.join(dir, INDEX_FILENAME), indexText);
+        fs.writeFileSync(path.join(dir, DB_FILENAME), dbText);
+
+        const info: OfflineDocsetInfo = {
+            slug,
+            source,
+            updatedAt: new Date().toISOString(),
+            entries,
+            bytes: Buffer.byteLength(indexText) + Buffer.byteLength(dbText),
+        };
+        const manifest = this.readManifest();
+        manifest.docsets[slug] = info;
+        this.writeManifest(manifest);
+        this.forget(slug);
+        return info;
+    }
+
+    /**
+     * docset の保存先。slug が rootDir の直下を指さない場合（".." や区切り文字を含む場合）はエラーにし、
+     * ストレージの外への書き込み・削除を防ぐ。
+     */
+    private docsetDir(slug: string): string {
+        const root = path.resolve(this.rootDir);
+        const dir = path.resolve(root, slug);
+        if (!isValidDocsetSlug(slug) || path.dirname(dir) !== root) {
+            throw new Error(`docset の slug が不正です: ${slug}`);
+        }
+        return dir;
+    }
+
+    private forget(slug: string): void {
+        this.indexes.delete(slug);
+        if (this.loadedDb?.slug === slug) {
+            this.loadedDb = null;
+        }
+    }
+
+    private readManifest(): OfflineManifest {
+        if (this.manifest) {
+            return this.manifest;
+        }
+        try {
+            const parsed = JSON.parse(fs.readFileSync(path.join(this.rootDir, MANIFEST_FILENAME), 'utf8')) as OfflineManifest;
+            this.manifest = { docsets: parsed.docsets ?? {} };
+        } catch (e) {
+            this.manifest = { docsets: {} };
+        }
+        return this.manifest;
+    }
+
+    private writeManifest(manifest: OfflineManifest): void {
+        fs.mkdirSync(this.rootDir, { recursive: true });
+        fs.writeFileSync(path.join(this.rootDir, MANIFEST_FILENAME), JSON.stringify(manifest, null, 2));
+        this.manifest = manifest;
+    }
+}
@@ -0,0 +1,197 @@
+/**
+ * ストリーミング中の（まだ閉じていない）JSON から、要約とサンプルを取り出すためのパーサー。
+ * LLM の応答 { "summary": "...", "examples": [{...}, ...] } を届いた分だけ読み、
+ * summary は途中までの文字列を、examples は閉じ括弧まで届いた要素だけを返す。
+ * 最終的な結果は応答の完了後に通常の JSON.parse で確定させる前提なので、
+ * ここでは壊れた入力に対して例外を投げず、読めたところまでを返す。
+ */
+
+export interface PartialSummaryResponse {
+    /** 届いた分までの summary（まだ始まっていなければ undefined） */
+    summary?: string;
+    /** summary の閉じ引用符まで届いたか */
+    summaryComplete: boolean;
+    /**
+     * 閉じ括弧まで届いた examples の要素。
+     * パースできなかった要素も undefined として残し、最終的な JSON.parse の結果と同じ位置に並べる
+     */
+    examples: unknown[];
+}
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+    '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t',
+};
+
+/** text[start] の " から文字列を読む。閉じていない場合は読めたところまでを complete: false で返す */
+function readString(text: string, start: number): { value: string; end: number; complete: boolean } {
+    let value = '';
+    let i = start + 1;
+    while (i < text.length) {
+        const c = text[i];
+        if (c === '"') {
+            return { value, end: i + 1, complete: true };
+        }
+        if (c !== '\\') {
+            value += c;
+            i++;
+            continue;
+        }
+        // エスケープの途中でチャンクが切れている場合は、続きが届くまで出さない
+        if (i + 1 >= text.length) {
+            break;
+        }
+        const next = text[i + 1];
+        if (next === 'u') {
+            const hex = text.substring(i + 2, i + 6);
+            if (hex.length < 4) {
+                break;
+            }
+            value += /^[0-9a-fA-F]{4}$/.test(hex) ? String.fromCharCode(parseInt(hex, 16)) : `\\u${hex}`;
+            i += 6;
+        } else {
+            // \x のような不正なエスケープは、parseGeminiResponse の救済と同じく文字どおりに扱う
+            value += SIMPLE_ESCAPES[next] ?? `\\${next}`;
+            i += 2;
+        }
+    }
+    return { value, end: text.length, complete: false };
+}
+
+/** text[start] から始まる値の終わりの位置。値がまだ閉じていなければ -1 */
+function findValueEnd(text: string, start: number): number {
+    const first = text[start];
+    if (first === '"') {
+        const str = readString(text, start);
+        return str.complete ? str.end : -1;
+    }
+    if (first === '{' || first === '[') {
+        let depth = 0;
+        for (let i = start; i < text.length; i++) {
+            const c = text[i];
+            if (c === '"') {
+                const str = readString(text, i);
+                if (!str.complete) {
+                    return -1;
+                }
+                i = str.end - 1;
+            } else if (c === '{' || c === '[') {
+                depth++;
+            } else if (c === '}' || c === ']') {
+                depth--;
+                if (depth === 0) {
+                    return i + 1;
+                }
+            }
+        }
+        return -1;
+    }
+    // 数値・true/false/null は区切り文字が来るまで確定しない
+    for (let i = start; i < text.length; i++) {
+        if (/[\s,}\]]/.test(text[i])) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+function skipWhitespace(text: string, i: number): number {
+    while (i < text.length && /\s/.test(text[i])) {
+        i++;
+    }
+    return i;
+}
+
+/** 1要素分の JSON をパースする。不正なエスケープは1度だけ救済を試み、それでも駄目なら undefined */
+function parseElement(json: string): unknown {
+    try {
+        return JSON.parse(json);
+    } catch (e) {
+        try {
+            return JSON.parse(json.replace(/\\([^"\\\/bfnrtu])/g, '\\\\$1'));
+        } catch (_) {
+            return undefined;
+        }
+    }
+}
+
+/**
+ * 途中までの応答テキストから summary と完成済みの examples を取り出す。
+ * ```json のフェンスや前置きの文章があっても、最初の { から読む。
+ */
+export function parsePartialSummary(text: string): PartialSummaryResponse {
+    const result: PartialSummaryResponse = { summaryComplete: false, examples: [] };
+    let i = text.indexOf('{');
+    if (i < 0) {
+        return result;
+    }
+    i++;
+
+    while (true) {
+        i = skipWhitespace(text, i);
+        if (i >= text.length || text[i] === '}') {
+            return result;
+        }
+        if (text[i] === ',') {
+            i++;
+            continue;
+        }
+        if (text[i] !== '"') {
+            return result;
+        }
+
+        const key = readString(text, i);
+        if (!key.complete) {
+            return result;
+        }
+        i = skipWhitespace(text, key.end);
+        if (text[i] !== ':') {
+            return result;
+        }
+        i = skipWhitespace(text, i + 1);
+        if (i >= text.length) {
+            return result;
+        }
+
+        if (key.value === 'summary' && text[i] === '"') {
+            const summary = readString(text, i);
+            result.summary = summary.value;
+            result.summaryComplete = summary.complete;
+            if (!summary.complete) {
+                return result;
+            }
+            i = summary.end;
+            continue;
+        }
+
+        if (key.value === 'examples' && text[i] === '[') {
+            i++;
+            while (true) {
+                i = skipWhitespace(text, i);
+                if (i >= text.length) {
+                    return result;
+                }
+                if (text[i] === ']') {
+                    i++;
+                    break;
+                }
+                if (text[i] === ',') {
+                    i++;
+                    continue;
+                }
+                const end = findValueEnd(text, i);
+                if (end < 0) {
+                    return result;
+                }
+                result.examples.push(parseElement(text.substring(i, end)));
+                i = end;
+            }
+            continue;
+        }
+
+        const end = findValueEnd(text, i);
+        if (end < 0) {
+            return result;
+        }
+        i = end;
+    }
+}
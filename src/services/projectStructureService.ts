@@ -0,0 +1,191 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { IgnoreMatcher } from './ignoreMatcher';
+
+/** 行数を数えるファイルサイズの上限（これより大きいファイルは 0 行として扱う） */
+const MAX_LINE_COUNT_BYTES = 2 * 1024 * 1024;
+
+/** プロジェクト構造ツリーのノード */
+export interface StructureNode {
+    name: string;
+    fsPath: string;
+    /** ルートからの相対パス（'/' 区切り。ルートは ''） */
+    relPath: string;
+    isDirectory: boolean;
+    /** 配下のファイル数（ファイル自身は 1） */
+    fileCount: number;
+    /** 配下の合計行数 */
+    lineCount: number;
+    children: StructureNode[];
+}
+
+/** 行数のキャッシュ（ファイルパス → 更新日時・サイズ・行数）。再走査では変更のあったファイルだけを読み直す */
+export type LineCountCache = Map<string, { mtimeMs: number; size: number; lines: number }>;
+
+/**
+ * ワークスペースを走査して構造ツリーを作る。
+ * IgnoreMatcher で除外されたファイル・フォルダは走査しない。
+ * フォルダ → ファイルの順、それぞれ名前順に並べる。
+ * 拡張機能ホストを止めないよう非同期で読み、行数は lineCounts に覚えておいて変更の無いファイルは読み直さない
+ * （走査で見つからなかったファイルのエントリは取り除く）。
+ */
+export async function scanProject(rootDir: string, matcher: IgnoreMatcher, lineCounts: LineCountCache = new Map()): Promise<StructureNode> {
+    const seen = new Set<string>();
+    const root = await scanDirectory(rootDir, '', matcher, lineCounts, seen);
+    for (const filePath of lineCounts.keys()) {
+        if (!seen.has(filePath)) {
+            lineCounts.delete(filePath);
+        }
+    }
+    return root;
+}
+
+async function scanDirectory(dirPath: string, relPath: string, matcher: IgnoreMatcher, lineCounts: LineCountCache, seen: Set<string>): Promise<StructureNode> {
+    const node: StructureNode = {
+        name: path.basename(dirPath),
+        fsPath: dirPath,
+        relPath,
+        isDirectory: true,
+        fileCount: 0,
+        lineCount: 0,
+        children: [],
+    };
+
+    let entries: fs.Dirent[] = [];
+    try {
+        entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+    } catch (e) {
+        // 権限エラー等はスキップ
+        return node;
+    }
+
+    entries.sort((a, b) => {
+        if (a.isDirectory() !== b.isDirectory()) {
+            return a.isDirectory() ? -1 : 1;
+        }
+        return a.name.localeCompare(b.name);
+    });
+
+    for (const entry of entries) {
+        if (!entry.isDirectory() && !entry.isFile()) {
+            continue;
+        }
+        const childRel = relPath ? `${relPath}/${entry.name}` : entry.name;
+        if (matcher.isIgnored(childRel, entry.isDirectory())) {
+            continue;
+        }
+
+        const childPath = path.join(dirPath, entry.name);
+        let child: StructureNode;
+        if (entry.isDirectory()) {
+            child = await scanDirectory(childPath, childRel, matcher, lineCounts, seen);
+        } else {
+            seen.add(childPath);
+            child = {
+                name: entry.name,
+                fsPath: childPath,
+                relPath: childRel,
+                isDirectory: false,
+                fileCount: 1,
+                lineCount: await countLines(childPath, lineCounts),
+                children: [],
+            };
+        }
+        node.children.push(child);
+        node.fileCount += child.fileCount;
+        node.lineCount += child.lineCount;
+    }
+    return node;
+}
+
+/** テキストファイルの行数を数える。バイナリ・大きすぎるファイルは 0。更新日時とサイズが前回と同じならキャッシュを返す */
+async function countLines(filePath: string, lineCounts: LineCountCache): Promise<number> {
+    try {
+        const stat = await fs.promises.stat(filePath);
+        const cached = lineCounts.get(filePath);
+        if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+            return cached.lines;
+        }
+        const lines = stat.size > MAX_LINE_COUNT_BYTES ? 0 : countBufferLines(await fs.promises.readFile(filePath));
+        lineCounts.set(filePath, { mtimeMs: stat.mtimeMs, size: stat.size, lines });
+        return lines;
+    } catch (e) {
+        return 0;
+    }
+}
+
+function countBufferLines(buf: Buffer): number {
+    if (buf.length === 0 || buf.subarray(0, 8000).includes(0)) {
+        return 0;
+    }
+    let lines = 0;
+    for (const byte of buf) {
+        if (byte === 0x0a) {
+            lines++;
+        }
+    }
+    // 最終行が改行で終わっていない場合も1行と数える
+    return buf[buf.length - 1] === 0x0a ? lines : lines + 1;
+}
+
+/** ASCII のツリー表示（Markdown のコードブロックに入れる想定） */
+export function toAsciiTree(root: StructureNode): string {
+    let result = `${root.name}\n`;
+    const walk = (node: StructureNode, prefix: string) => {
+        node.children.forEach((child, index) => {
+            const isLast = index === node.children.length - 1;
+            const stats = child.isDirectory
+                ? ` (${child.fileCount} files, ${child.lineCount} lines)`
+                : ` (${child.lineCount} lines)`;
+            result += `${prefix}${isLast ? '└── ' : '├── '}${child.name}${stats}\n`;
+            if (child.isDirectory) {
+                walk(child, prefix + (isLast ? '    ' : '│   '));
+            }
+        });
+    };
+    walk(root, '');
+    return result;
+}
+
+/**
+ * Mermaid の flowchart（graph TD）に変換する。
+ * maxDepth より深い階層はフォルダ単位にまとめ、大きなプロジェクトでも図が崩れないようにする。
+ */
+export function toMermaid(root: StructureNode, maxDepth = 3): string {
+    const lines = ['graph TD'];
+    const ids = new Map<StructureNode, string>();
+    const label = (node: StructureNode) => {
+        const text = node.isDirectory
+            ? `${node.name}/<br/>${node.fileCount} files · ${node.lineCount} lines`
+            : `${node.name}<br/>${node.lineCount} lines`;
+        return text.replace(/"/g, '#quot;');
+    };
+    // 初出のノードだけラベル付きで定義し、2回目以降は ID で参照する
+    const shape = (node: StructureNode) => {
+        const existing = ids.get(node);
+        if (existing) {
+            return existing;
+        }
+        const id = `n${ids.size}`;
+        ids.set(node, id);
+        return node.isDirectory ? `${id}["${label(node)}"]` : `${id}("${label(node)}")`;
+    };
+
+    const walk = (node: StructureNode, depth: number) => {
+        if (depth >= maxDepth) {
+            return;
+        }
+        for (const child of node.children) {
+            lines.push(`    ${shape(node)} --> ${shape(child)}`);
+            if (child.isDirectory) {
+                walk(child, depth + 1);
+            }
+        }
+    };
+
+    if (root.children.length === 0) {
+        lines.push(`    ${shape(root)}`);
+    }
+    walk(root, 0);
+    return lines.join('\n') + '\n';
+}
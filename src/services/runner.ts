@@ -1,29 +1,205 @@
 import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
-import { exec, ChildProcess } from "child_process";
+import { spawn, ChildProcess } from "child_process";
+import { StringDecoder } from "string_decoder";
 import * as vscode from "vscode";
 
+/**
+ * 実行サンドボックス設定（langConfig.json の各エントリの "sandbox"）
+ */
+export interface SandboxConfig {
+  /**
+   * "isolated": 実行ごとに新しい一時ディレクトリを作り、その中で実行する（既定）
+   * "workspace": 従来どおりワークスペースルートにファイルを書き出して実行する
+   */
+  mode?: "isolated" | "workspace";
+  /**
+   * 実行時間の上限（ミリ秒）。超えたらプロセスツリーごと kill する。0 以下で無制限。
+   * runId 付きの実行（Webview から入力を送れる実行）には適用せず、Stop ボタンで止める
+   */
+  timeoutMs?: number;
+  /** stdout + stderr の合計サイズ上限（バイト）。超えたらプロセスを kill して打ち切る */
+  maxOutputBytes?: number;
+  /**
+   * ネットワーク遮断・書き込み制限のためのラッパー。
+   * "auto" は bwrap → firejail → unshare の順に利用可能なものを使う。
+   */
+  wrapper?: "auto" | "bwrap" | "firejail" | "unshare" | "none";
+}
+
 /**
  * 言語設定インターフェース（langConfig.json の各エントリ相当）
  */
 export interface LangConfigEntry {
+  executionType?: string;
   command?: string;
   filename?: string;
+  /** この言語として扱うソースファイルの拡張子（例: [".py"]）。プロジェクトドキュメントの実行例の言語判定に使う */
+  extensions?: string[];
   deletefile?: string;
   templatecode?: string;
+  /** LLM へ渡す言語固有の追加指示。空文字または未定義の場合は何も追加しない */
+  promptHint?: string;
+  sandbox?: SandboxConfig;
+}
+
+/** sandbox 設定が省略された場合の既定値 */
+const DEFAULT_SANDBOX: Required<SandboxConfig> = {
+  mode: "isolated",
+  timeoutMs: 10_000,
+  maxOutputBytes: 1024 * 1024,
+  wrapper: "none",
+};
+
+type WrapperName = Exclude<SandboxConfig["wrapper"], "auto" | "none" | undefined>;
+
+/** PATH 上のコマンド存在確認結果のキャッシュ */
+const commandAvailability = new Map<string, boolean>();
+
+/** PATH 上に実行可能なコマンドがあるかを返す（結果はキャッシュする） */
+function isCommandAvailable(name: string): boolean {
+  const cached = commandAvailability.get(name);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const dirs = (process.env.PATH || "").split(path.delimiter).filter((d) => d.length > 0);
+  const found = dirs.some((dir) => {
+    try {
+      fs.accessSync(path.join(dir, name), fs.constants.X_OK);
+      return true;
+    } catch (_) {
+      return false;
+    }
+  });
+  commandAvailability.set(name, found);
+  return found;
+}
+
+/**
+ * 使用するラッパーを決定する。Linux 以外、または利用できない場合は null。
+ */
+function resolveWrapper(requested: SandboxConfig["wrapper"]): WrapperName | null {
+  if (!requested || requested === "none" || process.platform !== "linux") {
+    return null;
+  }
+  const candidates: WrapperName[] = requested === "auto" ? ["bwrap", "firejail", "unshare"] : [requested];
+  return candidates.find((c) => isCommandAvailable(c)) ?? null;
+}
+
+/**
+ * ラッパー経由で execCmd を実行するための spawn 引数を組み立てる。
+ * - bwrap:    ルートを読み取り専用でマウントし、runDir のみ書き込み可・ネットワーク無効
+ * - firejail: ネットワーク無効・ルート読み取り専用・runDir のみ書き込み可
+ * - unshare:  ネットワーク名前空間を分離（書き込み制限は無し）
+ */
+function buildWrappedCommand(wrapper: WrapperName, execCmd: string, runDir: string, cwd: string): { file: string; args: string[] } {
+  switch (wrapper) {
+    case "bwrap":
+      return {
+        file: "bwrap",
+        args: [
+          "--ro-bind", "/", "/",
+          "--dev", "/dev",
+          "--proc", "/proc",
+          "--tmpfs", "/tmp",
+          "--bind", runDir, runDir,
+          "--chdir", cwd,
+          "--unshare-net",
+          "--die-with-parent",
+          "sh", "-c", execCmd,
+        ],
+      };
+    case "firejail":
+      return {
+        file: "firejail",
+        args: ["--quiet", "--noprofile", "--net=none", "--read-only=/", `--read-write=${runDir}`, "sh", "-c", execCmd],
+      };
+    case "unshare":
+      return {
+        file: "unshare",
+        args: ["--user", "--map-root-user", "--net", "sh", "-c", execCmd],
+      };
+  }
+}
+
+/**
+ * 子プロセスを、その子孫も含めて強制終了する。
+ * POSIX では detached で起動したプロセスグループごと、Windows では taskkill /T で kill する。
+ */
+function killProcessTree(child: ChildProcess): void {
+  if (child.pid === undefined) {
+    return;
+  }
+  try {
+    if (process.platform === "win32") {
+      spawn("taskkill", ["/pid", String(child.pid), "/T", "/F"]);
+    } else {
+      process.kill(-child.pid, "SIGKILL");
+    }
+  } catch (_) {
+    try {
+      child.kill("SIGKILL");
+    } catch (_) {}
+  }
+}
+
+/** 実行中のプロセス（runId → 子プロセス）。Stop ボタンと stdin 入力の宛先解決に使う */
+const activeRuns = new Map<string, ChildProcess>();
+
+/**
+ * runId で指定した実行を停止する（プロセスツリーごと kill）。
+ * 該当する実行が無い（既に終了している）場合は false を返す。
+ */
+export function stopRun(runId: string): boolean {
+  const child = activeRuns.get(runId);
+  if (!child) {
+    return false;
+  }
+  killProcessTree(child);
+  return true;
+}
+
+/**
+ * runId で指定した実行中プロセスの stdin に data を書き込む。
+ * eof が true の場合は書き込み後に stdin を閉じる（EOF を送る）。
+ */
+export function writeToRun(runId: string, data: string, eof = false): boolean {
+  const child = activeRuns.get(runId);
+  if (!child || !child.stdin || child.stdin.destroyed) {
+    return false;
+  }
+  try {
+    if (data) {
+      child.stdin.write(data);
+    }
+    if (eof) {
+      child.stdin.end();
+    }
+    return true;
+  } catch (_) {
+    return false;
+  }
 }
 
 /**
  * runCommand
- * - workspaceRoot: 実行時のカレント（ワークスペースルート）
+ * - workspaceRoot: 実行時のカレント（ワークスペースルート）。sandbox.mode が "workspace" の場合のみ使用
  * - lang: 選択された言語キー（例: "javascript"）
  * - code: 実行するソースコード
  * - userExecCommand: Webview の textarea でユーザーが入力したコマンド（空文字なら config の command を使う）
- * - conf: 言語ごとの設定（LangConfigEntry）
+ * - conf: 言語ごとの設定（LangConfigEntry）。conf.sandbox で隔離方法・制限を指定する
  * - panel: webview のパネル（メッセージ送信用）
+ * - runId: 実行 ID。指定すると stopRun / writeToRun の対象になり、panel へのメッセージにも付与される
+ *          （指定しない場合は stdin をすぐに閉じる。指定した場合は入力待ちがあるため制限時間を適用しない）
+ * - cwd: 実行時のカレントを実行ディレクトリ以外にする場合に指定（{file} は絶対パスに置き換わる）
+ * - env: 子プロセスに追加する環境変数
  *
  * - panel があれば panel.webview.postMessage で stream/exit/status/error を送る
  * - panel が無ければ stdout/stderr を集めて Promise で返す
+ * - 制限時間（runId が無い場合のみ）・出力サイズの上限を超えた場合はプロセスツリーごと kill する
+ * - signal が中断されたらプロセスツリーを kill し、後片付けの後 AbortError を投げる
  * 戻り値: Promise<{ stdout: string, stderr: string, code: number|null, signal: string|null }>
  */
 export async function runCommand(opts: {
@@ -33,8 +209,26 @@ export async function runCommand(opts: {
   userExecCommand: string;
   conf: LangConfigEntry;
   panel?: vscode.WebviewPanel;
+  runId?: string;
+  cwd?: string;
+  env?: Record<string, string>;
+  signal?: AbortSignal;
 }): Promise<{ stdout: string; stderr: string; code: number | null; signal: string | null }> {
-  const { workspaceRoot, lang, code, userExecCommand, conf, panel } = opts;
+  const { workspaceRoot, lang, code, userExecCommand, conf, panel, runId } = opts;
+  const abortSignal = opts.signal;
+  abortSignal?.throwIfAborted();
+
+  /** panel へのメッセージ送信。runId を付けて Webview 側で実行元のセルに振り分けられるようにする */
+  const post = (message: Record<string, unknown>) => {
+    if (panel) {
+      panel.webview.postMessage(runId ? { ...message, runId } : message);
+    }
+  };
+  const sandbox: Required<SandboxConfig> = { ...DEFAULT_SANDBOX, ...(conf && conf.sandbox) };
+  const isolated = sandbox.mode !== "workspace";
+
+  // 実行ディレクトリ（isolated なら実行ごとに新しい一時ディレクトリ）
+  const runDir = isolated ? fs.mkdtempSync(path.join(os.tmpdir(), "docmate-run-")) : workspaceRoot;
 
   // 決定ファイル名（conf.filename があれば使う。無ければ言語に応じたデフォルト）
   const tmpFileName =
@@ -43,17 +237,58 @@ export async function runCommand(opts: {
       : lang === "typescript"
       ? "sandbox_temp.ts"
       : "sandbox_temp.js";
-  const tmpFilePath = path.join(workspaceRoot, tmpFileName);
+  const tmpFilePath = path.join(runDir, tmpFileName);
+  // カレントが実行ディレクトリと異なる場合は、コマンドからは絶対パスで参照する
+  const cwd = opts.cwd ?? runDir;
+  const fileRef = cwd === runDir ? tmpFileName : `"${tmpFilePath}"`;
+
+  /** 実行後の後片付け（isolated は一時ディレクトリごと削除） */
+  const cleanup = () => {
+    if (isolated) {
+      try {
+        fs.rmSync(runDir, { recursive: true, force: true });
+      } catch (_) {}
+      return;
+    }
+
+    // cleanup temp file
+    try {
+      if (fs.existsSync(tmpFilePath)) {
+        fs.unlinkSync(tmpFilePath);
+      }
+    } catch (_) {}
+
+    // delete additional files listed in conf.deletefile
+    try {
+      const df = conf && conf.deletefile ? conf.deletefile : "";
+      if (typeof df === "string" && df.trim().length > 0) {
+        const targets = df
+          .split(",")
+          .map((s) => s.trim())
+          .filter((s) => s.length > 0);
+        for (const t of targets) {
+          const targetPath = path.isAbsolute(t)
+            ? t
+            : path.join(workspaceRoot, t);
+          try {
+            if (fs.existsSync(targetPath)) {
+              fs.unlinkSync(targetPath);
+            }
+          } catch (_) {}
+        }
+      }
+    } catch (_) {}
+  };
 
   // 1) ファイル書き込み
   try {
     fs.writeFileSync(tmpFilePath, code, { encoding: "utf8" });
   } catch (err) {
-    if (panel)
-      panel.webview.postMessage({
-        kind: "error",
-        text: `一時ファイル書き込みエラー: ${String(err)}`,
-      });
+    post({
+      kind: "error",
+      text: `一時ファイル書き込みエラー: ${String(err)}`,
+    });
+    cleanup();
     throw err;
   }
 
@@ -66,49 +301,139 @@ export async function runCommand(opts: {
       : "";
   let execCmd = "";
   if (baseCmd.length === 0) {
-    execCmd = `node ${tmpFileName}`;
+    execCmd = `node ${fileRef}`;
   } else {
     execCmd = baseCmd.includes("{file}")
-      ? baseCmd.replace(/{file}/g, tmpFileName)
-      : `${baseCmd} ${tmpFileName}`.trim();
+      ? baseCmd.replace(/{file}/g, fileRef)
+      : `${baseCmd} ${fileRef}`.trim();
   }
 
-  if (panel) panel.webview.postMessage({ kind: "status", text: `実行: ${execCmd}` });
+  // ラッパー（bwrap / firejail / unshare）の決定
+  const wrapper = resolveWrapper(sandbox.wrapper);
+  if (sandbox.wrapper !== "none" && !wrapper) {
+    post({
+      kind: "status",
+      text: `サンドボックスラッパー (${sandbox.wrapper}) が利用できないため、ラッパー無しで実行します`,
+    });
+  }
+
+  post({
+    kind: "status",
+    text: `実行: ${execCmd}${wrapper ? ` (${wrapper})` : ""}`,
+  });
 
-  // 3) プロセス起動（exec）
+  // 3) プロセス起動（spawn）
+  // POSIX では detached にしてプロセスグループを作り、タイムアウト時に子孫ごと kill できるようにする
   let child: ChildProcess;
   try {
-    child = exec(execCmd, { cwd: workspaceRoot, maxBuffer: 40 * 1024 * 1024 });
+    const spawnOpts = {
+      cwd,
+      env: opts.env ? { ...process.env, ...opts.env } : process.env,
+      detached: process.platform !== "win32",
+    };
+    if (wrapper) {
+      const wrapped = buildWrappedCommand(wrapper, execCmd, runDir, cwd);
+      child = spawn(wrapped.file, wrapped.args, spawnOpts);
+    } else {
+      child = spawn(execCmd, { ...spawnOpts, shell: true });
+    }
   } catch (err) {
-    if (panel)
-      panel.webview.postMessage({
-        kind: "error",
-        text: `プロセス起動エラー: ${String(err)}`,
-      });
-    try {
-      fs.unlinkSync(tmpFilePath);
-    } catch (_) {}
+    post({
+      kind: "error",
+      text: `プロセス起動エラー: ${String(err)}`,
+    });
+    cleanup();
     throw err;
   }
+  if (runId) {
+    activeRuns.set(runId, child);
+  }
+  // stdin を閉じる前にプロセスが終了した場合の EPIPE を握りつぶす
+  if (child.stdin) {
+    child.stdin.on("error", () => {});
+  }
+  // runId が無い実行（自動実行・プロジェクトドキュメントの実行例）は入力を送れないので、すぐに EOF を送る
+  if (!runId && child.stdin) {
+    child.stdin.end();
+  }
 
   let stdoutBuf = "";
   let stderrBuf = "";
+  let outputBytes = 0;
+  let truncated = false;
+
+  /** stdout / stderr の出力を受け取る。チャンクの境目で分かれたマルチバイト文字はストリームごとの decoder でつなぐ */
+  const createStream = (onText: (s: string) => void) => {
+    const decoder = new StringDecoder("utf8");
+    return {
+      decoder,
+      emit: (s: string) => {
+        if (s) {
+          onText(s);
+        }
+      },
+    };
+  };
+  const stdoutStream = createStream((s) => {
+    stdoutBuf += s;
+    post({ kind: "stream", stdout: s });
+  });
+  const stderrStream = createStream((s) => {
+    stderrBuf += s;
+    post({ kind: "stream", stderr: s });
+  });
+
+  /** 出力サイズの上限までを stream に渡し、超えた分は捨ててプロセスを止める */
+  const acceptOutput = (chunk: Buffer | string, stream: ReturnType<typeof createStream>) => {
+    if (truncated) {
+      return;
+    }
+    const buf = typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+    const limit = sandbox.maxOutputBytes;
+    if (limit <= 0 || outputBytes + buf.length <= limit) {
+      outputBytes += buf.length;
+      stream.emit(stream.decoder.write(buf));
+      return;
+    }
+    // 上限をまたぐチャンクは上限までを残す（途中で切れた文字は decoder に残したまま捨てる）
+    const kept = buf.subarray(0, limit - outputBytes);
+    outputBytes = limit;
+    truncated = true;
+    stream.emit(stream.decoder.write(kept));
+    const notice = `\n[output truncated] 出力が ${limit} バイトを超えたため実行を打ち切りました\n`;
+    stderrBuf += notice;
+    post({ kind: "stream", stderr: notice });
+    killProcessTree(child);
+  };
 
   if (child.stdout) {
-    child.stdout.on("data", (chunk: Buffer | string) => {
-      const s = String(chunk);
-      stdoutBuf += s;
-      if (panel) panel.webview.postMessage({ kind: "stream", stdout: s });
-    });
+    child.stdout.on("data", (chunk: Buffer | string) => acceptOutput(chunk, stdoutStream));
   }
   if (child.stderr) {
-    child.stderr.on("data", (chunk: Buffer | string) => {
-      const s = String(chunk);
-      stderrBuf += s;
-      if (panel) panel.webview.postMessage({ kind: "stream", stderr: s });
-    });
+    child.stderr.on("data", (chunk: Buffer | string) => acceptOutput(chunk, stderrStream));
+  }
+
+  // 制限時間を超えたらプロセスツリーごと kill する
+  // 入力を待つ対話的な実行（runId あり）はユーザーが Stop ボタンで止めるので、時間では打ち切らない
+  let timer: NodeJS.Timeout | undefined;
+  if (sandbox.timeoutMs > 0 && !runId) {
+    timer = setTimeout(() => {
+      const notice = `\n[timeout] ${sandbox.timeoutMs}ms を超えたため強制終了しました\n`;
+      stderrBuf += notice;
+      post({ kind: "stream", stderr: notice });
+      killProcessTree(child);
+    }, sandbox.timeoutMs);
   }
 
+  // キャンセルされたらプロセスツリーごと kill する
+  const onAbort = () => {
+    const notice = `\n[cancelled] 実行をキャンセルしました\n`;
+    stderrBuf += notice;
+    post({ kind: "stream", stderr: notice });
+    killProcessTree(child);
+  };
+  abortSignal?.addEventListener("abort", onAbort, { once: true });
+
   // wait for close
   const result = await new Promise<{
     stdout: string;
@@ -117,44 +442,28 @@ export async function runCommand(opts: {
     signal: string | null;
   }>((resolve) => {
     child.on("close", (code: number | null, signal: string | null) => {
-      if (panel) panel.webview.postMessage({ kind: "exit", code, signal });
-
-      // cleanup temp file
-      try {
-        if (fs.existsSync(tmpFilePath)) fs.unlinkSync(tmpFilePath);
-      } catch (_) {}
-
-      // delete additional files listed in conf.deletefile
-      try {
-        const df = conf && conf.deletefile ? conf.deletefile : "";
-        if (typeof df === "string" && df.trim().length > 0) {
-          const targets = df
-            .split(",")
-            .map((s) => s.trim())
-            .filter((s) => s.length > 0);
-          for (const t of targets) {
-            const targetPath = path.isAbsolute(t)
-              ? t
-              : path.join(workspaceRoot, t);
-            try {
-              if (fs.existsSync(targetPath)) fs.unlinkSync(targetPath);
-            } catch (_) {}
-          }
-        }
-      } catch (_) {}
-
+      if (timer) {
+        clearTimeout(timer);
+      }
+      // decoder に残った末尾のバイトを出す（打ち切った場合は途中で切れた文字なので捨てる）
+      if (!truncated) {
+        stdoutStream.emit(stdoutStream.decoder.end());
+        stderrStream.emit(stderrStream.decoder.end());
+      }
+      post({ kind: "exit", code, signal });
+      cleanup();
       resolve({ stdout: stdoutBuf, stderr: stderrBuf, code, signal });
     });
 
     child.on("error", (err: Error) => {
-      if (panel)
-        panel.webview.postMessage({
-          kind: "error",
-          text: `実行中のエラー: ${String(err)}`,
-        });
-      try {
-        if (fs.existsSync(tmpFilePath)) fs.unlinkSync(tmpFilePath);
-      } catch (_) {}
+      if (timer) {
+        clearTimeout(timer);
+      }
+      post({
+        kind: "error",
+        text: `実行中のエラー: ${String(err)}`,
+      });
+      cleanup();
       resolve({
         stdout: stdoutBuf,
         stderr: stderrBuf + String(err),
@@ -163,6 +472,11 @@ export async function runCommand(opts: {
       });
     });
   });
+  abortSignal?.removeEventListener("abort", onAbort);
+  if (runId) {
+    activeRuns.delete(runId);
+  }
+  abortSignal?.throwIfAborted();
 
   return result;
-}
\ No newline at end of file
+}
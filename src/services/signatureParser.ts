@@ -0,0 +1,195 @@
+/**
+ * ランゲージサーバーの hover / detail に含まれるシグネチャ文字列から
+ * 引数と戻り値の型を取り出すユーティリティ。
+ *
+ * 言語ごとの厳密なパーサーではなく、代表的な表記を best effort で読む。
+ * - TypeScript:  (method) Foo.bar(a: string, b?: number): Promise<void>
+ * - Python:      (function) def foo(a: int, b: str = "x") -> bool
+ * - Go:          func (r *T) Bar(a int, b string) (int, error)
+ * - Rust:        fn(a: i32) -> i32
+ * - Java / C:    String com.example.Foo.bar(int a) / int add(int a, int b)
+ */
+
+export interface ParsedParam {
+    name: string;
+    type: string;
+}
+
+export interface ParsedSignature {
+    params: ParsedParam[];
+    returnType: string;
+}
+
+/** 型の前に置かれる修飾子・キーワード（戻り値型の推定時に取り除く） */
+const SIGNATURE_KEYWORDS = /\b(public|private|protected|internal|static|final|abstract|async|export|default|declare|readonly|override|virtual|inline|extern|const|let|var|function|def|func|fn|fun|method|constructor)\b/g;
+
+/** self / this など、呼び出し側が渡さない引数 */
+const RECEIVER_PARAMS = new Set(['self', 'cls', '&self', '&mut self', 'mut self', 'this']);
+
+const OPEN_BRACKETS: Record<string, string> = { '(': ')', '[': ']', '{': '}', '<': '>' };
+
+/**
+ * start の位置にある開き括弧に対応する閉じ括弧の位置を返す。
+ * 見つからない場合は -1。
+ */
+function findClosing(text: string, start: number): number {
+    const stack: string[] = [];
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '>' && text[i - 1] === '=') {
+            // "=>" の ">" は閉じ括弧として扱わない（Map<K, (x: V) => void> の中でも "<" を閉じない）
+            continue;
+        }
+        if (OPEN_BRACKETS[ch]) {
+            stack.push(OPEN_BRACKETS[ch]);
+        } else if (ch === stack[stack.length - 1]) {
+            stack.pop();
+            if (stack.length === 0) {
+                return i;
+            }
+        }
+    }
+    return -1;
+}
+
+/** 括弧の外にあるカンマで分割する */
+function splitTopLevel(text: string, separator: string = ','): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (OPEN_BRACKETS[ch]) {
+            depth++;
+        } else if (ch === ')' || ch === ']' || ch === '}' || (ch === '>' && text[i - 1] !== '=')) {
+            depth = Math.max(0, depth - 1);
+        }
+        if (ch === separator && depth === 0) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+    if (current.trim()) {
+        parts.push(current);
+    }
+    return parts.map(p => p.trim()).filter(p => p.length > 0);
+}
+
+/** 括弧の外にある最初の文字 ch の位置を返す */
+function indexOfTopLevel(text: string, ch: string): number {
+    let depth = 0;
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (c === ch && depth === 0) {
+            return i;
+        }
+        if (OPEN_BRACKETS[c]) {
+            depth++;
+        } else if (c === ')' || c === ']' || c === '}' || (c === '>' && text[i - 1] !== '=')) {
+            depth = Math.max(0, depth - 1);
+        }
+    }
+    return -1;
+}
+
+function parseParam(raw: string, languageId: string): ParsedParam | null {
+    // デフォルト値を取り除く（"a: int = 3" / "a=3"）
+    const eq = indexOfTopLevel(raw, '=');
+    const text = (eq >= 0 && raw[eq + 1] !== '>' ? raw.slice(0, eq) : raw).trim();
+    if (!text || RECEIVER_PARAMS.has(text) || /^this\s*:/.test(text)) {
+        return null;
+    }
+
+    // "name: type" 形式（TypeScript / Python / Rust / Kotlin / Swift …）
+    const colon = indexOfTopLevel(text, ':');
+    if (colon >= 0) {
+        const name = text.slice(0, colon).replace(/^\.\.\./, '').replace(/\?$/, '').replace(/^(mut|val|var)\s+/, '').trim();
+        if (RECEIVER_PARAMS.has(name)) {
+            return null;
+        }
+        return { name, type: text.slice(colon + 1).trim() };
+    }
+
+    const tokens = text.split(/\s+/);
+    if (tokens.length === 1) {
+        return { name: tokens[0].replace(/^\*+/, ''), type: '' };
+    }
+    // Go は "name type"
+    if (languageId === 'go') {
+        return { name: tokens[0], type: tokens.slice(1).join(' ') };
+    }
+    // C / C++ / Java / C# は "type name"（ポインタ記号は型側に寄せる）
+    const last = tokens[tokens.length - 1];
+    const pointer = last.match(/^[*&]+/)?.[0] ?? '';
+    return { name: last.slice(pointer.length).replace(/\[\]$/, ''), type: `${tokens.slice(0, -1).join(' ')}${pointer}` };
+}
+
+/**
+ * シグネチャ文字列を解析する。
+ * name が与えられた場合はその直後の括弧を引数リストとみなし、
+ * 見つからない場合は最初の括弧を使う。解析できなければ null を返す。
+ */
+export function parseSignature(signature: string, name: string = '', languageId: string = ''): ParsedSignature | null {
+    const text = signature.replace(/\s+/g, ' ').trim();
+
+    // 名前の直後（ジェネリクスを挟んでもよい）にある "(" を探す
+    let nameIdx = -1;
+    let openIdx = -1;
+    if (name) {
+        let from = 0;
+        while ((nameIdx = text.indexOf(name, from)) >= 0) {
+            const prev = text[nameIdx - 1];
+            let j = nameIdx + name.length;
+            if (text[j] === '<') {
+                j = findClosing(text, j) + 1;
+            }
+            while (text[j] === ' ') {
+                j++;
+            }
+            if ((!prev || !/[\w$]/.test(prev)) && j > 0 && text[j] === '(') {
+                openIdx = j;
+                break;
+            }
+            from = nameIdx + name.length;
+        }
+    }
+    if (openIdx < 0) {
+        nameIdx = -1;
+        // 先頭の "(method)" などのラベルは引数リストではないので読み飛ばす
+        const label = text.match(/^\([a-z ]+\)\s*/);
+        openIdx = text.indexOf('(', label ? label[0].length : 0);
+    }
+    if (openIdx < 0) {
+        return null;
+    }
+    const closeIdx = findClosing(text, openIdx);
+    if (closeIdx < 0) {
+        return null;
+    }
+
+    const params = splitTopLevel(text.slice(openIdx + 1, closeIdx))
+        .map(p => parseParam(p, languageId))
+        .filter((p): p is ParsedParam => p !== null);
+
+    // 戻り値: 閉じ括弧の後ろ（": T" / "-> T" / "=> T" / Go の " T"）
+    let returnType = '';
+    const rest = text.slice(closeIdx + 1).trim().replace(/[{;].*$/, '').trim();
+    const suffix = rest.match(/^(?::|->|=>)\s*(.+)$/);
+    if (suffix) {
+        returnType = suffix[1].trim();
+    } else if (rest && languageId === 'go') {
+        returnType = rest;
+    } else if (!rest && nameIdx > 0) {
+        // Java / C 系: 名前の前に戻り値型がある（ラベル・修飾子・所属クラスは除く）
+        returnType = text.slice(0, nameIdx)
+            .replace(/^\([a-z ]+\)\s*/, '')
+            .replace(/\([^)]*\)\s*/, '')
+            .replace(/[\w$]+(\.[\w$]+)*\.\s*$/, '')
+            .replace(SIGNATURE_KEYWORDS, '')
+            .trim();
+    }
+
+    return { params, returnType };
+}
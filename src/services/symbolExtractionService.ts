@@ -0,0 +1,166 @@
+import * as vscode from 'vscode';
+import { parseSignature, ParsedParam } from './signatureParser';
+
+/** ランゲージサーバーから取得した関数・メソッドの構造 */
+export interface ExtractedFunction {
+    name: string;
+    params: ParsedParam[];
+    returnType: string;
+}
+
+export interface ExtractedClass {
+    name: string;
+    methods: ExtractedFunction[];
+}
+
+/** 1ファイル分のシンボルツリー（ドキュメントの骨格） */
+export interface FileSymbolTree {
+    classes: ExtractedClass[];
+    functions: ExtractedFunction[];
+}
+
+/** クラスとして扱うシンボル種別 */
+const CLASS_KINDS = new Set([vscode.SymbolKind.Class, vscode.SymbolKind.Struct]);
+/** クラスのメンバーのうちメソッドとして扱う種別（Python は Function で返すサーバーもある） */
+const METHOD_KINDS = new Set([vscode.SymbolKind.Method, vscode.SymbolKind.Constructor, vscode.SymbolKind.Function]);
+/** トップレベルで関数として扱う種別（変数は hover の型が関数型の場合のみ） */
+const VARIABLE_KINDS = new Set([vscode.SymbolKind.Variable, vscode.SymbolKind.Constant]);
+
+/**
+ * VS Code のランゲージサーバー（Document Symbol / Hover Provider）から
+ * クラス・メソッド・関数の名前、引数、戻り値の型を取り出すサービス。
+ * LLM に構造を推測させる代わりに、実際のシンボルツリーをドキュメントの骨格にする。
+ */
+export class SymbolExtractionService {
+    /**
+     * ファイルのシンボルツリーを返す。
+     * 対応するランゲージサーバーが無い・シンボルが1つも無い場合は null を返す。
+     */
+    async extract(filePath: string): Promise<FileSymbolTree | null> {
+        const uri = vscode.Uri.file(filePath);
+        let document: vscode.TextDocument;
+        let symbols: (vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined;
+        try {
+            // ドキュメントを開いておかないと言語拡張が起動しない場合がある
+            document = await vscode.workspace.openTextDocument(uri);
+            symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>(
+                'vscode.executeDocumentSymbolProvider', uri
+            );
+        } catch (e) {
+            console.warn(`SymbolExtractionService: ${filePath} のシンボル取得に失敗しました。`, e);
+            return null;
+        }
+        if (!symbols || symbols.length === 0) {
+            return null;
+        }
+
+        const roots = this.toDocumentSymbols(symbols);
+        const tree: FileSymbolTree = { classes: [], functions: [] };
+
+        for (const symbol of roots) {
+            if (CLASS_KINDS.has(symbol.kind)) {
+                const methods: ExtractedFunction[] = [];
+                for (const child of symbol.children) {
+                    if (METHOD_KINDS.has(child.kind)) {
+                        methods.push(await this.describeFunction(document, child));
+                    }
+                }
+                tree.classes.push({ name: symbol.name, methods });
+            } else if (symbol.kind === vscode.SymbolKind.Function) {
+                tree.functions.push(await this.describeFunction(document, symbol));
+            } else if (VARIABLE_KINDS.has(symbol.kind)) {
+                // export const foo = () => ... のような関数値の定数
+                const signature = await this.getHoverSignature(document, symbol);
+                if (signature && /=>|\bfunction\b/.test(signature)) {
+                    const parsed = parseSignature(signature, symbol.name, document.languageId);
+                    if (parsed) {
+                        tree.functions.push({ name: symbol.name, ...parsed });
+                    }
+                }
+            }
+        }
+
+        if (tree.classes.length === 0 && tree.functions.length === 0) {
+            return null;
+        }
+        return tree;
+    }
+
+    /**
+     * hover（無ければ symbol.detail）のシグネチャから引数と戻り値を取り出す。
+     */
+    private async describeFunction(document: vscode.TextDocument, symbol: vscode.DocumentSymbol): Promise<ExtractedFunction> {
+        const candidates = [await this.getHoverSignature(document, symbol), symbol.detail];
+        for (const signature of candidates) {
+            if (!signature) {
+                continue;
+            }
+            const parsed = parseSignature(signature, symbol.name, document.languageId);
+            if (parsed) {
+                return { name: symbol.name, ...parsed };
+            }
+        }
+        return { name: symbol.name, params: [], returnType: '' };
+    }
+
+    /**
+     * シンボル名の位置で hover を実行し、最初のコードブロック（シグネチャ）を返す。
+     */
+    private async getHoverSignature(document: vscode.TextDocument, symbol: vscode.DocumentSymbol): Promise<string | null> {
+        let hovers: vscode.Hover[] | undefined;
+        try {
+            hovers = await vscode.commands.executeCommand<vscode.Hover[]>(
+                'vscode.executeHoverProvider', document.uri, symbol.selectionRange.start
+            );
+        } catch {
+            return null;
+        }
+        for (const hover of hovers ?? []) {
+            for (const content of hover.contents) {
+                let signature: string;
+                if (typeof content !== 'string' && 'language' in content) {
+                    // { language, value } 形式はそのままコード
+                    signature = content.value;
+                } else {
+                    // Markdown の場合は ```lang ... ``` の中身だけを使う
+                    const text = typeof content === 'string' ? content : content.value;
+                    signature = text.match(/```[\w-]*\n([\s\S]*?)```/)?.[1] ?? '';
+                }
+                signature = signature.trim();
+                if (signature) {
+                    return signature;
+                }
+            }
+        }
+        return null;
+    }
+
+    /**
+     * SymbolInformation（フラット形式）で返すサーバー向けに、
+     * containerName を使って DocumentSymbol の木構造へ変換する。
+     */
+    private toDocumentSymbols(symbols: (vscode.DocumentSymbol | vscode.SymbolInformation)[]): vscode.DocumentSymbol[] {
+        if (symbols.every(s => 'children' in s)) {
+            return symbols as vscode.DocumentSymbol[];
+        }
+
+        const byName = new Map<string, vscode.DocumentSymbol>();
+        const roots: vscode.DocumentSymbol[] = [];
+        const infos = symbols as vscode.SymbolInformation[];
+        for (const info of infos) {
+            const range = info.location.range;
+            const symbol = new vscode.DocumentSymbol(info.name, '', info.kind, range, range);
+            byName.set(info.name, symbol);
+        }
+        for (const info of infos) {
+            const symbol = byName.get(info.name)!;
+            const parent = info.containerName ? byName.get(info.containerName) : undefined;
+            if (parent && parent !== symbol) {
+                parent.children.push(symbol);
+            } else {
+                roots.push(symbol);
+            }
+        }
+        return roots;
+    }
+}
@@ -0,0 +1,157 @@
+/**
+ * ドキュメント検索結果の順位付け。
+ * 検索語との一致度（完全一致 > メンバー名一致 > 前方一致 > 部分一致 > あいまい一致）に、
+ * エディタ上の文脈（レシーバーの型・import しているモジュール）とエントリの type を加味して点数を付ける。
+ */
+
+/** 検索時のエディタ上の文脈 */
+export interface SearchContext {
+    /** `arr.map` の `arr` のような、検索語の直前のレシーバー */
+    receiver?: string;
+    /** レシーバーの型（ランゲージサーバーのホバーから推定。'array', 'str' など小文字） */
+    receiverType?: string;
+    /** 同じファイルで import しているモジュール名 */
+    imports?: string[];
+}
+
+export interface RankedEntry<T> {
+    entry: T;
+    score: number;
+}
+
+/** 上位2件の点数差がこれ未満なら、ユーザーに選んでもらう */
+const AMBIGUITY_MARGIN = 10;
+
+/** 比較用に正規化する（小文字化・"()"・"prototype." を除く） */
+function normalize(name: string): string {
+    return name.toLowerCase().replace(/\(\)/g, '').replace(/\.prototype\./g, '.').trim();
+}
+
+/** "a.b.c" / "a::b" / "a#b" / "a b" を区切りごとに分ける */
+function segments(name: string): string[] {
+    return name.split(/[.#:\s/]+/).filter(s => s.length > 0);
+}
+
+/** query の文字が name に順番どおり含まれていれば、まとまり具合に応じて 0〜1 を返す */
+function subsequenceRatio(query: string, name: string): number {
+    let qi = 0;
+    for (let ni = 0; ni < name.length && qi < query.length; ni++) {
+        if (name[ni] === query[qi]) {
+            qi++;
+        }
+    }
+    return qi === query.length ? query.length / name.length : 0;
+}
+
+/**
+ * 1エントリの点数。検索語に一致しないエントリは 0。
+ * @param name エントリ名（"str.split()", "Array.prototype.map()" など）
+ * @param type エントリの分類（DevDocs の type、MDN は URL の親ディレクトリ）
+ */
+export function scoreEntry(query: string, name: string, type: string | undefined, context: SearchContext = {}): number {
+    const q = normalize(query);
+    const n = normalize(name);
+    if (!q || !n) {
+        return 0;
+    }
+    const qSegments = segments(q);
+    const nSegments = segments(n);
+    const member = qSegments[qSegments.length - 1];
+    const qualifiers = qSegments.slice(0, -1);
+
+    let score: number;
+    if (name.replace(/\(\)$/, '') === query.replace(/\(\)$/, '')) {
+        score = 100;
+    } else if (n === q) {
+        score = 90;
+    } else if (nSegments[nSegments.length - 1] === member) {
+        score = 85;
+    } else if (n.startsWith(q)) {
+        score = 70 - Math.min(20, n.length - q.length);
+    } else if (nSegments.some(s => s.startsWith(member))) {
+        score = 55;
+    } else if (n.includes(q)) {
+        score = 45;
+    } else {
+        const ratio = subsequenceRatio(q, n);
+        if (ratio === 0) {
+            return 0;
+        }
+        score = 25 * ratio;
+    }
+
+    const haystack = `${n} ${(type ?? '').toLowerCase()}`;
+    // "Array.map" のように検索語自体に付いている修飾子
+    if (qualifiers.length > 0 && qualifiers.every(qualifier => haystack.includes(qualifier))) {
+        score += 10;
+    }
+    // レシーバーの型（arr: number[] → array）がエントリ名か type に含まれる
+    const receiverType = context.receiverType?.toLowerCase();
+    if (receiverType && nSegments.slice(0, -1).concat(segments((type ?? '').toLowerCase())).includes(receiverType)) {
+        score += 25;
+    }
+    // import しているモジュール（os.path, numpy など）のエントリ
+    if ((context.imports ?? []).some(mod => {
+        const m = mod.toLowerCase().replace(/^node:/, '');
+        return m.length > 1 && (n.startsWith(`${m}.`) || haystack.includes(m));
+    })) {
+        score += 15;
+    }
+    // 同点なら短い名前（より基本的なエントリ）を優先
+    return score - n.length * 0.01;
+}
+
+/** 点数の高い順に並べ、一致しないものを除いて limit 件返す */
+export function rankEntries<T>(
+    query: string,
+    entries: T[],
+    describe: (entry: T) => { name: string; type?: string },
+    context: SearchContext = {},
+    limit = 10
+): RankedEntry<T>[] {
+    const ranked: RankedEntry<T>[] = [];
+    for (const entry of entries) {
+        const { name, type } = describe(entry);
+        const score = scoreEntry(query, name, type, context);
+        if (score > 0) {
+            ranked.push({ entry, score });
+        }
+    }
+    // Array.prototype.sort は安定ソートなので、同点なら元の順序（MDN の関連度順など）を保つ
+    return ranked.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * 1位と2位の点数が近く、どちらが目的のページか判断できないか。
+ * どれも点数が付かなかった場合（MDN の検索結果に名前の一致が無い場合など）は比べようがないので、
+ * 検索元の順序どおり先頭を使う（false を返す）。
+ */
+export function isAmbiguous(ranked: { score: number }[]): boolean {
+    return ranked.length > 1 && ranked[0].score > 0 && ranked[0].score - ranked[1].score < AMBIGUITY_MARGIN;
+}
+
+/**
+ * 検索語の直前のテキストからレシーバーを取り出す（"  const x = arr." → "arr"）。
+ * 無ければ undefined。
+ */
+export function parseReceiver(textBefore: string): string | undefined {
+    const match = textBefore.match(/([A-Za-z_$][\w$]*)(?:\(\)|\[\])?\s*\??\.\s*$/);
+    return match ? match[1] : undefined;
+}
+
+/**
+ * ホバーに表示される宣言（"const arr: number[]", "(variable) s: str"）からレシーバーの型名を推定する。
+ * 配列は 'array'、ジェネリクスは外側の型名（List<String> → 'list'）にする。
+ */
+export function parseHoverType(hoverText: string): string | undefined {
+    const match = hoverText.match(/:\s*([^=;\n]+)/);
+    if (!match) {
+        return undefined;
+    }
+    const type = match[1].trim();
+    if (/\[\]$/.test(type) || /^(readonly\s+)?Array</.test(type)) {
+        return 'array';
+    }
+    const name = type.match(/^(?:readonly\s+)?([A-Za-z_$][\w$.]*)/);
+    return name ? name[1].split('.').pop()!.toLowerCase() : undefined;
+}
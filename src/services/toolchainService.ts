@@ -0,0 +1,129 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+
+/**
+ * langConfig.json の command が前提としているコマンド（gcc, javac, ts-node …）の有無とバージョンを調べる。
+ * 実行環境のチェック・サンドボックスの言語一覧の表示・自動実行をするかどうかの判断に使う。
+ */
+
+/** コマンド1つ分の確認結果 */
+export interface ToolStatus {
+    name: string;
+    /** 見つかった実行ファイルのパス（見つからなければ undefined） */
+    path?: string;
+    /** --version などの出力の1行目 */
+    version?: string;
+}
+
+/** 言語1つ分の確認結果 */
+export interface ToolchainStatus {
+    language: string;
+    command: string;
+    tools: ToolStatus[];
+    /** 必要なコマンドがすべて見つかったか */
+    available: boolean;
+}
+
+/** --version 以外でバージョンを表示するコマンド */
+const VERSION_ARGS: Record<string, string[]> = {
+    java: ['-version'],
+    javac: ['-version'],
+    kotlinc: ['-version'],
+    go: ['version'],
+};
+/** シェルの組み込みコマンド（PATH 上には無いので確認しない） */
+const SHELL_BUILTINS = new Set(['cd', 'echo', 'set', 'export', 'exec', 'true', 'false', 'test', '[']);
+const VERSION_TIMEOUT_MS = 5000;
+/** && / || / ; / | で区切られたコマンドの先頭のトークン */
+const SEGMENT_HEAD = /(^|&&|\|\||;|\|)(\s*)("[^"]*"|[^\s&|;]+)/g;
+
+function unquote(token: string): string {
+    return token.startsWith('"') && token.endsWith('"') ? token.slice(1, -1) : token;
+}
+
+/**
+ * command が実行するコマンド名の一覧。
+ * "gcc {file} -o a.out && ./a.out" → ["gcc"]（ビルドした成果物・{file}・シェルの組み込みは除く）
+ */
+export function parseCommandExecutables(command: string): string[] {
+    const names: string[] = [];
+    for (const match of command.matchAll(SEGMENT_HEAD)) {
+        const name = unquote(match[3]);
+        if (name.includes('{file}') || /^\.{1,2}[\\/]/.test(name) || /^\w+=/.test(name) || SHELL_BUILTINS.has(name)) {
+            continue;
+        }
+        if (!names.includes(name)) {
+            names.push(name);
+        }
+    }
+    return names;
+}
+
+/** command の中のコマンド名を、docmate.commandPaths で指定されたパスに置き換える */
+export function applyCommandPaths(command: string, commandPaths: Record<string, string>): string {
+    return command.replace(SEGMENT_HEAD, (match, separator: string, space: string, token: string) => {
+        const override = commandPaths[unquote(token)];
+        if (!override) {
+            return match;
+        }
+        return `${separator}${space}${/\s/.test(override) ? `"${override}"` : override}`;
+    });
+}
+
+function isExecutableFile(filePath: string): boolean {
+    try {
+        fs.accessSync(filePath, process.platform === 'win32' ? fs.constants.F_OK : fs.constants.X_OK);
+        return fs.statSync(filePath).isFile();
+    } catch {
+        return false;
+    }
+}
+
+/** コマンド名を PATH から探す（パスで指定されている場合はそのファイルを確認する）。見つからなければ undefined */
+export function findExecutable(name: string, env: NodeJS.ProcessEnv = process.env): string | undefined {
+    const extensions = process.platform === 'win32'
+        ? ['', ...(env.PATHEXT || '.EXE;.CMD;.BAT;.COM').split(';').filter(e => e.length > 0)]
+        : [''];
+    if (path.isAbsolute(name) || name.includes('/') || name.includes('\\')) {
+        return extensions.map(ext => name + ext).find(isExecutableFile);
+    }
+    const dirs = (env.PATH || env.Path || '').split(path.delimiter).filter(d => d.length > 0);
+    for (const dir of dirs) {
+        const found = extensions.map(ext => path.join(dir, name + ext)).find(isExecutableFile);
+        if (found) {
+            return found;
+        }
+    }
+    return undefined;
+}
+
+/** command を実行するのに足りないコマンド名の一覧（PATH を見るだけで、実行はしない） */
+export function findMissingTools(command: string, commandPaths: Record<string, string> = {}): string[] {
+    return parseCommandExecutables(command).filter(name => !findExecutable(commandPaths[name] ?? name));
+}
+
+/** 実行ファイルのバージョン表示の1行目（取れなければ undefined） */
+function probeVersion(executable: string, name: string): Promise<string | undefined> {
+    const args = VERSION_ARGS[name] ?? ['--version'];
+    return new Promise(resolve => {
+        // Windows の .cmd / .bat はシェル経由でないと起動できない
+        const shell = process.platform === 'win32' && /\.(cmd|bat)$/i.test(executable);
+        execFile(executable, args, { timeout: VERSION_TIMEOUT_MS, shell, windowsHide: true }, (_error, stdout, stderr) => {
+            // java -version のように stderr に出すコマンドもある
+            const line = `${stdout}\n${stderr}`.split(/\r?\n/).map(l => l.trim()).find(l => l.length > 0);
+            resolve(line);
+        });
+    });
+}
+
+/** 言語1つ分の command を確認し、見つかったコマンドのバージョンも取得する */
+export async function checkToolchain(language: string, command: string, commandPaths: Record<string, string> = {}): Promise<ToolchainStatus> {
+    const resolvedCommand = applyCommandPaths(command, commandPaths);
+    const tools: ToolStatus[] = [];
+    for (const name of parseCommandExecutables(command)) {
+        const executable = findExecutable(commandPaths[name] ?? name);
+        tools.push({ name, path: executable, version: executable ? await probeVersion(executable, name) : undefined });
+    }
+    return { language, command: resolvedCommand, tools, available: tools.every(tool => tool.path !== undefined) };
+}
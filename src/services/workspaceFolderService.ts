@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+
+/** ピッカーで「すべてのフォルダ」を選んだ場合の値 */
+export const ALL_WORKSPACE_FOLDERS = 'all';
+
+/**
+ * コマンドの対象にするワークスペースフォルダを決める窓口（マルチルートワークスペース対応）。
+ * クリックされた URI → アクティブなエディタ → 最後にエディタで開いていたフォルダ の順に探す。
+ * 結果パネルなどの Webview にフォーカスがあるとアクティブなエディタが無くなるため、最後のフォルダを覚えておく。
+ */
+export class WorkspaceFolderService implements vscode.Disposable {
+    private lastActive: vscode.WorkspaceFolder | undefined;
+    private readonly changeEmitter = new vscode.EventEmitter<vscode.WorkspaceFolder | undefined>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    /** アクティブなフォルダが別のフォルダに変わったときに発火する */
+    readonly onDidChangeActiveFolder = this.changeEmitter.event;
+
+    constructor() {
+        this.lastActive = this.getActiveFolder();
+        this.disposables.push(
+            this.changeEmitter,
+            vscode.window.onDidChangeActiveTextEditor(() => this.update()),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.update())
+        );
+    }
+
+    /** ワークスペースに2つ以上のフォルダがあるか */
+    isMultiRoot(): boolean {
+        return (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+    }
+
+    /**
+     * 対象のフォルダをその場で決める（ピッカーは出さない）。
+     * 手がかりが無ければ先頭のフォルダ、ワークスペースが開かれていなければ undefined。
+     */
+    getActiveFolder(uri?: vscode.Uri): vscode.WorkspaceFolder | undefined {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        const found = this.folderOf(uri) ?? this.folderOf(vscode.window.activeTextEditor?.document.uri);
+        if (found) {
+            return found;
+        }
+        const last = this.lastActive;
+        return (last && folders.find(folder => folder.uri.toString() === last.uri.toString())) ?? folders[0];
+    }
+
+    /**
+     * コマンドの対象のフォルダを決める。URI やフォルダが1つしかないことで決まらなければピッカーで選ばせる。
+     * allowAll を指定するとピッカーに「すべてのフォルダ」を加え、選ばれたら ALL_WORKSPACE_FOLDERS を返す
+     * （この場合はアクティブなエディタがあってもピッカーを出す）。
+     * ピッカーがキャンセルされた・ワークスペースが開かれていない場合は undefined。
+     */
+    async pickFolder(options: { uri?: vscode.Uri; placeHolder: string; allowAll?: boolean }): Promise<vscode.WorkspaceFolder | typeof ALL_WORKSPACE_FOLDERS | undefined> {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        const fromUri = this.folderOf(options.uri);
+        if (fromUri || folders.length <= 1) {
+            return fromUri ?? folders[0];
+        }
+        const active = this.getActiveFolder();
+        if (!options.allowAll && this.folderOf(vscode.window.activeTextEditor?.document.uri)) {
+            return active;
+        }
+
+        // アクティブなフォルダを先頭に並べる
+        type Item = vscode.QuickPickItem & { folder?: vscode.WorkspaceFolder };
+        const items: Item[] = [...folders]
+            .sort((a, b) => (b === active ? 1 : 0) - (a === active ? 1 : 0) || a.index - b.index)
+            .map(folder => ({ label: `$(root-folder) ${folder.name}`, description: folder.uri.fsPath, folder }));
+        if (options.allowAll) {
+            items.push({ label: '$(files) すべてのフォルダ', description: 'フォルダ横断の目次でまとめる' });
+        }
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: options.placeHolder });
+        if (!picked) {
+            return undefined;
+        }
+        return picked.folder ?? ALL_WORKSPACE_FOLDERS;
+    }
+
+    private folderOf(uri: vscode.Uri | undefined): vscode.WorkspaceFolder | undefined {
+        return uri ? vscode.workspace.getWorkspaceFolder(uri) : undefined;
+    }
+
+    private update(): void {
+        const folder = this.getActiveFolder();
+        if (folder?.uri.toString() !== this.lastActive?.uri.toString()) {
+            this.lastActive = folder;
+            this.changeEmitter.fire(folder);
+        }
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
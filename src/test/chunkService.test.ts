@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import { batchFiles, collapseSummaries, estimateTokens, splitIntoChunks } from '../services/chunkService';
+
+suite('Chunk Service Test Suite', () => {
+	const fn = (name: string, bodyLines: number) =>
+		[`/** ${name} のコメント */`, `export function ${name}() {`, ...Array.from({ length: bodyLines }, (_, i) => `    console.log('${name} line ${i}');`), '}'].join('\n');
+
+	test('Token estimate counts non-ASCII characters individually', () => {
+		assert.strictEqual(estimateTokens('abcdefgh'), 2);
+		assert.strictEqual(estimateTokens('日本語'), 3);
+		assert.strictEqual(estimateTokens(''), 0);
+	});
+
+	test('Small content is returned as a single chunk', () => {
+		const content = fn('a', 3);
+		const chunks = splitIntoChunks(content, 1000);
+		assert.strictEqual(chunks.length, 1);
+		assert.strictEqual(chunks[0].text, content);
+		assert.strictEqual(chunks[0].startLine, 1);
+	});
+
+	test('Large content is split at top-level declarations with their leading comments', () => {
+		const content = [`import * as fs from 'fs';`, '', fn('first', 20), '', fn('second', 20), '', fn('third', 20)].join('\n');
+		const budget = estimateTokens(fn('first', 20)) + 20;
+		const chunks = splitIntoChunks(content, budget);
+
+		assert.ok(chunks.length >= 3);
+		assert.ok(chunks.every(c => c.tokens <= budget));
+		assert.strictEqual(chunks.map(c => c.text).join('\n'), content, 'chunks cover the whole file without overlap');
+		for (const name of ['second', 'third']) {
+			const chunk = chunks.find(c => c.text.includes(`export function ${name}()`))!;
+			assert.ok(chunk.text.startsWith(`/** ${name} のコメント */`));
+		}
+	});
+
+	test('A declaration larger than the budget is split inside, preferring blank lines', () => {
+		const methods = Array.from({ length: 6 }, (_, i) => `    method${i}() {\n${'        doSomething();\n'.repeat(10)}    }\n`);
+		const content = `class Huge {\n${methods.join('\n')}}`;
+		const chunks = splitIntoChunks(content, 120);
+
+		assert.ok(chunks.length > 1);
+		assert.ok(chunks.every(c => c.tokens <= 120));
+		assert.strictEqual(chunks.map(c => c.text).join('\n'), content);
+		assert.ok(chunks.slice(1).every(c => /^\s*method\d\(\)/.test(c.text)), 'split points follow blank lines');
+	});
+
+	test('batchFiles groups small files and splits large ones into parts', () => {
+		const batches = batchFiles([
+			{ name: 'a.ts', content: 'a'.repeat(200) },
+			{ name: 'b.ts', content: 'b'.repeat(200) },
+			{ name: 'big.ts', content: [fn('x', 30), fn('y', 30)].join('\n') },
+			{ name: 'c.ts', content: 'c'.repeat(200) },
+		], 200);
+
+		assert.deepStrictEqual(batches[0].files.map(f => f.name), ['a.ts', 'b.ts']);
+		const parts = batches.filter(b => b.files[0].name === 'big.ts');
+		assert.ok(parts.length > 1);
+		assert.deepStrictEqual(parts.map(b => b.files[0].part!.index), parts.map((_, i) => i + 1));
+		assert.deepStrictEqual(batches[batches.length - 1].files.map(f => f.name), ['c.ts']);
+	});
+
+	test('collapseSummaries merges hierarchically until the budget fits', async () => {
+		const summaries = Array.from({ length: 8 }, (_, i) => `summary ${i} `.repeat(10));
+		let merges = 0;
+		const result = await collapseSummaries(summaries, 100, async group => {
+			merges++;
+			return `merged(${group.length})`;
+		});
+
+		assert.ok(merges > 0);
+		assert.ok(estimateTokens(result.join('\n\n')) <= 100);
+
+		const untouched = await collapseSummaries(['short'], 100, async () => assert.fail('should not merge'));
+		assert.deepStrictEqual(untouched, ['short']);
+	});
+});
@@ -0,0 +1,100 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IgnoreMatcher } from '../services/ignoreMatcher';
+import { buildDependencyGraph, extractJsImports, extractPythonImports, focusOn, toMermaid } from '../services/dependencyGraphService';
+
+suite('Dependency Graph Test Suite', () => {
+	const withProject = (files: Record<string, string>, fn: (root: string) => void) => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'docmate-deps-'));
+		try {
+			for (const [rel, content] of Object.entries(files)) {
+				fs.mkdirSync(path.dirname(path.join(root, rel)), { recursive: true });
+				fs.writeFileSync(path.join(root, rel), content);
+			}
+			fn(root);
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	};
+
+	test('Extracts TS/JS import, export from, require and dynamic import', () => {
+		const specs = extractJsImports([
+			`import * as fs from 'fs';`,
+			`import type { A } from "./types";`,
+			`import './polyfill';`,
+			`export { b } from './b';`,
+			`const c = require('./c');`,
+			`const d = await import('./d');`,
+			`// import { ignored } from './commented';`,
+			`/* import x from './block'; */`,
+		].join('\n')).map(s => s.module);
+
+		assert.deepStrictEqual(specs.sort(), ['./b', './c', './d', './polyfill', './types', 'fs']);
+	});
+
+	test('Extracts Python absolute, relative and multi-line imports', () => {
+		const specs = extractPythonImports([
+			'import os, sys as system',
+			'from . import utils',
+			'from ..core.models import (',
+			'    User,',
+			'    Group,',
+			')',
+			'# import commented',
+		].join('\n'));
+
+		assert.deepStrictEqual(specs.map(s => [s.module, s.level]), [['os', 0], ['sys', 0], ['', 1], ['core.models', 2]]);
+		assert.deepStrictEqual(specs[3].names, ['User', 'Group']);
+	});
+
+	test('Resolves TS modules, detects cycles, entry points and leaves', () => {
+		withProject({
+			'main.ts': `import { a } from './a';\nimport express from 'express';`,
+			'a.ts': `import { b } from './lib';`,
+			'lib/index.ts': `export * from './b.js';`,
+			'lib/b.ts': `import { a } from '../a';`,
+			'util.ts': `export const x = 1;`,
+			'types.d.ts': `declare const y: number;`,
+			'node_modules/dep/index.js': `require('./other');`,
+		}, root => {
+			const graph = buildDependencyGraph(root, new IgnoreMatcher(root, [], false));
+
+			assert.deepStrictEqual(graph.modules, ['a.ts', 'lib/b.ts', 'lib/index.ts', 'main.ts', 'util.ts']);
+			assert.deepStrictEqual(graph.edges['a.ts'], ['lib/index.ts']);
+			assert.deepStrictEqual(graph.edges['lib/index.ts'], ['lib/b.ts']);
+			assert.deepStrictEqual(graph.external['main.ts'], ['express']);
+			assert.deepStrictEqual(graph.cycles, [['a.ts', 'lib/b.ts', 'lib/index.ts']]);
+			assert.deepStrictEqual(graph.entryPoints, ['main.ts', 'util.ts']);
+			assert.deepStrictEqual(graph.leaves, ['util.ts']);
+
+			const mermaid = toMermaid(graph);
+			assert.ok(mermaid.startsWith('graph LR\n'));
+			assert.ok(mermaid.includes('linkStyle'), 'cycle edges are highlighted');
+
+			const focused = focusOn(graph, 'a.ts');
+			assert.deepStrictEqual(focused.modules, ['a.ts', 'lib/b.ts', 'lib/index.ts', 'main.ts']);
+			assert.deepStrictEqual(focused.edges['lib/index.ts'], [], 'edges not touching the focused module are dropped');
+		});
+	});
+
+	test('Resolves Python packages and relative imports', () => {
+		withProject({
+			'app.py': 'from pkg import helpers\nimport pkg.models\nimport requests\n',
+			'pkg/__init__.py': '',
+			'pkg/helpers.py': 'from .models import Item\n',
+			'pkg/models.py': 'from . import constants\n',
+			'pkg/constants.py': 'VALUE = 1\n',
+		}, root => {
+			const graph = buildDependencyGraph(root, new IgnoreMatcher(root, [], false));
+
+			assert.deepStrictEqual(graph.edges['app.py'], ['pkg/helpers.py', 'pkg/models.py']);
+			assert.deepStrictEqual(graph.edges['pkg/helpers.py'], ['pkg/models.py']);
+			assert.deepStrictEqual(graph.edges['pkg/models.py'], ['pkg/constants.py']);
+			assert.deepStrictEqual(graph.external['app.py'], ['requests']);
+			assert.deepStrictEqual(graph.cycles, []);
+			assert.deepStrictEqual(graph.entryPoints, ['app.py', 'pkg/__init__.py']);
+		});
+	});
+});
@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findDeclarations, jsDocToMarkdown, JsDocSource } from '../services/docSources/jsDocSource';
+import { stripManFormatting } from '../services/docSources/manPageSource';
+
+suite('Doc Sources Test Suite', () => {
+	const source = [
+		'/**',
+		' * Formats a price for display.',
+		' * @param {number} amount - The amount in cents',
+		' * @param currency ISO currency code',
+		' * @returns {string} The formatted price',
+		' * @example',
+		' * formatPrice(1234, "EUR");',
+		' */',
+		'export function formatPrice(amount: number, currency = "USD"): string {',
+		'    return "";',
+		'}',
+		'',
+		'class Cart {',
+		'    /** Adds an item. */',
+		'    add(item: string): void {',
+		'        formatPrice(1, "USD");',
+		'    }',
+		'    remove(item: string) { }',
+		'}',
+	].join('\n');
+
+	test('Finds declarations with their JSDoc and skips undocumented members and calls', () => {
+		const price = findDeclarations(source, 'formatPrice', false);
+		assert.strictEqual(price.length, 1, 'the call inside Cart.add is not a declaration');
+		assert.strictEqual(price[0].line, 9);
+		assert.strictEqual(price[0].signature, 'export function formatPrice(amount: number, currency = "USD"): string');
+		assert.ok(price[0].doc.startsWith('Formats a price for display.'));
+
+		assert.strictEqual(findDeclarations(source, 'add', false)[0].doc, 'Adds an item.');
+		assert.deepStrictEqual(findDeclarations(source, 'remove', false), []);
+		assert.strictEqual(findDeclarations('    remove(item: string): void;', 'remove', true).length, 1, '.d.ts members need no comment');
+	});
+
+	test('JSDoc tags are rendered as Markdown', () => {
+		const markdown = jsDocToMarkdown(findDeclarations(source, 'formatPrice', false)[0].doc);
+		assert.ok(markdown.startsWith('Formats a price for display.\n\n**Parameters:**'));
+		assert.ok(markdown.includes('- `amount` (number): The amount in cents'));
+		assert.ok(markdown.includes('- `currency`: ISO currency code'));
+		assert.ok(markdown.includes('**Returns:** `string` The formatted price'));
+		assert.ok(markdown.includes('```\nformatPrice(1234, "EUR");\n```'));
+	});
+
+	test('JsDocSource searches imported package typings and workspace sources', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'docmate-jsdoc-'));
+		try {
+			fs.mkdirSync(path.join(root, 'src'));
+			fs.writeFileSync(path.join(root, 'src', 'price.ts'), source);
+			const pkgDir = path.join(root, 'node_modules', 'tiny-lib', 'types');
+			fs.mkdirSync(pkgDir, { recursive: true });
+			fs.writeFileSync(path.join(root, 'node_modules', 'tiny-lib', 'package.json'), '{"types": "types/index.d.ts"}');
+			fs.writeFileSync(path.join(pkgDir, 'index.d.ts'), '/** Debounces fn. */\nexport declare function debounce(fn: () => void, ms: number): () => void;\n');
+
+			const jsdoc = new JsDocSource();
+			const local = await jsdoc.search({ keyword: 'formatPrice', language: 'typescript', context: {}, workspaceRoot: root });
+			assert.strictEqual(local.length, 1);
+			assert.strictEqual(local[0].type, 'src/price.ts:9');
+			assert.ok(local[0].url.endsWith('/src/price.ts#L9'));
+			assert.ok(local[0].content!.includes('**Parameters:**'));
+
+			const typed = await jsdoc.search({ keyword: 'debounce', language: 'typescript', context: { imports: ['tiny-lib'] }, workspaceRoot: root });
+			assert.strictEqual(typed[0].type, 'node_modules/tiny-lib/types/index.d.ts:2');
+			assert.ok(typed[0].content!.includes('Debounces fn.'));
+
+			const notImported = await jsdoc.search({ keyword: 'debounce', language: 'typescript', context: {}, workspaceRoot: root });
+			assert.deepStrictEqual(notImported, [], 'node_modules is only searched for imported packages');
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+
+	test('man formatting is stripped', () => {
+		assert.strictEqual(stripManFormatting('N\bNA\bAM\bME\bE \x1b[1mprintf\x1b[0m _\bf_\bo_\bo'), 'NAME printf foo');
+	});
+});
@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { buildExampleHarness, harnessLanguage } from '../services/exampleHarness';
+
+suite('Example Harness Test Suite', () => {
+	const commandFor = (lang: string) => ({ javascript: 'node {file}', typescript: 'ts-node {file}', python: 'python3 {file}' } as Record<string, string>)[lang];
+	let root: string;
+
+	setup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'docmate-harness-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('JavaScript examples run with the documented module loaded', () => {
+		fs.writeFileSync(path.join(root, 'package.json'), '{}');
+		fs.mkdirSync(path.join(root, 'src'));
+		const source = path.join(root, 'src', 'math.js');
+		fs.writeFileSync(source, 'function add(a, b) { return a + b; }\nclass Counter { constructor() { this.n = 0; } inc() { return ++this.n; } }\nmodule.exports = { add, Counter };\n');
+
+		const harness = buildExampleHarness(source, 'const c = new Counter();\nc.inc();\nconsole.log(add(1, 2), c.inc());', ['add', 'Counter', 'not valid'], root, commandFor, true)!;
+		assert.strictEqual(harness.lang, 'javascript');
+		assert.strictEqual(harness.filename, 'docmate_example.js');
+		assert.strictEqual(harness.cwd, root);
+
+		const file = path.join(root, harness.filename);
+		fs.writeFileSync(file, harness.code);
+		assert.strictEqual(execFileSync(process.execPath, [file], { cwd: harness.cwd, encoding: 'utf-8' }).trim(), '3 2');
+	});
+
+	test('Default exports and names declared by the example are handled', () => {
+		const source = path.join(root, 'greeter.ts');
+		fs.writeFileSync(source, 'export default class Greeter {}\nexport function greet() {}\n');
+		fs.writeFileSync(path.join(root, 'tsconfig.json'), '{}');
+
+		const harness = buildExampleHarness(source, 'function greet() {}\nnew Greeter();', ['Greeter', 'greet'], root, commandFor, true)!;
+		assert.strictEqual(harness.lang, 'typescript');
+		assert.ok(harness.code.startsWith(`const __docmateTarget = require(${JSON.stringify(path.join(root, 'greeter'))});`));
+		assert.ok(harness.code.includes('const Greeter = __docmateTarget.default;'));
+		assert.ok(!harness.code.includes('const greet ='));
+		assert.strictEqual(harness.env.TS_NODE_PROJECT, path.join(root, 'tsconfig.json'));
+		assert.strictEqual(harness.command, 'ts-node {file}');
+	});
+
+	test('Python modules are imported by their package path', () => {
+		fs.mkdirSync(path.join(root, 'pkg', 'sub'), { recursive: true });
+		fs.writeFileSync(path.join(root, 'pkg', '__init__.py'), '');
+		fs.writeFileSync(path.join(root, 'pkg', 'sub', '__init__.py'), '');
+		const source = path.join(root, 'pkg', 'sub', 'tools.py');
+		fs.writeFileSync(source, 'def double(x):\n    return x * 2\n');
+
+		const harness = buildExampleHarness(source, 'print(double(2))', ['double'], root, commandFor, true)!;
+		assert.ok(harness.code.startsWith('from pkg.sub.tools import double\n'));
+		assert.strictEqual(harness.env.PYTHONPATH.split(path.delimiter)[0], root);
+	});
+
+	test('Unsupported languages have no harness', () => {
+		const source = path.join(root, 'main.go');
+		fs.writeFileSync(source, 'package main\n');
+		assert.strictEqual(buildExampleHarness(source, 'Run()', ['Run'], root, commandFor, true), null);
+		assert.strictEqual(harnessLanguage(source), undefined);
+	});
+
+	test('No harness is built for an untrusted workspace', () => {
+		const source = path.join(root, 'lib.js');
+		fs.writeFileSync(source, 'exports.add = (a, b) => a + b;\n');
+		assert.strictEqual(buildExampleHarness(source, 'add(1, 2)', ['add'], root, commandFor, false), null);
+	});
+
+	test('harnessLanguage matches the language the harness runs with', () => {
+		const source = path.join(root, 'App.tsx');
+		fs.writeFileSync(source, 'export function App() { return null; }\n');
+		assert.strictEqual(harnessLanguage(source), 'typescript');
+		assert.strictEqual(buildExampleHarness(source, 'App()', ['App'], root, commandFor, true)?.lang, harnessLanguage(source));
+	});
+});
@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GenerationReport, countByStatus, createReport, getRetryTargets, readReport, renderReportHtml, writeReport } from '../services/generationReport';
+
+suite('Generation Report Test Suite', () => {
+	const sample = (): GenerationReport => {
+		const report = createReport('demo', { force: false, retry: false });
+		report.files = [
+			{ file: 'src/a.ts', status: 'generated', url: 'files/src/a.ts.html', examples: { verified: 2, unverified: 1 } },
+			{ file: 'src/b.ts', status: 'failed', reason: 'Invalid <JSON>' },
+			{ file: 'src/c.ts', status: 'skipped', url: 'files/src/c.ts.html' },
+			{ file: 'src/d.ts', status: 'cancelled' },
+		];
+		return report;
+	};
+
+	test('Counts statuses and picks failed and cancelled files for retry', () => {
+		const report = sample();
+		assert.deepStrictEqual(countByStatus(report), { generated: 1, skipped: 1, failed: 1, removed: 0, cancelled: 1 });
+		assert.deepStrictEqual(getRetryTargets(report), ['src/b.ts', 'src/d.ts']);
+	});
+
+	test('Writes report.json and report.html and reads them back', () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'docmate-report-'));
+		try {
+			assert.strictEqual(readReport(root), null);
+			const report = sample();
+			writeReport(root, report);
+			assert.deepStrictEqual(readReport(root), report);
+			assert.ok(fs.readFileSync(path.join(root, 'report.html'), 'utf-8').includes('src/b.ts'));
+
+			fs.writeFileSync(path.join(root, 'report.json'), '{ broken');
+			assert.strictEqual(readReport(root), null);
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+
+	test('Renders links for the saved page and a retry button in the webview', () => {
+		const saved = renderReportHtml(sample());
+		assert.ok(saved.includes('<a href="files/src/a.ts.html">src/a.ts</a>'));
+		assert.ok(saved.includes('Invalid &lt;JSON&gt;'));
+		assert.ok(!saved.includes('retryFailed'));
+
+		const interactive = renderReportHtml(sample(), { interactive: true });
+		assert.ok(!interactive.includes('<a href="files/src/a.ts.html">'));
+		assert.ok(interactive.includes('失敗したファイルを再生成（2 件）'));
+		assert.ok(interactive.includes("command: 'retryFailed'"));
+	});
+});
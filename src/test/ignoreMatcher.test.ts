@@ -0,0 +1,105 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IgnoreMatcher, globToRegexSource } from '../services/ignoreMatcher';
+import { scanProject, toMermaid, LineCountCache } from '../services/projectStructureService';
+
+suite('Ignore Matcher Test Suite', () => {
+	const matches = (glob: string, target: string) => new RegExp(`^${globToRegexSource(glob)}$`).test(target);
+
+	test('Glob conversion handles **, *, ? and braces', () => {
+		assert.ok(matches('**/node_modules', 'node_modules'));
+		assert.ok(matches('**/node_modules', 'a/b/node_modules'));
+		assert.ok(matches('src/*.ts', 'src/a.ts'));
+		assert.ok(!matches('src/*.ts', 'src/sub/a.ts'));
+		assert.ok(matches('file?.js', 'file1.js'));
+		assert.ok(matches('*.{js,map}', 'out.map'));
+		assert.ok(!matches('*.{js,map}', 'out.ts'));
+	});
+
+	test('Unanchored, anchored and directory-only gitignore patterns', () => {
+		const matcher = new IgnoreMatcher('/nonexistent');
+		matcher.addGitignore('# comment\n*.log\n/build\nout/\ndocs/generated\n');
+
+		assert.ok(matcher.isIgnored('debug.log', false));
+		assert.ok(matcher.isIgnored('src/deep/trace.log', false));
+		assert.ok(matcher.isIgnored('build', true));
+		assert.ok(!matcher.isIgnored('src/build', true), '/build is anchored to the root');
+		assert.ok(matcher.isIgnored('out', true));
+		assert.ok(!matcher.isIgnored('out', false), 'out/ only matches directories');
+		assert.ok(matcher.isIgnored('docs/generated', true));
+		assert.ok(!matcher.isIgnored('src/main.ts', false));
+	});
+
+	test('Negation and nested .gitignore precedence', () => {
+		const matcher = new IgnoreMatcher('/nonexistent');
+		matcher.addGitignore('*.env\n!example.env\n');
+		matcher.addGitignore('!local.env\n', 'config');
+
+		assert.ok(matcher.isIgnored('prod.env', false));
+		assert.ok(!matcher.isIgnored('example.env', false));
+		assert.ok(matcher.isIgnored('config/prod.env', false));
+		assert.ok(!matcher.isIgnored('config/local.env', false));
+	});
+
+	test('files.exclude globs and the .git folder are always excluded', () => {
+		const globs = IgnoreMatcher.enabledGlobs({ '**/*.tmp': true, '**/keep': false, '**/cond': { when: '$(basename).ts' } });
+		assert.deepStrictEqual(globs, ['**/*.tmp']);
+
+		const matcher = new IgnoreMatcher('/nonexistent', globs, false);
+		assert.ok(matcher.isIgnored('a/b/c.tmp', false));
+		assert.ok(matcher.isIgnored('.git', true));
+		assert.ok(!matcher.isIgnored('a/keep', true));
+	});
+
+	test('scanProject prunes ignored entries and sums counts', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'docmate-structure-'));
+		try {
+			fs.mkdirSync(path.join(root, 'src'));
+			fs.mkdirSync(path.join(root, 'node_modules'));
+			fs.writeFileSync(path.join(root, '.gitignore'), 'node_modules/\n*.log\n');
+			fs.writeFileSync(path.join(root, 'src', 'a.ts'), 'one\ntwo\n');
+			fs.writeFileSync(path.join(root, 'src', 'b.ts'), 'single line');
+			fs.writeFileSync(path.join(root, 'src', 'debug.log'), 'x\n');
+			fs.writeFileSync(path.join(root, 'node_modules', 'dep.js'), 'x\n');
+
+			const tree = await scanProject(root, new IgnoreMatcher(root));
+			const names = tree.children.map(c => c.name);
+			assert.deepStrictEqual(names, ['src', '.gitignore']);
+
+			const src = tree.children[0];
+			assert.deepStrictEqual(src.children.map(c => c.name), ['a.ts', 'b.ts']);
+			assert.strictEqual(src.fileCount, 2);
+			assert.strictEqual(src.lineCount, 3);
+
+			const mermaid = toMermaid(tree);
+			assert.ok(mermaid.startsWith('graph TD\n'));
+			assert.ok(mermaid.includes('a.ts<br/>2 lines'));
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+
+	test('scanProject reuses line counts of unchanged files and drops deleted ones', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'docmate-structure-'));
+		try {
+			const a = path.join(root, 'a.ts');
+			const b = path.join(root, 'b.ts');
+			fs.writeFileSync(a, 'one\ntwo\n');
+			fs.writeFileSync(b, 'x\n');
+			const lineCounts: LineCountCache = new Map();
+			await scanProject(root, new IgnoreMatcher(root), lineCounts);
+			assert.deepStrictEqual([...lineCounts.keys()].sort(), [a, b]);
+
+			// 更新日時とサイズが変わらなければ読み直さない
+			lineCounts.set(a, { ...lineCounts.get(a)!, lines: 99 });
+			fs.rmSync(b);
+			const tree = await scanProject(root, new IgnoreMatcher(root), lineCounts);
+			assert.strictEqual(tree.lineCount, 99);
+			assert.deepStrictEqual([...lineCounts.keys()], [a]);
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+});
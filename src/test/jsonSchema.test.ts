@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import { JsonSchema, validateJson } from '../services/jsonSchema';
+
+suite('JSON Schema Test Suite', () => {
+	const schema: JsonSchema = {
+		type: 'object',
+		properties: {
+			summary: { type: 'string' },
+			count: { type: 'integer' },
+			examples: {
+				type: 'array',
+				items: {
+					type: 'object',
+					properties: { title: { type: 'string' }, code: { type: 'string' } },
+					required: ['title', 'code'],
+				},
+			},
+		},
+		required: ['summary', 'examples'],
+	};
+
+	test('Valid values pass and extra properties are allowed', () => {
+		assert.deepStrictEqual(validateJson({ summary: 's', count: 2, examples: [{ title: 't', code: 'c', extra: 1 }], note: 'x' }, schema), []);
+		assert.deepStrictEqual(validateJson({ summary: 's', examples: [] }, schema), []);
+	});
+
+	test('Errors point at the offending path', () => {
+		assert.deepStrictEqual(validateJson({ summary: 1, count: 1.5, examples: [{ title: 't' }, 'code'] }, schema), [
+			'$.summary: expected string, got number',
+			'$.count: expected integer, got number',
+			'$.examples[0]: missing required property "code"',
+			'$.examples[1]: expected object, got string',
+		]);
+		assert.deepStrictEqual(validateJson({ summary: 's', examples: null }, schema), ['$.examples: expected array, got null']);
+		assert.deepStrictEqual(validateJson([], schema), ['$: expected object, got array']);
+	});
+});
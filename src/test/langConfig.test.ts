@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import { mergeLangConfigs } from '../services/langConfig';
+
+suite('Language Config Test Suite', () => {
+	const builtIn = {
+		python: { executionType: 'terminal', command: 'python3 {file}', filename: 'test.py', promptHint: '', sandbox: { mode: 'isolated', timeoutMs: 10000 } },
+		ruby: { command: 'ruby {file}', filename: 'test.rb' },
+		html: { executionType: 'iframe-html', command: '', filename: 'index.html' },
+	};
+
+	test('Later layers override fields, add languages and disable languages', () => {
+		const { config, errors } = mergeLangConfigs([
+			{ source: 'langConfig.json', value: builtIn },
+			{ source: 'docmate.languages', value: { python: { command: 'python3.12 {file}', sandbox: { timeoutMs: 30000 } }, ruby: null } },
+			{ source: '.docmate/languages.json', value: { python: { promptHint: '- Use type hints.' }, zig: { command: 'zig run {file}', filename: 'test.zig', extensions: ['.zig'] } } },
+		]);
+		assert.deepStrictEqual(errors, []);
+		assert.deepStrictEqual(Object.keys(config), ['python', 'html', 'zig']);
+		assert.strictEqual(config.python.command, 'python3.12 {file}');
+		assert.strictEqual(config.python.promptHint, '- Use type hints.');
+		assert.deepStrictEqual(config.python.sandbox, { mode: 'isolated', timeoutMs: 30000 });
+		assert.strictEqual(config.zig.command, 'zig run {file}');
+	});
+
+	test('A merged config can be used as the base layer of a folder config', () => {
+		const shared = mergeLangConfigs([
+			{ source: 'langConfig.json', value: builtIn },
+			{ source: 'docmate.languages', value: { python: { command: 'python3.12 {file}' } } },
+		]);
+		const folder = mergeLangConfigs([
+			{ source: 'docmate.languages', value: shared.config },
+			{ source: 'app/.docmate/languages.json', value: { ruby: { command: 'bundle exec ruby {file}' } } },
+		]);
+		assert.deepStrictEqual(folder.errors, []);
+		assert.strictEqual(folder.config.python.command, 'python3.12 {file}');
+		assert.strictEqual(folder.config.ruby.command, 'bundle exec ruby {file}');
+		assert.strictEqual(shared.config.ruby.command, 'ruby {file}');
+	});
+
+	test('Invalid entries are skipped with errors naming the source and path', () => {
+		const { config, errors } = mergeLangConfigs([
+			{ source: 'langConfig.json', value: builtIn },
+			{
+				source: 'docmate.languages', value: {
+					python: { sandbox: { timeoutMs: '30s' } },
+					ruby: { comand: 'ruby3 {file}' },
+					html: { executionType: 'browser' },
+					go: { command: 'go run {file}' },
+				},
+			},
+			{ source: '.docmate/languages.json', value: ['python'] },
+		]);
+		assert.deepStrictEqual(errors, [
+			'docmate.languages: python.sandbox.timeoutMs: expected number, got string',
+			'docmate.languages: ruby: unknown property "comand"',
+			'docmate.languages: html.executionType: must be one of "terminal", "iframe-html", "iframe-react", "iframe-vue"',
+			'.docmate/languages.json: expected an object of languages, got array',
+			'docmate.languages: go: missing required property "filename"',
+		]);
+		assert.strictEqual(config.python.sandbox?.timeoutMs, 10000);
+		assert.strictEqual(config.ruby.command, 'ruby {file}');
+		assert.strictEqual(config.html.executionType, 'iframe-html');
+		assert.strictEqual(config.go, undefined);
+	});
+});
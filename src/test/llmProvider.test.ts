@@ -0,0 +1,132 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { OpenAiCompatibleProvider } from '../services/llm/openAiCompatibleProvider';
+import { LocalHttpProvider } from '../services/llm/localHttpProvider';
+
+/** 受信したリクエストを記録し、handler の返す JSON を応答するスタブサーバー */
+interface StubServer {
+	baseUrl: string;
+	requests: { url: string; headers: http.IncomingHttpHeaders; body: any }[];
+	close(): Promise<void>;
+}
+
+function startStubServer(handler: (url: string, body: any) => { status?: number; json: unknown }): Promise<StubServer> {
+	const requests: StubServer['requests'] = [];
+	const server = http.createServer((req, res) => {
+		let raw = '';
+		req.on('data', (chunk) => { raw += chunk; });
+		req.on('end', () => {
+			const body = raw ? JSON.parse(raw) : undefined;
+			requests.push({ url: req.url ?? '', headers: req.headers, body });
+			const { status = 200, json } = handler(req.url ?? '', body);
+			res.writeHead(status, { 'Content-Type': 'application/json' });
+			res.end(JSON.stringify(json));
+		});
+	});
+	return new Promise((resolve) => {
+		server.listen(0, '127.0.0.1', () => {
+			const { port } = server.address() as AddressInfo;
+			resolve({
+				baseUrl: `http://127.0.0.1:${port}`,
+				requests,
+				close: () => new Promise((r) => server.close(() => r())),
+			});
+		});
+	});
+}
+
+suite('LLM Provider Test Suite', () => {
+	test('OpenAiCompatibleProvider posts chat completions and returns the message content', async () => {
+		const stub = await startStubServer(() => ({
+			json: { choices: [{ message: { role: 'assistant', content: '{"summary":"ok"}' } }] },
+		}));
+		try {
+			const provider = new OpenAiCompatibleProvider(`${stub.baseUrl}/v1/`, 'test-model', 'secret');
+			const text = await provider.generate('hello');
+
+			assert.strictEqual(text, '{"summary":"ok"}');
+			assert.strictEqual(stub.requests[0].url, '/v1/chat/completions');
+			assert.strictEqual(stub.requests[0].headers.authorization, 'Bearer secret');
+			assert.deepStrictEqual(stub.requests[0].body, {
+				model: 'test-model',
+				messages: [{ role: 'user', content: 'hello' }],
+			});
+		} finally {
+			await stub.close();
+		}
+	});
+
+	test('OpenAiCompatibleProvider omits Authorization when no API key is given', async () => {
+		const stub = await startStubServer(() => ({ json: { choices: [{ message: { content: 'x' } }] } }));
+		try {
+			await new OpenAiCompatibleProvider(stub.baseUrl, 'm').generate('p');
+			assert.strictEqual(stub.requests[0].headers.authorization, undefined);
+		} finally {
+			await stub.close();
+		}
+	});
+
+	test('OpenAiCompatibleProvider surfaces HTTP errors with status and body', async () => {
+		const stub = await startStubServer(() => ({ status: 401, json: { error: 'invalid key' } }));
+		try {
+			await assert.rejects(
+				new OpenAiCompatibleProvider(stub.baseUrl, 'm', 'bad').generate('p'),
+				/openai API error: 401 .*invalid key/
+			);
+		} finally {
+			await stub.close();
+		}
+	});
+
+	test('Providers retry without a schema only when the 400 is about the schema', async () => {
+		const schema = { type: 'object' as const, properties: { summary: { type: 'string' as const } } };
+		const stub = await startStubServer((_url, body) => body.format
+			? { status: 400, json: { error: 'invalid format: json schema not supported' } }
+			: { json: { response: 'plain' } });
+		try {
+			const provider = new LocalHttpProvider(stub.baseUrl, 'm');
+			assert.strictEqual(await provider.generate('p', { responseSchema: schema }), 'plain');
+			assert.strictEqual(await provider.generate('p', { responseSchema: schema }), 'plain');
+			assert.deepStrictEqual(stub.requests.map(r => r.body.format !== undefined), [true, false, false]);
+		} finally {
+			await stub.close();
+		}
+
+		const strict = await startStubServer(() => ({ status: 400, json: { error: 'API key not valid' } }));
+		try {
+			const provider = new OpenAiCompatibleProvider(strict.baseUrl, 'm', 'bad');
+			await assert.rejects(provider.generate('p', { responseSchema: schema }), /openai API error: 400 .*API key not valid/);
+			await assert.rejects(provider.generate('p', { responseSchema: schema }), /400/);
+			assert.strictEqual(strict.requests.length, 2);
+			assert.ok(strict.requests.every(r => r.body.response_format), 'the schema is still sent after an unrelated 400');
+		} finally {
+			await strict.close();
+		}
+	});
+
+	test('LocalHttpProvider uses the Ollama /api/generate endpoint by default', async () => {
+		const stub = await startStubServer(() => ({ json: { response: 'from ollama', done: true } }));
+		try {
+			const text = await new LocalHttpProvider(stub.baseUrl, 'llama3.1').generate('hi');
+
+			assert.strictEqual(text, 'from ollama');
+			assert.strictEqual(stub.requests[0].url, '/api/generate');
+			assert.deepStrictEqual(stub.requests[0].body, { model: 'llama3.1', prompt: 'hi', stream: false });
+		} finally {
+			await stub.close();
+		}
+	});
+
+	test('LocalHttpProvider accepts an explicit llama.cpp /completion endpoint', async () => {
+		const stub = await startStubServer(() => ({ json: { content: 'from llama.cpp' } }));
+		try {
+			const text = await new LocalHttpProvider(`${stub.baseUrl}/completion`, 'any').generate('hi');
+
+			assert.strictEqual(text, 'from llama.cpp');
+			assert.strictEqual(stub.requests[0].url, '/completion');
+		} finally {
+			await stub.close();
+		}
+	});
+});
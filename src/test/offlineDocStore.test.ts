@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OfflineDocStore, isValidDocsetSlug, parseOfflineUrl, toOfflineUrl } from '../services/offlineDocStore';
+
+suite('Offline Doc Store Test Suite', () => {
+	let tmp: string;
+
+	setup(() => {
+		tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'docmate-offline-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(tmp, { recursive: true, force: true });
+	});
+
+	const writeDocset = (dir: string) => {
+		fs.mkdirSync(dir, { recursive: true });
+		fs.writeFileSync(path.join(dir, 'index.json'), JSON.stringify({
+			entries: [{ name: 'print()', path: 'library/functions#print', type: 'Built-in Functions' }],
+		}));
+		fs.writeFileSync(path.join(dir, 'db.json'), JSON.stringify({ 'library/functions': '<dl><dt id="print">print()</dt></dl>' }));
+	};
+
+	test('Offline URLs round-trip and ignore the page fragment', () => {
+		const url = toOfflineUrl('python~3.14', 'library/functions#print');
+		assert.deepStrictEqual(parseOfflineUrl(url), { slug: 'python~3.14', pagePath: 'library/functions' });
+		assert.strictEqual(parseOfflineUrl('https://devdocs.io/python~3.14/library/functions'), null);
+	});
+
+	test('Imported docsets are listed and readable after reopening the store', () => {
+		const source = path.join(tmp, 'source');
+		writeDocset(source);
+		const storeDir = path.join(tmp, 'store');
+
+		const info = new OfflineDocStore(storeDir).importFrom('python~3.14', source);
+		assert.strictEqual(info.entries, 1);
+		assert.strictEqual(info.source, 'import');
+
+		const reopened = new OfflineDocStore(storeDir);
+		assert.deepStrictEqual(reopened.list().map(d => d.slug), ['python~3.14']);
+		assert.strictEqual(reopened.getIndex('python~3.14')![0].name, 'print()');
+		assert.ok(reopened.getPage('python~3.14', 'library/functions')!.includes('id="print"'));
+		assert.strictEqual(reopened.getPage('python~3.14', 'missing'), null);
+		assert.strictEqual(reopened.getIndex('go'), null);
+
+		reopened.remove('python~3.14');
+		assert.deepStrictEqual(reopened.list(), []);
+		assert.strictEqual(reopened.getIndex('python~3.14'), null);
+	});
+
+	test('Importing a folder that is not a DevDocs docset fails', () => {
+		const source = path.join(tmp, 'broken');
+		fs.mkdirSync(source);
+		assert.throws(() => new OfflineDocStore(path.join(tmp, 'store')).importFrom('x', source), /index\.json/);
+
+		fs.writeFileSync(path.join(source, 'index.json'), '{"nope": true}');
+		fs.writeFileSync(path.join(source, 'db.json'), '{}');
+		assert.throws(() => new OfflineDocStore(path.join(tmp, 'store')).importFrom('x', source), /DevDocs/);
+	});
+
+	test('Slugs that would leave the store directory are rejected', () => {
+		assert.ok(isValidDocsetSlug('python~3.14'));
+		assert.ok(!isValidDocsetSlug('..'));
+		assert.ok(!isValidDocsetSlug('.'));
+		assert.ok(!isValidDocsetSlug('a/../b'));
+
+		const source = path.join(tmp, 'docset');
+		writeDocset(source);
+		const store = new OfflineDocStore(path.join(tmp, 'store'));
+		assert.throws(() => store.importFrom('..', source), /slug/);
+		assert.throws(() => store.remove('..'), /slug/);
+		assert.ok(fs.existsSync(source));
+		assert.deepStrictEqual(fs.readdirSync(tmp).sort(), ['docset']);
+	});
+});
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { parsePartialSummary } from '../services/partialJson';
+
+suite('Partial JSON Test Suite', () => {
+	const full = '```json\n{"summary": "配列の\\"各要素\\"を\\n変換する", "examples": ['
+		+ '{"title": "Basic", "description": "a { brace", "code": "[1].map(x => x * 2)"},'
+		+ '{"title": "Escape", "description": "", "code": "console.log(\\"\\\\d\\")"}'
+		+ ']}\n```';
+
+	test('Summary is decoded up to the received text', () => {
+		assert.deepStrictEqual(parsePartialSummary('```json\n{"sum'), { summaryComplete: false, examples: [] });
+		const partial = parsePartialSummary(full.substring(0, full.indexOf('変換')));
+		assert.strictEqual(partial.summary, '配列の"各要素"を\n');
+		assert.strictEqual(partial.summaryComplete, false);
+
+		// エスケープの途中で切れた場合は、その文字を出さない
+		assert.strictEqual(parsePartialSummary('{"summary": "a\\').summary, 'a');
+		assert.strictEqual(parsePartialSummary('{"summary": "\\u30').summary, '');
+		assert.strictEqual(parsePartialSummary('{"summary": "\\u3042"').summary, 'あ');
+	});
+
+	test('Examples are returned once their closing brace has arrived', () => {
+		const firstEnd = full.indexOf('},') + 1;
+		assert.strictEqual(parsePartialSummary(full.substring(0, firstEnd - 1)).examples.length, 0);
+
+		const first = parsePartialSummary(full.substring(0, firstEnd));
+		assert.strictEqual(first.summaryComplete, true);
+		assert.deepStrictEqual(first.examples, [{ title: 'Basic', description: 'a { brace', code: '[1].map(x => x * 2)' }]);
+
+		const all = parsePartialSummary(full);
+		assert.strictEqual(all.examples.length, 2);
+		assert.strictEqual((all.examples[1] as { code: string }).code, 'console.log("\\d")');
+	});
+
+	test('Keys in any order and invalid escapes are tolerated', () => {
+		const parsed = parsePartialSummary('{"examples": [{"code": "printf(\\"%d\\0\\")"}], "note": [1, {"x": "]"}], "summary": "ok"}');
+		assert.deepStrictEqual(parsed.examples, [{ code: 'printf("%d\\0")' }]);
+		assert.strictEqual(parsed.summary, 'ok');
+		assert.strictEqual(parsed.summaryComplete, true);
+	});
+
+	test('Unparsable elements keep their position so later indexes match the final parse', () => {
+		const parsed = parsePartialSummary('{"examples": [{"code": "a"}, {"code": 01}, {"code": "c"}');
+		assert.strictEqual(parsed.examples.length, 3);
+		assert.strictEqual(parsed.examples[1], undefined);
+		assert.deepStrictEqual(parsed.examples[2], { code: 'c' });
+	});
+});
@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import { RequestScheduler, isRetryableError, getRetryAfterMs, formatUsage, diffUsage } from '../services/llm/requestScheduler';
+import { LlmHttpError } from '../services/llm/llmProvider';
+
+function httpError(status: number, retryAfterMs?: number): LlmHttpError {
+	const error: LlmHttpError = new Error(`test API error: ${status}`);
+	error.status = status;
+	error.retryAfterMs = retryAfterMs;
+	return error;
+}
+
+suite('Request Scheduler Test Suite', () => {
+	test('Retryable and fatal errors are told apart', () => {
+		assert.strictEqual(isRetryableError(httpError(429)), true);
+		assert.strictEqual(isRetryableError(httpError(503)), true);
+		assert.strictEqual(isRetryableError(httpError(401)), false);
+		assert.strictEqual(isRetryableError(httpError(400)), false);
+		assert.strictEqual(isRetryableError(new Error('[GoogleGenerativeAI Error]: Error fetching from https://x: [429 Too Many Requests] quota')), true);
+		assert.strictEqual(isRetryableError(new Error('[GoogleGenerativeAI Error]: Error fetching from https://x: [403 Forbidden] key')), false);
+		assert.strictEqual(isRetryableError(Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNRESET' } })), true);
+		assert.strictEqual(isRetryableError(Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNREFUSED' } })), false);
+		assert.strictEqual(isRetryableError(new Error('API key is not set')), false);
+
+		const abort = new Error('aborted');
+		abort.name = 'AbortError';
+		assert.strictEqual(isRetryableError(abort), false);
+
+		assert.strictEqual(getRetryAfterMs(httpError(429, 1500)), 1500);
+		assert.strictEqual(getRetryAfterMs(new Error('[429 Too Many Requests] {"retryDelay": "12s"}')), 12000);
+	});
+
+	test('Retryable errors are retried after Retry-After and usage is counted', async () => {
+		const scheduler = new RequestScheduler(() => ({ requestsPerMinute: 0, tokensPerMinute: 0, maxRetries: 3 }));
+		let calls = 0;
+		const text = await scheduler.run('x'.repeat(40), async () => {
+			calls++;
+			if (calls < 3) {
+				throw httpError(429, 5);
+			}
+			return 'y'.repeat(8);
+		});
+		assert.strictEqual(text, 'yyyyyyyy');
+		assert.strictEqual(calls, 3);
+		assert.deepStrictEqual(scheduler.getUsage(), { requests: 3, promptTokens: 30, responseTokens: 2, retries: 2 });
+	});
+
+	test('Fatal errors and exhausted retries are thrown', async () => {
+		const scheduler = new RequestScheduler(() => ({ requestsPerMinute: 0, tokensPerMinute: 0, maxRetries: 1 }));
+		let calls = 0;
+		await assert.rejects(scheduler.run('p', async () => { calls++; throw httpError(401); }), /401/);
+		assert.strictEqual(calls, 1);
+
+		calls = 0;
+		await assert.rejects(scheduler.run('p', async () => { calls++; throw httpError(503, 1); }), /503/);
+		assert.strictEqual(calls, 2);
+	});
+
+	test('Requests over the RPM limit wait and can be cancelled', async () => {
+		const scheduler = new RequestScheduler(() => ({ requestsPerMinute: 1, tokensPerMinute: 0, maxRetries: 0 }));
+		await scheduler.run('p', async () => 'ok');
+
+		const controller = new AbortController();
+		setTimeout(() => controller.abort(), 20);
+		let called = false;
+		await assert.rejects(scheduler.run('p', async () => { called = true; return 'ok'; }, controller.signal), { name: 'AbortError' });
+		assert.strictEqual(called, false, 'the second request waits for the next minute');
+
+		const before = { requests: 1, promptTokens: 1, responseTokens: 1, retries: 0 };
+		assert.strictEqual(formatUsage(diffUsage({ requests: 13, promptTokens: 30001, responseTokens: 4001, retries: 1 }, before)), '12 requests, ~34,000 tokens (1 retry)');
+	});
+});
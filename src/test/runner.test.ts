@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runCommand, SandboxConfig } from '../services/runner';
+
+suite('Runner Test Suite', () => {
+	const run = (code: string, sandbox: SandboxConfig, runId?: string) => runCommand({
+		workspaceRoot: os.tmpdir(),
+		lang: 'javascript',
+		code,
+		userExecCommand: '',
+		conf: { command: `"${process.execPath}" {file}`, filename: 'test.js', sandbox },
+		runId,
+	});
+
+	test('Kills the process when it exceeds the time limit', async () => {
+		const result = await run('setInterval(() => {}, 1000);', { timeoutMs: 500 });
+		assert.strictEqual(result.code, null);
+		assert.ok(result.stderr.includes('[timeout] 500ms'), result.stderr);
+	});
+
+	test('Does not apply the time limit to interactive runs', async () => {
+		const result = await run('setTimeout(() => console.log("done"), 800);', { timeoutMs: 300 }, 'interactive-run');
+		assert.strictEqual(result.stdout.trim(), 'done');
+		assert.strictEqual(result.code, 0);
+	});
+
+	test('Keeps output up to the size limit and marks it truncated', async () => {
+		const result = await run('process.stdout.write("x".repeat(20000)); setInterval(() => {}, 1000);', { maxOutputBytes: 10000 });
+		assert.strictEqual(result.stdout, 'x'.repeat(10000));
+		assert.ok(result.stderr.includes('[output truncated]'), result.stderr);
+	});
+
+	test('Decodes multi-byte characters split across output chunks', async () => {
+		const result = await run('process.stdout.write(Buffer.from([0xe3, 0x81])); setTimeout(() => process.stdout.write(Buffer.from([0x82, 0x0a])), 100);', {});
+		assert.strictEqual(result.stdout, 'あ\n');
+	});
+
+	test('Closes stdin for runs without a runId', async () => {
+		const result = await run('process.stdin.resume(); process.stdin.on("end", () => console.log("eof"));', { timeoutMs: 5000 });
+		assert.strictEqual(result.stdout.trim(), 'eof');
+		assert.strictEqual(result.code, 0);
+	});
+
+	test('Runs in a fresh temp directory that is removed afterwards', async () => {
+		const result = await run('console.log(process.cwd());', {});
+		const runDir = result.stdout.trim();
+		assert.strictEqual(result.code, 0);
+		assert.ok(path.basename(runDir).startsWith('docmate-run-'), runDir);
+		assert.strictEqual(fs.existsSync(runDir), false);
+	});
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { parseSignature } from '../services/signatureParser';
+
+suite('Signature Parser Test Suite', () => {
+	test('TypeScript method hover', () => {
+		assert.deepStrictEqual(
+			parseSignature('(method) CacheService.find(url: string, opts?: { fresh: boolean }): CacheEntry | null', 'find', 'typescript'),
+			{
+				params: [{ name: 'url', type: 'string' }, { name: 'opts', type: '{ fresh: boolean }' }],
+				returnType: 'CacheEntry | null',
+			}
+		);
+	});
+
+	test('TypeScript arrow function constant', () => {
+		assert.deepStrictEqual(
+			parseSignature('const toKey: (root: string, ...parts: string[]) => string', 'toKey', 'typescript'),
+			{ params: [{ name: 'root', type: 'string' }, { name: 'parts', type: 'string[]' }], returnType: 'string' }
+		);
+	});
+
+	test('Generic function keeps nested type arguments intact', () => {
+		assert.deepStrictEqual(
+			parseSignature('function pick<T, K extends keyof T>(obj: T, keys: K[]): Pick<T, K>', 'pick', 'typescript'),
+			{ params: [{ name: 'obj', type: 'T' }, { name: 'keys', type: 'K[]' }], returnType: 'Pick<T, K>' }
+		);
+	});
+
+	test('Arrow function types inside type arguments do not close them', () => {
+		assert.deepStrictEqual(
+			parseSignature('function on<H extends Map<string, (x: number) => void>>(handlers: H, fallback: (e: Error) => void): void', 'on', 'typescript'),
+			{ params: [{ name: 'handlers', type: 'H' }, { name: 'fallback', type: '(e: Error) => void' }], returnType: 'void' }
+		);
+	});
+
+	test('Python method drops self and default values', () => {
+		assert.deepStrictEqual(
+			parseSignature('(method) def greet(self, name: str, times: int = 1) -> str', 'greet', 'python'),
+			{ params: [{ name: 'name', type: 'str' }, { name: 'times', type: 'int' }], returnType: 'str' }
+		);
+	});
+
+	test('Go method with receiver and multiple results', () => {
+		assert.deepStrictEqual(
+			parseSignature('func (s *Server) Listen(addr string, port int) (net.Conn, error)', 'Listen', 'go'),
+			{ params: [{ name: 'addr', type: 'string' }, { name: 'port', type: 'int' }], returnType: '(net.Conn, error)' }
+		);
+	});
+
+	test('C and Java style return type before the name', () => {
+		assert.deepStrictEqual(
+			parseSignature('int add(int a, const char *label)', 'add', 'c'),
+			{ params: [{ name: 'a', type: 'int' }, { name: 'label', type: 'const char*' }], returnType: 'int' }
+		);
+		assert.deepStrictEqual(
+			parseSignature('public static String com.example.Util.join(List<String> parts)', 'join', 'java'),
+			{ params: [{ name: 'parts', type: 'List<String>' }], returnType: 'String' }
+		);
+	});
+
+	test('Returns null when there is no parameter list', () => {
+		assert.strictEqual(parseSignature('const VERSION: "1.0"', 'VERSION', 'typescript'), null);
+	});
+});
@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import { isAmbiguous, parseHoverType, parseReceiver, rankEntries, scoreEntry } from '../services/symbolRanker';
+
+suite('Symbol Ranker Test Suite', () => {
+	const pythonIndex = [
+		{ name: 'multiprocessing.pool.Pool.map()', type: 'Concurrent Execution' },
+		{ name: 'concurrent.futures.Executor.map()', type: 'Concurrent Execution' },
+		{ name: 'map()', type: 'Built-in Functions' },
+		{ name: 'mmap', type: 'Networking & Interprocess Communication' },
+	];
+	const describe = (e: { name: string; type?: string }) => e;
+
+	test('Exact matches beat entries that merely come first in the index', () => {
+		const ranked = rankEntries('map', pythonIndex, describe);
+		assert.strictEqual(ranked[0].entry.name, 'map()');
+		assert.ok(!isAmbiguous(ranked));
+	});
+
+	test('Entries that do not match at all are dropped, fuzzy matches rank last', () => {
+		const ranked = rankEntries('mmp', pythonIndex, describe);
+		assert.deepStrictEqual(ranked.map(r => r.entry.name), ['mmap', 'multiprocessing.pool.Pool.map()']);
+		assert.strictEqual(scoreEntry('zzz', 'map()', undefined), 0);
+	});
+
+	test('Receiver type and imports pull the matching entry to the top', () => {
+		const mdn = [
+			{ name: 'Map', type: 'Reference/Global_Objects' },
+			{ name: 'Array.prototype.map()', type: 'Global_Objects/Array' },
+		];
+		const plain = rankEntries('map', mdn, describe);
+		assert.ok(isAmbiguous(plain), 'Map and Array.prototype.map() are too close to call without context');
+
+		const withType = rankEntries('map', mdn, describe, { receiver: 'arr', receiverType: 'array' });
+		assert.strictEqual(withType[0].entry.name, 'Array.prototype.map()');
+		assert.ok(!isAmbiguous(withType));
+		assert.ok(!isAmbiguous([{ score: 0 }, { score: 0 }, { score: 0 }]), 'Unscored results fall back to the first one');
+
+		const withImport = rankEntries('map', pythonIndex, describe, { imports: ['multiprocessing'] });
+		assert.ok(withImport.findIndex(r => r.entry.name.startsWith('multiprocessing')) < withImport.findIndex(r => r.entry.name.startsWith('concurrent')));
+	});
+
+	test('Qualified queries prefer entries with the same qualifier', () => {
+		const ranked = rankEntries('Executor.map', pythonIndex, describe);
+		assert.strictEqual(ranked[0].entry.name, 'concurrent.futures.Executor.map()');
+	});
+
+	test('Receiver and hover type parsing', () => {
+		assert.strictEqual(parseReceiver('    const doubled = numbers.'), 'numbers');
+		assert.strictEqual(parseReceiver('items?.'), 'items');
+		assert.strictEqual(parseReceiver('print('), undefined);
+
+		assert.strictEqual(parseHoverType('```typescript\nconst numbers: number[]\n```'), 'array');
+		assert.strictEqual(parseHoverType('```typescript\nlet xs: Array<string>\n```'), 'array');
+		assert.strictEqual(parseHoverType('```python\n(variable) s: str\n```'), 'str');
+		assert.strictEqual(parseHoverType('```java\nList<String> names: java.util.List<String>\n```'), 'list');
+		assert.strictEqual(parseHoverType('no type here'), undefined);
+	});
+});
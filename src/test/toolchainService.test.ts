@@ -0,0 +1,31 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { applyCommandPaths, checkToolchain, findExecutable, findMissingTools, parseCommandExecutables } from '../services/toolchainService';
+
+suite('Toolchain Service Test Suite', () => {
+	test('Finds the commands a langConfig command runs', () => {
+		assert.deepStrictEqual(parseCommandExecutables('node {file}'), ['node']);
+		assert.deepStrictEqual(parseCommandExecutables('gcc {file} -o a.out && ./a.out'), ['gcc']);
+		assert.deepStrictEqual(parseCommandExecutables('javac {file} && java Test'), ['javac', 'java']);
+		assert.deepStrictEqual(parseCommandExecutables('"/opt/my tools/ts-node" {file} | cat'), ['/opt/my tools/ts-node', 'cat']);
+	});
+
+	test('Replaces command names with configured paths', () => {
+		const paths = { gcc: '/usr/local/bin/gcc-13', java: 'C:\\Program Files\\Java\\bin\\java.exe' };
+		assert.strictEqual(applyCommandPaths('gcc {file} -o gcc.out && ./gcc.out', paths), '/usr/local/bin/gcc-13 {file} -o gcc.out && ./gcc.out');
+		assert.strictEqual(applyCommandPaths('javac {file} && java Test', paths), 'javac {file} && "C:\\Program Files\\Java\\bin\\java.exe" Test');
+	});
+
+	test('Reports missing commands and the version of available ones', async () => {
+		assert.strictEqual(findExecutable(process.execPath), process.execPath);
+		assert.deepStrictEqual(findMissingTools('docmate-no-such-command {file}'), ['docmate-no-such-command']);
+		assert.deepStrictEqual(findMissingTools('docmate-node {file}', { 'docmate-node': process.execPath }), []);
+
+		const status = await checkToolchain('javascript', 'docmate-node {file} && docmate-missing', { 'docmate-node': process.execPath });
+		assert.strictEqual(status.available, false);
+		assert.strictEqual(status.command, `${process.execPath.includes(' ') ? `"${process.execPath}"` : process.execPath} {file} && docmate-missing`);
+		assert.strictEqual(path.resolve(status.tools[0].path!), path.resolve(process.execPath));
+		assert.strictEqual(status.tools[0].version, process.version);
+		assert.strictEqual(status.tools[1].path, undefined);
+	});
+});
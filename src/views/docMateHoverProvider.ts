@@ -0,0 +1,89 @@
+import * as vscode from 'vscode';
+import { CacheService, CacheEntry } from '../services/cacheService';
+import { getSupportedLanguages } from '../services/docService';
+
+/** ホバーに表示する要約の最大文字数 */
+const MAX_SUMMARY_LENGTH = 600;
+
+/** `Array.map` のようなドット区切りの識別子もひとまとまりとして拾う */
+const SYMBOL_PATTERN = /[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*/;
+
+/**
+ * カーソル下のシンボルについて、キャッシュ済みの DocMate の要約をホバー表示する。
+ * ホバーはキャッシュ（ローカルファイル）だけを参照し、ネットワークには一切アクセスしない。
+ * - キャッシュあり: 要約と最初のサンプル + 「Open in DocMate」リンク
+ * - キャッシュなし: 「Explain this」リンク（クリックされて初めて検索・要約する）
+ */
+export class DocMateHoverProvider implements vscode.HoverProvider {
+    constructor(private readonly cacheService: CacheService) { }
+
+    /** 対応言語すべてに対してホバーを登録する */
+    static register(cacheService: CacheService): vscode.Disposable {
+        const selector = getSupportedLanguages().map(language => ({ language }));
+        return vscode.languages.registerHoverProvider(selector, new DocMateHoverProvider(cacheService));
+    }
+
+    provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        if (!vscode.workspace.getConfiguration('docmate').get<boolean>('hover.enabled', true)) {
+            return undefined;
+        }
+
+        const range = document.getWordRangeAtPosition(position, SYMBOL_PATTERN);
+        if (!range) {
+            return undefined;
+        }
+        const symbol = document.getText(range);
+        const language = document.languageId;
+
+        // `arr.map` のように変数名が付いている場合は末尾のメンバー名でも探す
+        const candidates = [symbol];
+        const member = symbol.split('.').pop();
+        if (member && member !== symbol) {
+            candidates.push(member);
+        }
+
+        for (const keyword of candidates) {
+            const entry = this.cacheService.findByKeyword(keyword, language);
+            if (entry) {
+                return new vscode.Hover(this.renderCached(entry, language), range);
+            }
+        }
+        return new vscode.Hover(this.renderExplainLink(symbol, language), range);
+    }
+
+    private renderCached(entry: CacheEntry, language: string): vscode.MarkdownString {
+        const md = this.createMarkdown();
+        md.appendMarkdown(`**DocMate: ${entry.keyword}**\n\n`);
+
+        const summary = entry.summary.length > MAX_SUMMARY_LENGTH
+            ? entry.summary.slice(0, MAX_SUMMARY_LENGTH) + '…'
+            : entry.summary;
+        md.appendMarkdown(summary + '\n\n');
+
+        const example = entry.examples[0];
+        if (example) {
+            md.appendMarkdown(`*${example.title}*\n`);
+            md.appendCodeblock(example.code, language);
+        }
+
+        md.appendMarkdown(`\n[$(book) Open in DocMate](${this.commandUri('docmate.openHistoryEntry', [entry.url])})`);
+        return md;
+    }
+
+    private renderExplainLink(symbol: string, language: string): vscode.MarkdownString {
+        const md = this.createMarkdown();
+        md.appendMarkdown(`[$(sparkle) Explain this](${this.commandUri('docmate.explain', [symbol, language])}) — DocMate: \`${symbol}\``);
+        return md;
+    }
+
+    /** コマンドリンクを有効にした MarkdownString（許可するのは DocMate のコマンドだけ） */
+    private createMarkdown(): vscode.MarkdownString {
+        const md = new vscode.MarkdownString('', true);
+        md.isTrusted = { enabledCommands: ['docmate.openHistoryEntry', 'docmate.explain'] };
+        return md;
+    }
+
+    private commandUri(command: string, args: unknown[]): string {
+        return `command:${command}?${encodeURIComponent(JSON.stringify(args))}`;
+    }
+}
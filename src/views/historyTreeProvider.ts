@@ -0,0 +1,138 @@
+import * as vscode from 'vscode';
+import { CacheService, CacheIndexEntry } from '../services/cacheService';
+
+/** 言語が記録されていない旧キャッシュのグループ名 */
+const UNKNOWN_LANGUAGE = 'unknown';
+
+/** ツリーのノード（グループ or 履歴エントリ） */
+type HistoryNode =
+    | { kind: 'pinned' }
+    | { kind: 'language'; language: string }
+    | { kind: 'entry'; entry: CacheIndexEntry };
+
+/**
+ * アクティビティバーの「History」ビュー。
+ * CacheService に保存された過去の解説を、ピン留め → 言語別 の順にグループ分けして表示する。
+ * クリックするとキャッシュから結果パネルを開き直す（ネットワークアクセスなし）。
+ */
+export class HistoryTreeProvider implements vscode.TreeDataProvider<HistoryNode> {
+    public static readonly viewId = 'docmate.history';
+
+    private readonly changeEmitter = new vscode.EventEmitter<HistoryNode | undefined>();
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    /** 検索キーワード（空なら全件表示） */
+    private filter = '';
+
+    constructor(private readonly cacheService: CacheService) {
+        cacheService.onDidChange(() => this.refresh());
+    }
+
+    refresh(): void {
+        this.changeEmitter.fire(undefined);
+    }
+
+    getFilter(): string {
+        return this.filter;
+    }
+
+    /** キーワード・URL・要約の部分一致で絞り込む（大文字小文字は区別しない） */
+    setFilter(filter: string): void {
+        this.filter = filter.trim().toLowerCase();
+        vscode.commands.executeCommand('setContext', 'docmate.historyFiltered', this.filter.length > 0);
+        this.refresh();
+    }
+
+    getTreeItem(node: HistoryNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'pinned': {
+                const item = new vscode.TreeItem('Pinned', vscode.TreeItemCollapsibleState.Expanded);
+                item.iconPath = new vscode.ThemeIcon('pinned');
+                return item;
+            }
+            case 'language': {
+                const item = new vscode.TreeItem(node.language, vscode.TreeItemCollapsibleState.Expanded);
+                item.iconPath = new vscode.ThemeIcon('symbol-namespace');
+                item.description = `${this.entriesForLanguage(node.language).length}`;
+                return item;
+            }
+            case 'entry': {
+                const { entry } = node;
+                const item = new vscode.TreeItem(this.labelOf(entry), vscode.TreeItemCollapsibleState.None);
+                item.description = new Date(entry.savedAt).toLocaleString();
+                item.tooltip = new vscode.MarkdownString(`**${this.labelOf(entry)}**\n\n${entry.url}\n\n${entry.preview}`);
+                item.iconPath = new vscode.ThemeIcon(entry.pinned ? 'star-full' : 'book');
+                item.contextValue = entry.pinned ? 'docmate.historyEntry.pinned' : 'docmate.historyEntry';
+                item.command = {
+                    command: 'docmate.openHistoryEntry',
+                    title: 'Open',
+                    arguments: [entry.url],
+                };
+                return item;
+            }
+        }
+    }
+
+    getChildren(node?: HistoryNode): HistoryNode[] {
+        const entries = this.filteredEntries();
+
+        if (!node) {
+            const roots: HistoryNode[] = [];
+            if (entries.some(e => e.pinned)) {
+                roots.push({ kind: 'pinned' });
+            }
+            const languages = Array.from(new Set(entries.map(e => this.languageOf(e)))).sort();
+            for (const language of languages) {
+                roots.push({ kind: 'language', language });
+            }
+            return roots;
+        }
+
+        switch (node.kind) {
+            case 'pinned':
+                return entries.filter(e => e.pinned).map(entry => ({ kind: 'entry', entry }));
+            case 'language':
+                return this.entriesForLanguage(node.language).map(entry => ({ kind: 'entry', entry }));
+            default:
+                return [];
+        }
+    }
+
+    // ----- 内部ヘルパー -----
+
+    private filteredEntries(): CacheIndexEntry[] {
+        const entries = this.cacheService.list();
+        if (!this.filter) {
+            return entries;
+        }
+        return entries.filter(e =>
+            this.labelOf(e).toLowerCase().includes(this.filter)
+            || e.url.toLowerCase().includes(this.filter)
+            || e.preview.toLowerCase().includes(this.filter)
+        );
+    }
+
+    private entriesForLanguage(language: string): CacheIndexEntry[] {
+        return this.filteredEntries().filter(e => this.languageOf(e) === language);
+    }
+
+    private languageOf(entry: CacheIndexEntry): string {
+        return entry.language || UNKNOWN_LANGUAGE;
+    }
+
+    /** 表示名。キーワードが無い旧キャッシュは URL の末尾を使う */
+    private labelOf(entry: CacheIndexEntry): string {
+        if (entry.keyword) {
+            return entry.keyword;
+        }
+        const tail = entry.url.split(/[/#]/).filter(s => s.length > 0).pop();
+        if (!tail) {
+            return entry.url;
+        }
+        try {
+            return decodeURIComponent(tail);
+        } catch (e) {
+            return tail;
+        }
+    }
+}
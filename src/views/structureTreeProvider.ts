@@ -0,0 +1,51 @@
+import * as vscode from 'vscode';
+import { StructureController } from '../controllers/structureController';
+import { StructureNode } from '../services/projectStructureService';
+
+/**
+ * アクティビティバーの「Structure」ビュー。
+ * .gitignore / files.exclude を反映したプロジェクト構造を、ファイル数・行数付きで表示する。
+ * クリックするとそのファイル・フォルダを docmate.explainFile に渡す。
+ */
+export class StructureTreeProvider implements vscode.TreeDataProvider<StructureNode> {
+    public static readonly viewId = 'docmate.structure';
+
+    private readonly changeEmitter = new vscode.EventEmitter<StructureNode | undefined>();
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(private readonly structureController: StructureController) { }
+
+    /** 走査し直してツリーを再描画する */
+    refresh(): void {
+        this.structureController.invalidate();
+        this.changeEmitter.fire(undefined);
+    }
+
+    getTreeItem(node: StructureNode): vscode.TreeItem {
+        const item = new vscode.TreeItem(
+            vscode.Uri.file(node.fsPath),
+            node.isDirectory ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+        );
+        item.description = node.isDirectory
+            ? `${node.fileCount} files · ${node.lineCount} lines`
+            : `${node.lineCount} lines`;
+        item.tooltip = `${node.relPath}\n${item.description}`;
+        item.contextValue = node.isDirectory ? 'docmate.structureFolder' : 'docmate.structureFile';
+        // フォルダはクリックで開閉するだけにし、ファイルだけクリックで解説する
+        if (!node.isDirectory) {
+            item.command = {
+                command: 'docmate.explainFile',
+                title: 'Explain',
+                arguments: [vscode.Uri.file(node.fsPath)],
+            };
+        }
+        return item;
+    }
+
+    async getChildren(node?: StructureNode): Promise<StructureNode[]> {
+        if (node) {
+            return node.children;
+        }
+        return (await this.structureController.getStructure())?.children ?? [];
+    }
+}
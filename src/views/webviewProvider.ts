@@ -1,8 +1,8 @@
 
 import * as vscode from 'vscode';
 import { marked } from 'marked';
-import * as path from "path";
-import * as fs from "fs";
+import { ExampleAttempt } from '../services/executionService';
+import { LangConfig } from '../services/langConfig';
 
 
 interface ExampleData {
@@ -10,6 +10,8 @@ interface ExampleData {
     description: string;
     code: string;
     executionOutput: string;
+    attempts?: ExampleAttempt[];
+    verified?: boolean;
 }
 
 export class DocMateWebviewProvider {
@@ -17,14 +19,84 @@ export class DocMateWebviewProvider {
 
     private readonly mediaPath = "media";
 
+    /** ストリーミング表示中、Webview のスクリプトが読み込まれるまで送信を保留するメッセージ */
+    private pendingMessages: any[] = [];
+    private webviewReady = false;
+    private disposed = false;
+
     constructor(
         private readonly panel: vscode.WebviewPanel,
         private extensionUri: vscode.Uri,
-        private context: vscode.ExtensionContext
-    ) { }
+        private context: vscode.ExtensionContext,
+        /** サンドボックスの言語選択・実行コマンドの初期値に使う言語設定（LangConfigService で重ね合わせたもの） */
+        private readonly langConfig: LangConfig = {},
+        /** 実行に必要なコマンドが見つからない言語（サンドボックスの言語選択で印を付ける） */
+        private readonly unavailableLanguages: string[] = []
+    ) {
+        panel.webview.onDidReceiveMessage((message) => {
+            if (message?.command === 'ready') {
+                this.webviewReady = true;
+                this.pendingMessages.forEach(m => this.panel.webview.postMessage(m));
+                this.pendingMessages = [];
+            }
+        }, undefined, context.subscriptions);
+        panel.onDidDispose(() => { this.disposed = true; }, undefined, context.subscriptions);
+    }
 
     public update(summary: string, examples: ExampleData[], url: string, language: string) {
-        this.panel.webview.html = this.getHtmlForWebview(summary, examples, url, language);
+        this.pendingMessages = [];
+        this.panel.webview.html = this.getHtmlForWebview(summary, examples, url, language, false);
+    }
+
+    /**
+     * 要約・サンプルが届く前のスケルトンを表示する。
+     * 以降は updateSummary / showPendingExample / showExample / finish で少しずつ埋めていく。
+     */
+    public showSkeleton(url: string, language: string) {
+        this.webviewReady = false;
+        this.pendingMessages = [];
+        this.panel.webview.html = this.getHtmlForWebview('', [], url, language, true);
+    }
+
+    /** 届いた分までの要約（Markdown）で要約欄を置き換える */
+    public updateSummary(summary: string) {
+        this.post({ kind: 'summary', html: marked.parse(summary) });
+    }
+
+    /** パース済み・実行前のサンプルを、コードだけのセルとして追加する */
+    public showPendingExample(example: { title: string; description: string; code: string }, index: number) {
+        this.post({ kind: 'example', index, html: this.generatePendingCellHtml(example, index) });
+    }
+
+    /** 実行が終わったサンプルのセルを、サンドボックス付きのセルに差し替える（無ければ追加する） */
+    public showExample(example: ExampleData, index: number) {
+        this.post({ kind: 'example', index, html: this.generateCellHtml(example, index) });
+    }
+
+    /** スケルトンの残りを片付ける。サンプルが1つも無い場合はその旨を表示する */
+    public finish() {
+        this.post({ kind: 'done' });
+    }
+
+    /** 生成に失敗したことをパネル上にも表示する */
+    public showError(message: string) {
+        this.post({ kind: 'failed', text: message });
+    }
+
+    private post(message: any) {
+        // 生成中にパネルが閉じられた場合は何もしない
+        if (this.disposed) {
+            return;
+        }
+        if (this.webviewReady) {
+            this.panel.webview.postMessage(message);
+            return;
+        }
+        // 読み込み前に届いた要約は最新のものだけ送れば足りる
+        if (message.kind === 'summary') {
+            this.pendingMessages = this.pendingMessages.filter(m => m.kind !== 'summary');
+        }
+        this.pendingMessages.push(message);
     }
 
 
@@ -37,28 +109,20 @@ export class DocMateWebviewProvider {
         return text;
     }
 
-    private getHtmlForWebview(summary: string, examples: ExampleData[], url: string, language: string): string {
-        const summaryHtml = marked.parse(summary);
+    private getHtmlForWebview(summary: string, examples: ExampleData[], url: string, language: string, streaming: boolean): string {
+        const summaryHtml = streaming
+            ? '<div class="skeleton skeleton-line"></div><div class="skeleton skeleton-line"></div><div class="skeleton skeleton-line short"></div>'
+            : marked.parse(summary);
 
-        const examplesHtml = examples.map((ex, index) => this.generateCellHtml(ex, index)).join('');
+        const examplesHtml = streaming
+            ? '<div class="example-cell skeleton-cell skeleton"></div>'
+            : examples.map((ex, index) => this.generateCellHtml(ex, index)).join('');
 
         const scriptUri = this.panel.webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, this.mediaPath, "sandbox_init.js"));
         const styleUri = this.panel.webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, this.mediaPath, "styles.css"));
         const nonce = this.getNonce();
         // const baseUri = this.panel.webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, "media"));
 
-        // langConfig.json を読み込み、window.LANG_CONFIG として埋め込む
-        const configPath = path.join(this.context.extensionPath, this.mediaPath, "langConfig.json");
-        let langConfigObj: any = {};
-        try {
-            const txt = fs.readFileSync(configPath, "utf8");
-            langConfigObj = JSON.parse(txt);
-        } catch (e) {
-            // 読み込み失敗しても空オブジェクトで継続
-            langConfigObj = {};
-            console.warn("DocMateWebviewProvider: langConfig.json の読み込みに失敗しました。", e);
-        }
-
         return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -119,8 +183,9 @@ export class DocMateWebviewProvider {
     </style>
     <link rel="stylesheet" href="${styleUri}">
     <script nonce="${nonce}">
-        window.LANG_CONFIG = ${JSON.stringify(langConfigObj)};
+        window.LANG_CONFIG = ${JSON.stringify(this.langConfig)};
         window.CURRENT_LANG = "${language}";
+        window.UNAVAILABLE_LANGS = ${JSON.stringify(this.unavailableLanguages)};
     </script>
     <script nonce="${nonce}" src="${scriptUri}"></script>
 
@@ -128,15 +193,15 @@ export class DocMateWebviewProvider {
 <body>
     <div class="section">
         <h2>要約 (Summary)</h2>
-        <div>${summaryHtml}</div>
+        <div id="summary-body">${summaryHtml}</div>
         <p><a href="${url}">Original Documentation</a></p>
     </div>
     
     <div class="section">
         <h2>サンプルコード (Interactive Examples)</h2>
-        ${examplesHtml}
+        <div id="examples-body">${examplesHtml}</div>
     </div>
-
+${streaming ? this.getStreamingScript(nonce) : ''}
     <script>
         const vscode = acquireVsCodeApi();
 
@@ -190,6 +255,91 @@ export class DocMateWebviewProvider {
 </html>`;
     }
 
+    /**
+     * ストリーミング表示用のスクリプト。拡張機能からの summary / example / done / failed を反映する。
+     * sandbox_init.js が VS Code API を取得済みなので、ここでは window.__vscodeApi を使う。
+     * 追加した .sandbox-embed は sandbox_init.js の MutationObserver が初期化する。
+     */
+    private getStreamingScript(nonce: string): string {
+        return `<script nonce="${nonce}">
+    (() => {
+        const summaryBody = document.getElementById('summary-body');
+        const examplesBody = document.getElementById('examples-body');
+        const placeholder = examplesBody.querySelector('.skeleton-cell');
+
+        window.addEventListener('message', (event) => {
+            const msg = event.data || {};
+            if (msg.kind === 'summary') {
+                summaryBody.innerHTML = msg.html;
+            } else if (msg.kind === 'example') {
+                const template = document.createElement('template');
+                template.innerHTML = msg.html.trim();
+                const cell = template.content.firstElementChild;
+                const existing = document.getElementById('example-cell-' + msg.index);
+                if (existing) {
+                    existing.replaceWith(cell);
+                } else {
+                    // 届く順番が前後しても、サンプルの並び順（index）どおりに差し込む
+                    const next = Array.from(examplesBody.querySelectorAll('[id^="example-cell-"]'))
+                        .find(el => Number(el.id.substring('example-cell-'.length)) > msg.index);
+                    examplesBody.insertBefore(cell, next || (placeholder && placeholder.isConnected ? placeholder : null));
+                }
+            } else if (msg.kind === 'done') {
+                summaryBody.querySelectorAll('.skeleton').forEach(el => el.remove());
+                if (placeholder) placeholder.remove();
+                if (!examplesBody.querySelector('.example-cell')) {
+                    examplesBody.innerHTML = '<p class="description">サンプルコードはありません。</p>';
+                }
+            } else if (msg.kind === 'failed') {
+                summaryBody.querySelectorAll('.skeleton').forEach(el => el.remove());
+                if (placeholder) placeholder.remove();
+                const error = document.createElement('p');
+                error.className = 'stream-error';
+                error.textContent = msg.text;
+                summaryBody.appendChild(error);
+            }
+        });
+
+        let api = window.__vscodeApi;
+        try { api = api || acquireVsCodeApi(); } catch (e) { }
+        if (api) api.postMessage({ command: 'ready' });
+    })();
+    </script>`;
+    }
+
+    /** 実行待ちのサンプル。コードだけを表示し、実行が終わったら generateCellHtml のセルに置き換える */
+    private generatePendingCellHtml(example: { title: string; description: string; code: string }, index: number): string {
+        const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+        return `
+        <div class="example-cell pending" id="example-cell-${index}">
+        <div class="example-header">
+            <strong>${example.title}</strong>
+            <div class="description">${example.description}</div>
+            <span class="verify-badge running"><span class="loading">↻</span> running</span>
+        </div>
+        <pre class="pending-code"><code>${escapeHtml(example.code)}</code></pre>
+        </div>
+    `;
+    }
+
+    /**
+     * 自己修復ループの結果をバッジとして表示する。
+     * 実行していない（iframe 系・旧キャッシュ）場合は何も表示しない。
+     */
+    private generateVerificationBadge(example: ExampleData): string {
+        if (example.verified === undefined) {
+            return '';
+        }
+        const tries = example.attempts?.length ?? 1;
+        if (!example.verified) {
+            return `<span class="verify-badge unverified" title="${tries} 回実行しましたが成功しませんでした">⚠ unverified</span>`;
+        }
+        if (tries > 1) {
+            return `<span class="verify-badge fixed" title="AI による修正後に実行成功">✔ fixed after ${tries} attempts</span>`;
+        }
+        return `<span class="verify-badge verified" title="実行に成功しました">✔ verified</span>`;
+    }
+
     private generateCellHtml(example: ExampleData, index: number): string {
         // サンプル毎に sandbox 用の root を作る。id に index を含める。
         // また、initial code を data-* 属性で埋めて、sandbox_init.js 側で拾えるようにする。
@@ -211,6 +361,7 @@ export class DocMateWebviewProvider {
         <div class="example-header">
             <strong>${example.title}</strong>
             <div class="description">${example.description}</div>
+            ${this.generateVerificationBadge(example)}
         </div>
 
         <!-- Sandbox の埋め込み先 -->